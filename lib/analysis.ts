@@ -0,0 +1,266 @@
+import { z } from "zod";
+import type { ZodRawShape } from "zod";
+import { cached, forceRefreshSchema } from "./cache";
+import { saveReport } from "./history";
+import { log } from "./logger";
+import { isoDateSchema, timeframeSchema } from "./dates";
+import { platformSchema, hashtagPlatformSchema } from "./platforms";
+import { outputFormatSchema } from "./report";
+import { localeInputSchema } from "./locale";
+import type { ToolContext, ToolReport } from "./report";
+
+import { analyzeProfile, profileDataSchema, saveProfileRun } from "../tools/profile-analysis";
+import { scoreEngagement, engagementDataSchema } from "../tools/engagement-scoring";
+import { detectTrends, saveTrendRun, trendDataSchema } from "../tools/trend-detection";
+import { researchHashtags, hashtagDataSchema } from "../tools/hashtag-research";
+import { compareCompetitors, competitorDataSchema } from "../tools/competitor-comparison";
+import { analyzeSentiment, sentimentDataSchema } from "../tools/sentiment-analysis";
+import { findInfluencers, influencerDataSchema, audienceBandSchema } from "../tools/influencer-discovery";
+import { generateContentCalendar, calendarDataSchema, CALENDAR_EXPORTS } from "../tools/content-calendar";
+import { draftPost, draftDataSchema } from "../tools/post-drafting";
+import { scorePost, postScoreDataSchema } from "../tools/post-scoring";
+import { analyzeAudience, audienceDataSchema, targetPersonaSchema } from "../tools/audience-analysis";
+
+export interface AnalysisTool {
+  description: string;
+  inputSchema: ZodRawShape;
+  dataSchema: z.ZodTypeAny;
+  run(input: any, ctx: ToolContext): Promise<ToolReport<unknown>>;
+  /** Stores history from the report's snapshot; runs on every call, cache hits included */
+  persist?(report: ToolReport<unknown>, ctx: ToolContext): Promise<void>;
+}
+
+/** Report-generating tools, shared by MCP registration and the HTTP API */
+export const ANALYSIS_TOOLS = {
+  analyze_profile: {
+    description: "Analyze a social media profile or brand presence — posting patterns, content themes, audience indicators, and growth recommendations.",
+    inputSchema: {
+      username: z.string().describe("Social media username or handle (e.g., '@hubspot', or '@user@mastodon.social' for Mastodon)"),
+      platform: platformSchema.optional().describe("Social media platform to analyze"),
+      business_name: z.string().optional().describe("Business name for broader cross-platform search"),
+      ...localeInputSchema,
+      output_format: outputFormatSchema,
+      force_refresh: forceRefreshSchema,
+    },
+    dataSchema: profileDataSchema,
+    run: analyzeProfile,
+    persist: saveProfileRun,
+  },
+  score_engagement: {
+    description: "Score social media engagement for a brand or topic — engagement rate estimates, content type effectiveness, posting time analysis, and benchmarks.",
+    inputSchema: {
+      brand_or_topic: z.string().describe("Brand name or topic to analyze (e.g., 'Nike', 'AI marketing')"),
+      platform: platformSchema.optional().describe("Platform to focus on (analyzes all if omitted)"),
+      ...localeInputSchema,
+      output_format: outputFormatSchema,
+      force_refresh: forceRefreshSchema,
+    },
+    dataSchema: engagementDataSchema,
+    run: scoreEngagement,
+  },
+  detect_trends: {
+    description: "Detect trending topics and conversations in a niche — viral content patterns, emerging topics, sentiment shifts, and opportunity alerts.",
+    inputSchema: {
+      niche: z.string().describe("Industry or niche to monitor (e.g., 'AI marketing', 'fitness')"),
+      timeframe: timeframeSchema.optional().describe("Relative timeframe for trend analysis (default: this_week)"),
+      since: isoDateSchema.optional().describe("Start of a custom date range (ISO date, e.g. 2026-01-01); overrides timeframe"),
+      until: isoDateSchema.optional().describe("End of a custom date range (ISO date; default: today)"),
+      ...localeInputSchema,
+      output_format: outputFormatSchema,
+      force_refresh: forceRefreshSchema,
+    },
+    dataSchema: trendDataSchema,
+    run: detectTrends,
+    persist: saveTrendRun,
+  },
+  research_hashtags: {
+    description: "Research effective hashtags for a topic — popularity estimates, related hashtags, niche vs broad classification, and recommended hashtag sets.",
+    inputSchema: {
+      topic: z.string().describe("Topic or keyword for hashtag research (e.g., 'real estate', 'fitness')"),
+      platform: hashtagPlatformSchema.optional().describe("Target platform for hashtag optimization"),
+      count: z.number().min(1).max(50).optional().describe("Number of hashtags to return (default: 20, max: 50)"),
+      ...localeInputSchema,
+      output_format: outputFormatSchema,
+      force_refresh: forceRefreshSchema,
+    },
+    dataSchema: hashtagDataSchema,
+    run: researchHashtags,
+  },
+  compare_competitors: {
+    description: "Benchmark 2-10 brands side by side — ranked engagement scores, content mix, posting cadence, share of voice, and per-brand gaps and opportunities.",
+    inputSchema: {
+      brands: z.array(z.string()).min(2).max(10).describe("Brands to compare (e.g., ['Nike', 'Adidas', 'Puma'])"),
+      platform: platformSchema.optional().describe("Platform to focus on (compares across all if omitted)"),
+      ...localeInputSchema,
+      output_format: outputFormatSchema,
+      force_refresh: forceRefreshSchema,
+    },
+    dataSchema: competitorDataSchema,
+    run: compareCompetitors,
+  },
+  analyze_sentiment: {
+    description: "Analyze sentiment around a brand or topic — each gathered mention classified as positive, neutral or negative with an emotion and aspects (price, support, quality...), aggregated into percentages with example quotes, plus emerging complaints.",
+    inputSchema: {
+      brand_or_topic: z.string().describe("Brand name or topic to analyze (e.g., 'Notion', 'electric cars')"),
+      platform: platformSchema.optional().describe("Platform to focus on (searches the whole web if omitted)"),
+      max_mentions: z.number().min(10).max(80).optional().describe("Mentions to classify (default: 40, max: 80)"),
+      ...localeInputSchema,
+      output_format: outputFormatSchema,
+      force_refresh: forceRefreshSchema,
+    },
+    dataSchema: sentimentDataSchema,
+    run: analyzeSentiment,
+  },
+  find_influencers: {
+    description: "Find influencers for a niche on one platform — discovers creator handles from search results and listicles, vets each one (followers, engagement, brand-safety flags) and returns a ranked shortlist.",
+    inputSchema: {
+      niche: z.string().describe("Niche or topic the creators should cover (e.g., 'vegan baking', 'indie game dev')"),
+      platform: platformSchema.describe("Platform to find creators on"),
+      audience_size: audienceBandSchema.optional().describe("Audience-size band: nano (1K-10K), micro (10K-100K), mid (100K-500K), macro (500K-1M), mega (1M+). Any size if omitted"),
+      count: z.number().min(1).max(20).optional().describe("Creators in the shortlist (default: 10, max: 20)"),
+      ...localeInputSchema,
+      output_format: outputFormatSchema,
+      force_refresh: forceRefreshSchema,
+    },
+    dataSchema: influencerDataSchema,
+    run: findInfluencers,
+  },
+  generate_content_calendar: {
+    description: "Generate a dated content calendar — runs trend detection and hashtag research for the brand's niche, then plans every post (platform, format, hook, caption draft, hashtags, best posting time). Exportable as JSON, CSV and iCalendar (.ics).",
+    inputSchema: {
+      brand: z.string().describe("Brand the calendar is for"),
+      niche: z.string().optional().describe("Topic for trend and hashtag research (default: the brand)"),
+      platforms: z.array(platformSchema).min(1).max(5).describe("Platforms to schedule posts on"),
+      start_date: isoDateSchema.optional().describe("First day of the calendar (default: tomorrow)"),
+      end_date: isoDateSchema.optional().describe("Last day of the calendar (default: two weeks from the start, max 92 days)"),
+      posts_per_week: z.number().min(1).max(14).optional().describe("Posts per week on each platform (default: 3; at most 120 posts in total)"),
+      timezone: z.string().optional().describe("IANA timezone for posting times, e.g. America/New_York (default: floating local time)"),
+      export: z.array(z.enum(CALENDAR_EXPORTS)).optional().describe("Also return the schedule as CSV and/or iCalendar text (in data.exports and the report)"),
+      ...localeInputSchema,
+      output_format: outputFormatSchema,
+      force_refresh: forceRefreshSchema,
+    },
+    dataSchema: calendarDataSchema,
+    run: generateContentCalendar,
+  },
+  draft_post: {
+    description: "Draft caption variants for a post — each sized to the platform's character limit, with hashtags from hashtag research and optional brand voice samples to match.",
+    inputSchema: {
+      topic: z.string().describe("What the post is about (e.g., 'launch of our spring menu')"),
+      platform: platformSchema.describe("Platform the post is for"),
+      tone: z.string().optional().describe("Tone of voice (e.g., 'playful', 'professional', 'bold'; default: friendly and clear)"),
+      brand: z.string().optional().describe("Brand name, used for branded hashtags"),
+      brand_voice_samples: z.array(z.string()).max(5).optional().describe("Up to 5 earlier posts whose voice the drafts should match"),
+      variants: z.number().min(1).max(5).optional().describe("Caption variants to write (default: 3, max: 5)"),
+      ...localeInputSchema,
+      output_format: outputFormatSchema,
+      force_refresh: forceRefreshSchema,
+    },
+    dataSchema: draftDataSchema,
+    run: draftPost,
+  },
+  score_post: {
+    description: "Score a draft post — hook strength, readability, call-to-action presence, hashtag count versus platform norms and predicted engagement, combined into a 0-100 score with concrete improvements.",
+    inputSchema: {
+      caption: z.string().describe("The post text to score, hashtags included"),
+      platform: platformSchema.describe("Platform the post is for"),
+      topic: z.string().optional().describe("What the post is about, to judge the hook's relevance"),
+      ...localeInputSchema,
+      output_format: outputFormatSchema,
+      force_refresh: forceRefreshSchema,
+    },
+    dataSchema: postScoreDataSchema,
+    run: scorePost,
+  },
+  analyze_audience: {
+    description: "Build 2-4 audience personas for a handle or brand — demographics, interests, pain points, active hours and platform mix — with each attribute's confidence and supporting sources, optionally compared against a target persona.",
+    inputSchema: {
+      handle_or_brand: z.string().describe("Handle or brand name (e.g., '@glossier', 'Glossier')"),
+      platform: platformSchema.optional().describe("Platform the handle is on; adds measured followers and posting hours when a connector is configured"),
+      personas: z.number().int().min(2).max(4).optional().describe("Number of personas to build (default 3)"),
+      target_persona: targetPersonaSchema
+        .optional()
+        .describe("The audience you want to reach; each persona is scored against the fields you supply"),
+      ...localeInputSchema,
+      output_format: outputFormatSchema,
+      force_refresh: forceRefreshSchema,
+    },
+    dataSchema: audienceDataSchema,
+    run: analyzeAudience,
+  },
+} satisfies Record<string, AnalysisTool>;
+
+export type AnalysisToolName = keyof typeof ANALYSIS_TOOLS;
+
+export const ANALYSIS_TOOL_NAMES = Object.keys(ANALYSIS_TOOLS) as [AnalysisToolName, ...AnalysisToolName[]];
+
+export function isAnalysisTool(name: string): name is AnalysisToolName {
+  return Object.hasOwn(ANALYSIS_TOOLS, name);
+}
+
+/** Validates raw arguments (e.g. an HTTP body) against a tool's input schema */
+export function parseAnalysisInput(tool: AnalysisToolName, args: unknown): Record<string, unknown> {
+  const check = z.object(ANALYSIS_TOOLS[tool].inputSchema).safeParse(args ?? {});
+  if (!check.success) {
+    const issues = check.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+    throw new Error(`Invalid input for ${tool}: ${issues.join("; ")}`);
+  }
+  return check.data;
+}
+
+export interface AnalysisResult {
+  report: ToolReport<unknown>;
+  /** History id, set when the call was made with an API key */
+  reportId?: string;
+}
+
+/**
+ * Runs an analysis tool (or serves it from the report cache) and stores the
+ * result in the caller's report history.
+ */
+export async function runAnalysis(
+  tool: AnalysisToolName,
+  params: Record<string, unknown>,
+  ctx: ToolContext
+): Promise<AnalysisResult> {
+  const def: AnalysisTool = ANALYSIS_TOOLS[tool];
+  const { force_refresh, ...input } = params;
+  const runCtx: ToolContext = { ...ctx, forceRefresh: force_refresh === true };
+
+  let result: ToolReport<unknown>;
+  try {
+    // Keyed on LLM settings too, since a different model yields a different report
+    result = await cached(
+      "report",
+      { tool, input, llm: ctx.llm },
+      async () => ({
+        ...(await def.run(params, runCtx)),
+        generated_at: new Date().toISOString(),
+      }),
+      { forceRefresh: runCtx.forceRefresh }
+    );
+  } catch (err) {
+    if (ctx.signal?.aborted) await log("info", "Tool call cancelled", { tool });
+    throw err;
+  }
+
+  // Outside the cache so every caller gets its snapshot, whoever filled the cache
+  const { snapshot, ...report } = result;
+  if (def.persist) {
+    try {
+      await def.persist(result, ctx);
+    } catch (err: any) {
+      await log("error", `Failed to store ${tool} history: ${err.message}`, { tool });
+    }
+  }
+
+  let reportId: string | undefined;
+  if (ctx.apiKey) {
+    try {
+      reportId = (await saveReport(ctx.apiKey, tool, input, report)).id;
+    } catch (err: any) {
+      await log("error", `Failed to save report: ${err.message}`, { tool });
+    }
+  }
+  return { report, reportId };
+}
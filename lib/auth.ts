@@ -1,6 +1,7 @@
 import { readFile, writeFile, mkdir } from "fs/promises";
 import { join } from "path";
 import { randomBytes } from "crypto";
+import type { LLMSettings } from "./llm";
 
 const DATA_DIR = join(import.meta.dir || process.cwd(), "..", "data");
 const KEYS_FILE = join(DATA_DIR, "api-keys.json");
@@ -14,6 +15,7 @@ export interface ApiKeyData {
   created: string;
   active: boolean;
   usage: Record<string, number>; // "YYYY-MM" -> count
+  llm?: LLMSettings; // per-key LLM backend/model overrides
 }
 
 interface KeyStore {
@@ -134,6 +136,11 @@ export async function deactivateKey(key: string): Promise<boolean> {
   return false;
 }
 
+export async function isKeyActive(key: string): Promise<boolean> {
+  const store = await loadKeys();
+  return !!store.keys[key]?.active;
+}
+
 export async function getKeyUsage(key: string): Promise<{ tier: string; used: number; limit: number; remaining: number } | null> {
   const store = await loadKeys();
   const data = store.keys[key];
@@ -143,3 +150,18 @@ export async function getKeyUsage(key: string): Promise<{ tier: string; used: nu
   const limit = TIER_LIMITS[data.tier] || 10;
   return { tier: data.tier, used, limit, remaining: Math.max(0, limit - used) };
 }
+
+export async function getKeyLLMSettings(key: string): Promise<LLMSettings | undefined> {
+  const store = await loadKeys();
+  return store.keys[key]?.llm;
+}
+
+export async function setKeyLLMSettings(key: string, settings: LLMSettings | null): Promise<boolean> {
+  const store = await loadKeys();
+  const data = store.keys[key];
+  if (!data) return false;
+  if (settings) data.llm = settings;
+  else delete data.llm;
+  await saveKeys(store);
+  return true;
+}
@@ -0,0 +1,198 @@
+import { readFile, writeFile, mkdir, unlink } from "fs/promises";
+import { join } from "path";
+import { createHash } from "crypto";
+import { z } from "zod";
+import { log } from "./logger";
+
+const DATA_DIR = join(import.meta.dir || process.cwd(), "..", "data");
+const CACHE_DIR = join(DATA_DIR, "cache");
+
+export type CacheLayer = "search" | "page" | "report";
+
+// Seconds; override with CACHE_TTL_SEARCH, CACHE_TTL_PAGE, CACHE_TTL_REPORT
+const DEFAULT_TTL: Record<CacheLayer, number> = {
+  search: 6 * 60 * 60,
+  page: 24 * 60 * 60,
+  report: 60 * 60,
+};
+
+const MEMORY_MAX_ENTRIES = parseInt(process.env.CACHE_MEMORY_MAX_ENTRIES || "1000");
+
+export const forceRefreshSchema = z
+  .boolean()
+  .optional()
+  .describe("Bypass cached search results, pages and reports (default: false)");
+
+/** Shared second-level store; the in-memory cache always sits in front of it */
+interface CacheBackend {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+}
+
+function diskBackend(): CacheBackend {
+  const file = (key: string) => join(CACHE_DIR, `${key.replace(/[^a-z0-9_-]/gi, "_")}.json`);
+  return {
+    async get(key) {
+      try {
+        const entry = JSON.parse(await readFile(file(key), "utf-8"));
+        if (entry.expires > Date.now()) return entry.value;
+        await unlink(file(key)).catch(() => {});
+      } catch {}
+      return null;
+    },
+    async set(key, value, ttlSeconds) {
+      await mkdir(CACHE_DIR, { recursive: true });
+      await writeFile(file(key), JSON.stringify({ expires: Date.now() + ttlSeconds * 1000, value }));
+    },
+  };
+}
+
+/** Any Redis-protocol server (Redis, Valkey, KeyDB, Dragonfly) via Bun's built-in client */
+async function redisBackend(url: string): Promise<CacheBackend> {
+  const { RedisClient } = await import("bun");
+  const client = new RedisClient(url);
+  return {
+    get: (key) => client.get(`ezbiz-social:${key}`),
+    async set(key, value, ttlSeconds) {
+      await client.set(`ezbiz-social:${key}`, value, "EX", ttlSeconds);
+    },
+  };
+}
+
+let backendPromise: Promise<CacheBackend | null> | null = null;
+
+function getBackend(): Promise<CacheBackend | null> {
+  if (!backendPromise) {
+    const kind = process.env.CACHE_BACKEND || "memory";
+    backendPromise =
+      kind === "disk"
+        ? Promise.resolve(diskBackend())
+        : kind === "redis"
+          ? redisBackend(process.env.REDIS_URL || "redis://localhost:6379")
+          : Promise.resolve(null);
+  }
+  return backendPromise;
+}
+
+const memory = new Map<string, { expires: number; value: unknown }>();
+
+const stats: Record<CacheLayer, { hits: number; misses: number }> = {
+  search: { hits: 0, misses: 0 },
+  page: { hits: 0, misses: 0 },
+  report: { hits: 0, misses: 0 },
+};
+
+function ttlFor(layer: CacheLayer): number {
+  const env = parseInt(process.env[`CACHE_TTL_${layer.toUpperCase()}`] || "");
+  return isNaN(env) ? DEFAULT_TTL[layer] : env;
+}
+
+/**
+ * Stable cache key for any JSON-serializable input. Object keys are sorted and
+ * strings trimmed. Search strings are also lowercased, since providers ignore
+ * case; page URLs and report inputs (captions, voice samples) keep theirs.
+ */
+export function cacheKey(layer: CacheLayer, input: unknown): string {
+  const normalized = stableStringify(input, layer === "search");
+  return `${layer}_${createHash("sha1").update(normalized).digest("hex")}`;
+}
+
+function stableStringify(value: unknown, lowercase: boolean): string {
+  if (Array.isArray(value)) return `[${value.map((v) => stableStringify(v, lowercase)).join(",")}]`;
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .sort()
+      .filter((k) => record[k] !== undefined)
+      .map((k) => `${JSON.stringify(k)}:${stableStringify(record[k], lowercase)}`)
+      .join(",")}}`;
+  }
+  if (typeof value === "string") return JSON.stringify(lowercase ? value.trim().toLowerCase() : value.trim());
+  return JSON.stringify(value);
+}
+
+export interface CachedOptions<T> {
+  forceRefresh?: boolean;
+  /** Return false to skip caching a result (e.g. empty search results) */
+  shouldCache?: (value: T) => boolean;
+}
+
+/**
+ * Returns the cached value for `input` in `layer`, or runs `load` and caches
+ * its result. Cache failures never fail the caller.
+ */
+export async function cached<T>(
+  layer: CacheLayer,
+  input: unknown,
+  load: () => Promise<T>,
+  opts: CachedOptions<T> = {}
+): Promise<T> {
+  const ttl = ttlFor(layer);
+  if (ttl <= 0) return load();
+
+  const key = cacheKey(layer, input);
+
+  if (!opts.forceRefresh) {
+    const mem = memory.get(key);
+    if (mem && mem.expires > Date.now()) {
+      stats[layer].hits++;
+      await log("info", `Cache hit (${layer}, memory)`, { key });
+      return mem.value as T;
+    }
+    memory.delete(key);
+
+    try {
+      const backend = await getBackend();
+      const raw = backend ? await backend.get(key) : null;
+      if (raw !== null) {
+        const value = JSON.parse(raw) as T;
+        remember(key, value, ttl);
+        stats[layer].hits++;
+        await log("info", `Cache hit (${layer}, ${process.env.CACHE_BACKEND})`, { key });
+        return value;
+      }
+    } catch (err: any) {
+      await log("warn", `Cache read failed: ${err.message}`, { layer });
+    }
+  }
+
+  stats[layer].misses++;
+  await log("info", `Cache ${opts.forceRefresh ? "refresh" : "miss"} (${layer})`, { key });
+  const value = await load();
+  if (opts.shouldCache && !opts.shouldCache(value)) return value;
+
+  remember(key, value, ttl);
+  try {
+    const backend = await getBackend();
+    if (backend) await backend.set(key, JSON.stringify(value), ttl);
+  } catch (err: any) {
+    await log("warn", `Cache write failed: ${err.message}`, { layer });
+  }
+  return value;
+}
+
+function remember(key: string, value: unknown, ttlSeconds: number): void {
+  memory.delete(key);
+  memory.set(key, { expires: Date.now() + ttlSeconds * 1000, value });
+  // Map keeps insertion order, so the first key is the least recently stored
+  while (memory.size > MEMORY_MAX_ENTRIES) {
+    memory.delete(memory.keys().next().value!);
+  }
+}
+
+export function cacheStats() {
+  return {
+    backend: process.env.CACHE_BACKEND || "memory",
+    memoryEntries: memory.size,
+    layers: Object.fromEntries(
+      Object.entries(stats).map(([layer, s]) => [
+        layer,
+        {
+          ...s,
+          hitRate: s.hits + s.misses ? Math.round((s.hits / (s.hits + s.misses)) * 1000) / 10 : 0,
+          ttlSeconds: ttlFor(layer as CacheLayer),
+        },
+      ])
+    ),
+  };
+}
@@ -0,0 +1,135 @@
+/** One scheduled post, as exported to CSV and iCalendar */
+export interface CalendarPost {
+  /** YYYY-MM-DD */
+  date: string;
+  /** HH:MM, local to the calendar's timezone */
+  time: string;
+  platform: string;
+  format: string;
+  hook: string;
+  caption: string;
+  hashtags: string[];
+  trend: string | null;
+}
+
+const CSV_COLUMNS = ["date", "time", "platform", "format", "hook", "caption", "hashtags", "trend"] as const;
+
+// Spreadsheets run cells starting with these as formulas, so they are prefixed with '
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvField(value: string): string {
+  const safe = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** RFC 4180 CSV, one row per post; hashtags are space-separated and formula-like text is escaped */
+export function calendarCsv(posts: CalendarPost[]): string {
+  const rows = posts.map((p) =>
+    CSV_COLUMNS.map((col) => {
+      const value = col === "hashtags" ? p.hashtags.join(" ") : p[col] ?? "";
+      return csvField(value);
+    }).join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+function icsText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Content lines are limited to 75 octets; continuations start with a space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf-8");
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const len = Buffer.byteLength(char, "utf-8");
+    if (size + len > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += len;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+export interface IcsOptions {
+  /** Calendar name shown by clients */
+  name: string;
+  /** IANA timezone for post times; floating local times when omitted */
+  timezone?: string | null;
+  /** Minutes blocked per post */
+  durationMinutes?: number;
+}
+
+/** Offset of `timezone` from UTC at the given instant, in milliseconds */
+function zoneOffset(instant: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)!.value);
+  return Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second")) - instant;
+}
+
+/** UTC instant of a wall-clock date and time in `timezone` */
+export function zonedTimeToUtc(date: string, time: string, timezone: string): Date {
+  const [y, m, d] = date.split("-").map(Number);
+  const [h, min] = time.split(":").map(Number);
+  const wall = Date.UTC(y, m - 1, d, h, min);
+  // The offset at the wall time itself can differ across a DST change, so check it once more
+  const first = wall - zoneOffset(wall, timezone);
+  return new Date(wall - zoneOffset(first, timezone));
+}
+
+const icsUtc = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+
+/**
+ * iCalendar (RFC 5545) with one event per post. With a timezone, start times
+ * are converted to UTC, which needs no VTIMEZONE component; without one they
+ * are floating, so they stay at the same wall-clock time wherever the
+ * calendar is imported.
+ */
+export function calendarIcs(posts: CalendarPost[], opts: IcsOptions): string {
+  const stamp = icsUtc(new Date());
+  const start = (p: CalendarPost) =>
+    opts.timezone
+      ? icsUtc(zonedTimeToUtc(p.date, p.time, opts.timezone))
+      : `${p.date.replace(/-/g, "")}T${p.time.replace(":", "")}00`;
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//ezbiz-social-media//Content Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${icsText(opts.name)}`,
+    ...(opts.timezone ? [`X-WR-TIMEZONE:${opts.timezone}`] : []),
+  ];
+  posts.forEach((p, i) => {
+    const description = [p.caption, p.hashtags.join(" "), p.trend ? `Trend: ${p.trend}` : ""].filter(Boolean).join("\n\n");
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${p.date.replace(/-/g, "")}-${p.platform}-${i + 1}@social.ezbizservices.com`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${start(p)}`,
+      `DURATION:PT${opts.durationMinutes || 30}M`,
+      `SUMMARY:${icsText(`[${p.platform}] ${p.hook}`)}`,
+      `DESCRIPTION:${icsText(description)}`,
+      `CATEGORIES:${icsText(p.platform)},${icsText(p.format)}`,
+      "END:VEVENT"
+    );
+  });
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,121 @@
+import { extractHashtags } from "./hashtags";
+import { checkHashtag } from "./hashtag-safety";
+import type { HashtagCheck } from "./hashtag-safety";
+import type { PlatformInfo } from "./platforms";
+
+// English calls to action; other languages rely on the model's has_cta verdict
+const CTA_PATTERN =
+  /\b(comment( below)?|reply|share (this|it|with)|save (this|it|for later)|tag (a|someone|your)\w*|follow (us|me|for)|link in (bio|comments)|click|tap|sign up|subscribe|join (us|now|the)|download|register|book (a|your|now)|shop (now|the)|buy now|order now|learn more|read more|dm (us|me)|let (me|us) know|tell (me|us)|what do you think|drop (a|your))\b/gi;
+const URL_PATTERN = /https?:\/\/\S+/g;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu;
+
+export type HashtagFit = "under" | "within" | "over" | "unsupported";
+
+/** Measured properties of a caption, independent of any model */
+export interface CaptionMetrics {
+  /** Characters (code points), hashtags included */
+  length: number;
+  max_length: number;
+  over_limit: boolean;
+  /** First line, or its first sentence when the line runs on */
+  hook: string;
+  hook_length: number;
+  /** Whether the hook is visible before the feed cuts the caption off */
+  hook_in_preview: boolean;
+  words: number;
+  sentences: number;
+  avg_words_per_sentence: number;
+  /** Flesch reading ease (0-100, higher is easier); English only */
+  reading_ease: number | null;
+  /** Call-to-action phrases found in the text */
+  cta: string[];
+  hashtags: HashtagCheck[];
+  /** The platform's recommended hashtag count */
+  hashtag_range: string;
+  hashtag_fit: HashtagFit;
+  emoji: number;
+  line_breaks: number;
+}
+
+/** Lower and upper bound of an optimalCount like "3-5" or "1" */
+export function hashtagRange(optimalCount: string): [number, number] {
+  const [min, max] = optimalCount.split("-").map((n) => parseInt(n));
+  return [isNaN(min) ? 0 : min, isNaN(max ?? min) ? 0 : max ?? min];
+}
+
+function syllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (!w) return 0;
+  const groups = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "").match(/[aeiouy]+/g);
+  return Math.max(1, groups?.length || 0);
+}
+
+export function captionMetrics(text: string, platform: PlatformInfo, language = "en"): CaptionMetrics {
+  const trimmed = text.trim();
+  const length = [...trimmed].length;
+  const firstLine = trimmed.split(/\n/).find((l) => l.trim())?.trim() || "";
+  const hook = firstLine.split(/(?<=[.!?])\s+/)[0];
+
+  const prose = trimmed.replace(URL_PATTERN, " ").replace(/[#@][\p{L}\p{N}_.]+/gu, " ");
+  const words = prose.split(/\s+/).filter((w) => /\p{L}/u.test(w));
+  const sentences = Math.max(1, prose.split(/[.!?]+|\n+/).filter((s) => /\p{L}/u.test(s)).length);
+  const avgWords = words.length ? words.length / sentences : 0;
+
+  let readingEase: number | null = null;
+  if (language === "en" && words.length) {
+    const perWord = words.reduce((sum, w) => sum + syllables(w), 0) / words.length;
+    readingEase = Math.round(Math.min(100, Math.max(0, 206.835 - 1.015 * avgWords - 84.6 * perWord)));
+  }
+
+  const tags = [...new Set(extractHashtags(trimmed))];
+  const [min, max] = hashtagRange(platform.hashtags.optimalCount);
+  const fit: HashtagFit = !platform.hashtags.supported
+    ? tags.length ? "unsupported" : "within"
+    : tags.length < min ? "under" : tags.length > max ? "over" : "within";
+
+  return {
+    length,
+    max_length: platform.caption.maxLength,
+    over_limit: length > platform.caption.maxLength,
+    hook,
+    hook_length: [...hook].length,
+    hook_in_preview: [...hook].length <= platform.caption.previewLength,
+    words: words.length,
+    sentences,
+    avg_words_per_sentence: Math.round(avgWords * 10) / 10,
+    reading_ease: readingEase,
+    cta: [...new Set([...trimmed.matchAll(CTA_PATTERN)].map((m) => m[0].toLowerCase()))],
+    hashtags: tags.map((t) => checkHashtag(t, platform.id)),
+    hashtag_range: platform.hashtags.optimalCount,
+    hashtag_fit: fit,
+    emoji: trimmed.match(EMOJI_PATTERN)?.length || 0,
+    line_breaks: (trimmed.match(/\n/g) || []).length,
+  };
+}
+
+/** 1-10 ratings computed from metrics alone */
+export interface RuleScores {
+  readability: number;
+  cta: number;
+  hashtags: number;
+}
+
+const clamp = (n: number) => Math.round(Math.min(10, Math.max(1, n)));
+
+/**
+ * Readability follows reading ease where it can be computed and sentence
+ * length otherwise. Hashtags lose two points per tag outside the platform's
+ * range, three per banned or restricted tag and one per overused tag.
+ */
+export function ruleScores(m: CaptionMetrics, hasCta = m.cta.length > 0): RuleScores {
+  const readability = m.reading_ease !== null ? clamp(m.reading_ease / 10) : clamp(10 - (m.avg_words_per_sentence - 10) / 3);
+  const [min, max] = hashtagRange(m.hashtag_range);
+  const off = m.hashtag_fit === "unsupported" ? m.hashtags.length : Math.max(0, min - m.hashtags.length, m.hashtags.length - max);
+  const flagged = m.hashtags.filter((h) => h.status === "banned" || h.status === "restricted").length;
+  const overused = m.hashtags.filter((h) => h.status === "overused").length;
+  return {
+    readability,
+    cta: hasCta ? 10 : 2,
+    hashtags: clamp(10 - 2 * off - 3 * flagged - overused),
+  };
+}
@@ -0,0 +1,40 @@
+import { connectorFetch, hasCredentials } from "./http";
+import type { PlatformConnector } from "./types";
+
+const GRAPH = "https://graph.facebook.com/v21.0";
+
+/** Public Facebook Pages via the Graph API (needs Page Public Content Access) */
+export const facebookConnector: PlatformConnector = {
+  platform: "facebook",
+  configured: () => hasCredentials("FACEBOOK_ACCESS_TOKEN"),
+
+  async fetchProfile(handle, signal) {
+    const fields =
+      "id,username,name,about,fan_count,followers_count,link,posts.limit(10){id,message,created_time,permalink_url,shares,reactions.summary(true).limit(0),comments.summary(true).limit(0)}";
+    const page = await connectorFetch(
+      "facebook",
+      `${GRAPH}/${encodeURIComponent(handle)}?fields=${encodeURIComponent(fields)}&access_token=${encodeURIComponent(process.env.FACEBOOK_ACCESS_TOKEN || "")}`,
+      { signal }
+    );
+    if (!page?.id) throw new Error(`facebook: page not found: ${handle}`);
+
+    return {
+      platform: "facebook",
+      handle: page.username || handle,
+      url: page.link || `https://www.facebook.com/${handle}`,
+      display_name: page.name,
+      bio: page.about,
+      followers: page.followers_count ?? page.fan_count,
+      recent_posts: (page.posts?.data || []).map((p: any) => ({
+        id: p.id,
+        url: p.permalink_url,
+        text: p.message,
+        published_at: p.created_time,
+        likes: p.reactions?.summary?.total_count,
+        comments: p.comments?.summary?.total_count,
+        shares: p.shares?.count,
+      })),
+      fetched_at: new Date().toISOString(),
+    };
+  },
+};
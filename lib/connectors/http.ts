@@ -0,0 +1,106 @@
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { join } from "path";
+import { createHash } from "crypto";
+
+const DATA_DIR = join(import.meta.dir || process.cwd(), "..", "..", "data");
+
+// Query params that carry credentials never reach fixture files; request bodies are not stored at all
+const SECRET_PARAMS = ["access_token", "api_key", "client_secret"];
+// Body fields computed from the current time, left out so fixtures replay on any day
+const VOLATILE_FIELDS = ["start_date", "end_date"];
+
+/**
+ * CONNECTOR_MODE=record saves every API response under CONNECTOR_FIXTURES_DIR;
+ * CONNECTOR_MODE=replay serves them back without touching the network, so
+ * connectors run in tests with no credentials configured.
+ */
+export function connectorMode(): "live" | "record" | "replay" {
+  const mode = process.env.CONNECTOR_MODE;
+  return mode === "record" || mode === "replay" ? mode : "live";
+}
+
+function fixturesDir(): string {
+  return process.env.CONNECTOR_FIXTURES_DIR || join(DATA_DIR, "connector-fixtures");
+}
+
+function redact(url: string): string {
+  const u = new URL(url);
+  for (const p of SECRET_PARAMS) u.searchParams.delete(p);
+  return u.toString();
+}
+
+/** Request body as it identifies a fixture, without time-dependent fields */
+function bodyKey(body?: string): string {
+  if (!body) return "";
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return body;
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return body;
+  const record = { ...(parsed as Record<string, unknown>) };
+  for (const field of VOLATILE_FIELDS) delete record[field];
+  return JSON.stringify(record);
+}
+
+function fixturePath(platform: string, method: string, url: string, body?: string): string {
+  const hash = createHash("sha1")
+    .update(`${method} ${redact(url)}\n${bodyKey(body)}`)
+    .digest("hex")
+    .slice(0, 16);
+  return join(fixturesDir(), `${platform}-${hash}.json`);
+}
+
+export async function connectorFetch(
+  platform: string,
+  url: string,
+  init: { method?: string; headers?: Record<string, string>; body?: string; signal?: AbortSignal } = {}
+): Promise<any> {
+  const method = init.method || "GET";
+  const file = fixturePath(platform, method, url, init.body);
+
+  if (connectorMode() === "replay") {
+    let fixture: { status: number; body: any };
+    try {
+      fixture = JSON.parse(await readFile(file, "utf-8"));
+    } catch {
+      throw new Error(`${platform}: no recorded fixture for ${method} ${redact(url)}`);
+    }
+    if (fixture.status >= 400) throw new Error(`${platform} API error ${fixture.status}`);
+    return fixture.body;
+  }
+
+  const resp = await fetch(url, {
+    method,
+    headers: { Accept: "application/json", ...init.headers },
+    body: init.body,
+    signal: init.signal ? AbortSignal.any([init.signal, AbortSignal.timeout(15000)]) : AbortSignal.timeout(15000),
+  });
+  const text = await resp.text();
+  let body: any;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    body = text;
+  }
+
+  if (connectorMode() === "record") {
+    await mkdir(fixturesDir(), { recursive: true });
+    await writeFile(
+      file,
+      // Request bodies can carry handles and credentials, so only their hash (the file name) is kept
+      JSON.stringify({ method, url: redact(url), status: resp.status, body }, null, 2)
+    );
+  }
+
+  if (!resp.ok) {
+    throw new Error(`${platform} API error ${resp.status}: ${text.slice(0, 300)}`);
+  }
+  return body;
+}
+
+/** Credentials are only required when calls actually go to the network */
+export function hasCredentials(...names: string[]): boolean {
+  return connectorMode() === "replay" || names.every((n) => !!process.env[n]);
+}
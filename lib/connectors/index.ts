@@ -0,0 +1,109 @@
+import { log } from "../logger";
+import { twitterConnector } from "./twitter";
+import { instagramConnector } from "./instagram";
+import { facebookConnector } from "./facebook";
+import { tiktokConnector } from "./tiktok";
+import { linkedinConnector } from "./linkedin";
+import type { PlatformConnector, PlatformProfile } from "./types";
+
+export type { PlatformConnector, PlatformPost, PlatformProfile } from "./types";
+
+const CONNECTORS: Record<string, PlatformConnector> = {
+  twitter: twitterConnector,
+  instagram: instagramConnector,
+  facebook: facebookConnector,
+  tiktok: tiktokConnector,
+  linkedin: linkedinConnector,
+};
+
+export function getConnector(platform: string): PlatformConnector | null {
+  const connector = CONNECTORS[platform.toLowerCase()];
+  return connector && connector.configured() ? connector : null;
+}
+
+/**
+ * Pulls profile data from the platform API when a connector is configured.
+ * Returns null otherwise, or on any API failure, so callers fall back to the
+ * search-based path.
+ */
+export async function fetchPlatformProfile(
+  platform: string | undefined,
+  handle: string,
+  signal?: AbortSignal
+): Promise<PlatformProfile | null> {
+  if (!platform) return null;
+  const connector = getConnector(platform);
+  if (!connector) return null;
+
+  const cleanHandle = handle.trim().replace(/^@/, "");
+  try {
+    const profile = await connector.fetchProfile(cleanHandle, signal);
+    await log("info", `Fetched ${platform} profile via connector`, {
+      handle: cleanHandle,
+      followers: profile.followers,
+      posts: profile.recent_posts.length,
+    });
+    return profile;
+  } catch (err: any) {
+    // A cancelled call stops here instead of falling back to search
+    if (signal?.aborted) throw err;
+    await log("warn", `Connector ${platform} failed, falling back to search: ${err.message}`, {
+      handle: cleanHandle,
+    });
+    return null;
+  }
+}
+
+export interface EngagementStats {
+  posts_analyzed: number;
+  avg_likes: number;
+  avg_comments: number;
+  avg_shares: number;
+  /** Average interactions per post as a percent of followers */
+  engagement_rate: number | null;
+  posts_per_week: number | null;
+}
+
+/** Measured engagement from recent posts; null when the API returned none */
+export function engagementStats(profile: PlatformProfile): EngagementStats | null {
+  const posts = profile.recent_posts;
+  if (posts.length === 0) return null;
+
+  const avg = (pick: (p: (typeof posts)[number]) => number | undefined) =>
+    Math.round(posts.reduce((n, p) => n + (pick(p) || 0), 0) / posts.length);
+  const avgLikes = avg((p) => p.likes);
+  const avgComments = avg((p) => p.comments);
+  const avgShares = avg((p) => p.shares);
+
+  const times = posts.map((p) => Date.parse(p.published_at)).filter((t) => !isNaN(t));
+  const spanWeeks = times.length > 1 ? (Math.max(...times) - Math.min(...times)) / (7 * 24 * 60 * 60 * 1000) : 0;
+
+  return {
+    posts_analyzed: posts.length,
+    avg_likes: avgLikes,
+    avg_comments: avgComments,
+    avg_shares: avgShares,
+    engagement_rate: profile.followers
+      ? Math.round(((avgLikes + avgComments + avgShares) / profile.followers) * 10000) / 100
+      : null,
+    posts_per_week: spanWeeks > 0 ? Math.round(((times.length - 1) / spanWeeks) * 10) / 10 : null,
+  };
+}
+
+/** Prompt section for measured API data, labelled with its citation number */
+export function platformDataContext(profile: PlatformProfile, sourceId: number): string {
+  const { recent_posts, ...meta } = profile;
+  return `Platform API Data (measured, source [${sourceId}]):
+${JSON.stringify(
+  {
+    ...meta,
+    engagement: engagementStats(profile),
+    recent_posts: recent_posts.map((p) => ({ ...p, text: p.text?.slice(0, 200) })),
+  },
+  null,
+  2
+)}`;
+}
+
+export const PLATFORM_DATA_INSTRUCTIONS =
+  "When Platform API Data is present, its follower counts, post counts and engagement figures are measured values: use them as-is and prefer them over estimates inferred from search snippets.";
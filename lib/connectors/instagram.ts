@@ -0,0 +1,44 @@
+import { connectorFetch, hasCredentials } from "./http";
+import type { PlatformConnector } from "./types";
+
+const GRAPH = "https://graph.facebook.com/v21.0";
+
+/**
+ * Instagram Graph API business discovery. Looks up any public business or
+ * creator account through our own business account (INSTAGRAM_BUSINESS_ACCOUNT_ID).
+ */
+export const instagramConnector: PlatformConnector = {
+  platform: "instagram",
+  configured: () => hasCredentials("INSTAGRAM_BUSINESS_ACCOUNT_ID", "INSTAGRAM_ACCESS_TOKEN"),
+
+  async fetchProfile(handle, signal) {
+    const fields = `business_discovery.username(${handle}){username,name,biography,followers_count,follows_count,media_count,media.limit(10){id,caption,timestamp,like_count,comments_count,permalink}}`;
+    const data = await connectorFetch(
+      "instagram",
+      `${GRAPH}/${process.env.INSTAGRAM_BUSINESS_ACCOUNT_ID || "me"}?fields=${encodeURIComponent(fields)}&access_token=${encodeURIComponent(process.env.INSTAGRAM_ACCESS_TOKEN || "")}`,
+      { signal }
+    );
+    const user = data?.business_discovery;
+    if (!user) throw new Error(`instagram: account not found or not a business/creator account: ${handle}`);
+
+    return {
+      platform: "instagram",
+      handle: user.username,
+      url: `https://www.instagram.com/${user.username}/`,
+      display_name: user.name,
+      bio: user.biography,
+      followers: user.followers_count,
+      following: user.follows_count,
+      post_count: user.media_count,
+      recent_posts: (user.media?.data || []).map((m: any) => ({
+        id: m.id,
+        url: m.permalink,
+        text: m.caption,
+        published_at: m.timestamp,
+        likes: m.like_count,
+        comments: m.comments_count,
+      })),
+      fetched_at: new Date().toISOString(),
+    };
+  },
+};
@@ -0,0 +1,46 @@
+import { connectorFetch, hasCredentials } from "./http";
+import type { PlatformConnector } from "./types";
+
+const API = "https://api.linkedin.com/rest";
+
+/**
+ * LinkedIn organization pages via the Community Management API. Personal
+ * profiles are not available through any public LinkedIn API.
+ */
+export const linkedinConnector: PlatformConnector = {
+  platform: "linkedin",
+  configured: () => hasCredentials("LINKEDIN_ACCESS_TOKEN"),
+
+  async fetchProfile(handle, signal) {
+    const headers = {
+      Authorization: `Bearer ${process.env.LINKEDIN_ACCESS_TOKEN || ""}`,
+      "LinkedIn-Version": process.env.LINKEDIN_API_VERSION || "202410",
+      "X-Restli-Protocol-Version": "2.0.0",
+    };
+    const orgs = await connectorFetch(
+      "linkedin",
+      `${API}/organizations?q=vanityName&vanityName=${encodeURIComponent(handle)}`,
+      { headers, signal }
+    );
+    const org = orgs?.elements?.[0];
+    if (!org) throw new Error(`linkedin: organization not found: ${handle}`);
+
+    const urn = `urn:li:organization:${org.id}`;
+    const followers = await connectorFetch(
+      "linkedin",
+      `${API}/networkSizes/${encodeURIComponent(urn)}?edgeType=COMPANY_FOLLOWED_BY_MEMBER`,
+      { headers, signal }
+    ).catch(() => null);
+
+    return {
+      platform: "linkedin",
+      handle: org.vanityName || handle,
+      url: `https://www.linkedin.com/company/${org.vanityName || handle}/`,
+      display_name: org.localizedName,
+      bio: org.localizedDescription,
+      followers: followers?.firstDegreeSize,
+      recent_posts: [],
+      fetched_at: new Date().toISOString(),
+    };
+  },
+};
@@ -0,0 +1,72 @@
+import { connectorFetch, hasCredentials } from "./http";
+import type { PlatformConnector } from "./types";
+
+const API = "https://open.tiktokapis.com/v2/research";
+
+function ymd(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/** TikTok Research API with a client access token (TIKTOK_ACCESS_TOKEN) */
+export const tiktokConnector: PlatformConnector = {
+  platform: "tiktok",
+  configured: () => hasCredentials("TIKTOK_ACCESS_TOKEN"),
+
+  async fetchProfile(handle, signal) {
+    const headers = {
+      Authorization: `Bearer ${process.env.TIKTOK_ACCESS_TOKEN || ""}`,
+      "Content-Type": "application/json",
+    };
+    const user = await connectorFetch(
+      "tiktok",
+      `${API}/user/info/?fields=display_name,bio_description,is_verified,follower_count,following_count,likes_count,video_count`,
+      { method: "POST", headers, body: JSON.stringify({ username: handle }), signal }
+    );
+    if (!user?.data || user.error?.code !== "ok") {
+      throw new Error(`tiktok: ${user?.error?.message || `user not found: ${handle}`}`);
+    }
+
+    // The research API caps video queries at a 30-day window
+    const end = new Date();
+    const start = new Date(end.getTime() - 29 * 24 * 60 * 60 * 1000);
+    const videos = await connectorFetch(
+      "tiktok",
+      `${API}/video/query/?fields=id,create_time,video_description,like_count,comment_count,share_count,view_count`,
+      {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          query: { and: [{ operation: "EQ", field_name: "username", field_values: [handle] }] },
+          start_date: ymd(start),
+          end_date: ymd(end),
+          max_count: 10,
+        }),
+        signal,
+      }
+    ).catch(() => null);
+
+    const u = user.data;
+    return {
+      platform: "tiktok",
+      handle,
+      url: `https://www.tiktok.com/@${handle}`,
+      display_name: u.display_name,
+      bio: u.bio_description,
+      followers: u.follower_count,
+      following: u.following_count,
+      post_count: u.video_count,
+      verified: u.is_verified,
+      recent_posts: (videos?.data?.videos || []).map((v: any) => ({
+        id: String(v.id),
+        url: `https://www.tiktok.com/@${handle}/video/${v.id}`,
+        text: v.video_description,
+        published_at: new Date(v.create_time * 1000).toISOString(),
+        likes: v.like_count,
+        comments: v.comment_count,
+        shares: v.share_count,
+        views: v.view_count,
+      })),
+      fetched_at: new Date().toISOString(),
+    };
+  },
+};
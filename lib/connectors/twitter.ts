@@ -0,0 +1,50 @@
+import { connectorFetch, hasCredentials } from "./http";
+import type { PlatformConnector } from "./types";
+
+const API = "https://api.twitter.com/2";
+
+/** X API v2 with an app-only bearer token (TWITTER_BEARER_TOKEN) */
+export const twitterConnector: PlatformConnector = {
+  platform: "twitter",
+  configured: () => hasCredentials("TWITTER_BEARER_TOKEN"),
+
+  async fetchProfile(handle, signal) {
+    const headers = { Authorization: `Bearer ${process.env.TWITTER_BEARER_TOKEN || ""}` };
+    const user = await connectorFetch(
+      "twitter",
+      `${API}/users/by/username/${encodeURIComponent(handle)}?user.fields=description,public_metrics,verified`,
+      { headers, signal }
+    );
+    if (!user?.data) throw new Error(`twitter: user not found: ${handle}`);
+
+    const tweets = await connectorFetch(
+      "twitter",
+      `${API}/users/${user.data.id}/tweets?max_results=10&exclude=retweets,replies&tweet.fields=created_at,public_metrics`,
+      { headers, signal }
+    );
+
+    const metrics = user.data.public_metrics || {};
+    return {
+      platform: "twitter",
+      handle: user.data.username,
+      url: `https://x.com/${user.data.username}`,
+      display_name: user.data.name,
+      bio: user.data.description,
+      followers: metrics.followers_count,
+      following: metrics.following_count,
+      post_count: metrics.tweet_count,
+      verified: user.data.verified,
+      recent_posts: (tweets?.data || []).map((t: any) => ({
+        id: t.id,
+        url: `https://x.com/${user.data.username}/status/${t.id}`,
+        text: t.text,
+        published_at: t.created_at,
+        likes: t.public_metrics?.like_count,
+        comments: t.public_metrics?.reply_count,
+        shares: (t.public_metrics?.retweet_count || 0) + (t.public_metrics?.quote_count || 0),
+        views: t.public_metrics?.impression_count,
+      })),
+      fetched_at: new Date().toISOString(),
+    };
+  },
+};
@@ -0,0 +1,33 @@
+export interface PlatformPost {
+  id: string;
+  url?: string;
+  text?: string;
+  published_at: string;
+  likes?: number;
+  comments?: number;
+  shares?: number;
+  views?: number;
+}
+
+/** Public profile metadata pulled from a platform API */
+export interface PlatformProfile {
+  platform: string;
+  handle: string;
+  url: string;
+  display_name?: string;
+  bio?: string;
+  followers?: number;
+  following?: number;
+  post_count?: number;
+  verified?: boolean;
+  recent_posts: PlatformPost[];
+  fetched_at: string;
+}
+
+export interface PlatformConnector {
+  platform: string;
+  /** True when the credentials this connector needs are present in env */
+  configured(): boolean;
+  /** `signal` aborts the API calls when the tool call is cancelled */
+  fetchProfile(handle: string, signal?: AbortSignal): Promise<PlatformProfile>;
+}
@@ -0,0 +1,115 @@
+import { z } from "zod";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Inclusive range of calendar days (YYYY-MM-DD); an open end means unbounded */
+export interface DateRange {
+  since?: string;
+  until?: string;
+}
+
+/**
+ * Relative timeframes and how many days back each reaches. The rolling
+ * last_* names are aliases of the older today/this_week/this_month values and
+ * share their trend history.
+ */
+const TIMEFRAMES = {
+  today: { days: 1, label: "today", history: "today" },
+  this_week: { days: 7, label: "this week", history: "this_week" },
+  this_month: { days: 30, label: "this month", history: "this_month" },
+  last_24h: { days: 1, label: "the last 24 hours", history: "today" },
+  last_7d: { days: 7, label: "the last 7 days", history: "this_week" },
+  last_30d: { days: 30, label: "the last 30 days", history: "this_month" },
+  last_quarter: { days: 90, label: "the last quarter", history: "last_quarter" },
+} as const;
+
+export type Timeframe = keyof typeof TIMEFRAMES;
+
+export const TIMEFRAME_NAMES = Object.keys(TIMEFRAMES) as [Timeframe, ...Timeframe[]];
+
+export const timeframeSchema = z.enum(TIMEFRAME_NAMES);
+
+export const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}/, "Expected an ISO date (YYYY-MM-DD)");
+
+export interface ResolvedTimeframe {
+  /** Human-readable span for prompts and queries, e.g. "the last 7 days" */
+  label: string;
+  range: DateRange;
+  /** Length of one comparison window for trend momentum */
+  windowMs: number;
+  /** Trend history key; null for custom ranges, which are not compared across runs */
+  historyKey: string | null;
+}
+
+export function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function currentYear(): number {
+  return new Date().getFullYear();
+}
+
+export function parseDay(value: string, field: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new Error(`Invalid ${field} date: ${value}`);
+  return date;
+}
+
+/**
+ * Turns a relative timeframe or explicit since/until dates into a date range.
+ * Explicit dates win over the timeframe.
+ */
+export function resolveTimeframe(
+  input: { timeframe?: string; since?: string; until?: string },
+  now = new Date()
+): ResolvedTimeframe {
+  if (input.since || input.until) {
+    const until = input.until ? parseDay(input.until, "until") : now;
+    const since = input.since ? parseDay(input.since, "since") : new Date(until.getTime() - 7 * DAY_MS);
+    if (since > until) throw new Error(`since (${input.since}) is after until (${input.until ?? isoDay(now)})`);
+
+    return {
+      label: `${isoDay(since)} to ${isoDay(until)}`,
+      range: { since: isoDay(since), until: isoDay(until) },
+      windowMs: Math.max(DAY_MS, until.getTime() - since.getTime()),
+      historyKey: null,
+    };
+  }
+
+  const name = (input.timeframe || "this_week") as Timeframe;
+  const tf = TIMEFRAMES[name];
+  if (!tf) throw new Error(`Unknown timeframe: ${input.timeframe}`);
+  return {
+    label: tf.label,
+    range: { since: isoDay(new Date(now.getTime() - tf.days * DAY_MS)), until: isoDay(now) },
+    windowMs: tf.days * DAY_MS,
+    historyKey: tf.history,
+  };
+}
+
+/** Trend history key for a relative timeframe (aliases share one history) */
+export function historyTimeframe(timeframe?: string): string {
+  return TIMEFRAMES[(timeframe || "this_week") as Timeframe]?.history || timeframe || "this_week";
+}
+
+export function inRange(day: string, range: DateRange): boolean {
+  const d = day.slice(0, 10);
+  return (!range.since || d >= range.since) && (!range.until || d <= range.until);
+}
+
+/** Research pages (guides, benchmarks) older than this are dropped as stale */
+export const STALE_AFTER_DAYS = 730;
+
+/**
+ * Orders pages newest first, with undated pages after dated ones in their
+ * original order. Pages published more than `maxAgeDays` ago are dropped.
+ */
+export function rankByFreshness<T extends { publishedAt?: string | null }>(pages: T[], maxAgeDays?: number): T[] {
+  const cutoff = maxAgeDays === undefined ? null : isoDay(new Date(Date.now() - maxAgeDays * DAY_MS));
+  const dated = pages
+    .filter((p) => p.publishedAt && (!cutoff || p.publishedAt.slice(0, 10) >= cutoff))
+    .sort((a, b) => b.publishedAt!.localeCompare(a.publishedAt!));
+  return [...dated, ...pages.filter((p) => !p.publishedAt)];
+}
@@ -0,0 +1,9 @@
+import { log } from "./logger";
+
+/**
+ * Email delivery stub. Messages are only logged until a mail provider is
+ * configured; callers should treat a resolved promise as "accepted".
+ */
+export async function sendEmail(to: string, subject: string, text: string): Promise<void> {
+  await log("info", `Email (stub) to ${to}: ${subject}`, { text: text.slice(0, 2000) });
+}
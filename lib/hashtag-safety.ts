@@ -0,0 +1,66 @@
+import { z } from "zod";
+import dataset from "./hashtag-safety.json";
+import { normalizeHashtag } from "./hashtags";
+import { PLATFORM_IDS } from "./platforms";
+
+export type HashtagStatus = "safe" | "restricted" | "banned" | "overused";
+
+const entrySchema = z.object({
+  tag: z.string().startsWith("#"),
+  category: z.enum(["banned", "restricted", "spam", "overused"]),
+  platforms: z.array(z.enum(["*", ...PLATFORM_IDS])).min(1),
+  reason: z.string(),
+});
+
+type SafetyEntry = z.infer<typeof entrySchema>;
+export type HashtagSafetyCategory = SafetyEntry["category"];
+
+// Validated on load so a bad edit to the dataset fails at startup, not mid-request
+const DATASET = z
+  .object({ version: z.string(), updated: z.string(), entries: z.array(entrySchema) })
+  .parse(dataset);
+
+export const HASHTAG_SAFETY_VERSION = DATASET.version;
+export const HASHTAG_SAFETY_UPDATED = DATASET.updated;
+
+const ENTRIES = new Map<string, SafetyEntry>(DATASET.entries.map((e) => [normalizeHashtag(e.tag), e]));
+
+// Spam-associated tags are reported as restricted: platforms down-rank rather than block them
+const STATUS: Record<HashtagSafetyCategory, HashtagStatus> = {
+  banned: "banned",
+  restricted: "restricted",
+  spam: "restricted",
+  overused: "overused",
+};
+
+export interface HashtagCheck {
+  tag: string;
+  status: HashtagStatus;
+  /** Dataset category; null for safe tags */
+  category: HashtagSafetyCategory | null;
+  reason: string | null;
+  /** Platforms the flag applies to ("*" for all) */
+  platforms: string[];
+}
+
+/**
+ * Looks a tag up in the safety dataset. With a platform, entries for other
+ * platforms are ignored; without one, a flag on any platform counts.
+ */
+export function checkHashtag(tag: string, platform?: string): HashtagCheck {
+  const entry = ENTRIES.get(normalizeHashtag(tag));
+  const applies = entry && (!platform || entry.platforms.some((p) => p === "*" || p === platform));
+  if (!entry || !applies) return { tag, status: "safe", category: null, reason: null, platforms: [] };
+
+  return {
+    tag,
+    status: STATUS[entry.category],
+    category: entry.category,
+    reason: entry.category === "spam" ? `Spam-associated: ${entry.reason}` : entry.reason,
+    platforms: entry.platforms,
+  };
+}
+
+export function isSafeHashtag(tag: string, platform?: string): boolean {
+  return checkHashtag(tag, platform).status === "safe";
+}
@@ -0,0 +1,187 @@
+/** Text a hashtag was found in, identified by its source URL */
+export interface HashtagDocument {
+  url: string;
+  text: string;
+}
+
+export type HashtagTier = "high" | "medium" | "niche";
+
+export interface HashtagStat {
+  /** Most common spelling seen, with the leading # */
+  tag: string;
+  /** Other case variants folded into this tag */
+  variants: string[];
+  /** Total occurrences across all sources */
+  frequency: number;
+  /** Distinct sources mentioning the tag */
+  source_count: number;
+  tier: HashtagTier;
+  /** Label (top tag) of the cluster this tag belongs to */
+  cluster: string;
+  /** Tags most often used in the same sources, strongest first */
+  related: string[];
+}
+
+export interface HashtagCluster {
+  label: string;
+  tags: string[];
+}
+
+export interface HashtagAnalysis {
+  hashtags: HashtagStat[];
+  clusters: HashtagCluster[];
+  source_count: number;
+}
+
+// A # preceded by a word character or & is a URL fragment, anchor or HTML entity
+// (e.g. page#section, &#39;), not a hashtag
+const HASHTAG_PATTERN = /(?<![\p{L}\p{N}_&/])#([\p{L}\p{M}\p{N}_]{2,60})/gu;
+// Pure numbers (#1, #2024) are rankings and years, not hashtags
+const HAS_LETTER = /\p{L}/u;
+
+// Minimum share of either tag's sources they must share to be clustered together
+const CLUSTER_JACCARD = 0.3;
+// Tags whose words contain each other (#fitness, #fitnessmotivation) cluster when the shared part is this long
+const CLUSTER_STEM_LENGTH = 4;
+// Share of ranked tags (seen in 2+ sources) that make the high tier
+const HIGH_TIER_SHARE = 0.2;
+
+export function normalizeHashtag(tag: string): string {
+  return `#${tag.replace(/^#/, "").normalize("NFKC").toLowerCase().replace(/_+$/, "")}`;
+}
+
+/** Hashtags in a text, in order of appearance, as written */
+export function extractHashtags(text: string): string[] {
+  const tags: string[] = [];
+  for (const m of text.normalize("NFKC").matchAll(HASHTAG_PATTERN)) {
+    if (HAS_LETTER.test(m[1])) tags.push(`#${m[1]}`);
+  }
+  return tags;
+}
+
+interface Tally {
+  key: string;
+  spellings: Map<string, number>;
+  frequency: number;
+  sources: Set<string>;
+}
+
+/**
+ * Counts, clusters and tiers hashtags from the gathered sources. Tiers reflect
+ * how widely a tag appears in those sources: high for the most widespread
+ * tags seen in several sources, medium for other tags seen in two or more,
+ * niche for tags seen in only one. Tags `keep` rejects are left out before
+ * ranking, so up to `limit` kept tags remain.
+ */
+export function analyzeHashtags(
+  docs: HashtagDocument[],
+  limit = 50,
+  keep: (tag: string) => boolean = () => true
+): HashtagAnalysis {
+  const tallies = new Map<string, Tally>();
+  const docTags: string[][] = [];
+
+  for (const doc of docs) {
+    const seen = new Set<string>();
+    for (const tag of extractHashtags(doc.text)) {
+      if (!keep(tag)) continue;
+      const key = normalizeHashtag(tag);
+      let t = tallies.get(key);
+      if (!t) {
+        t = { key, spellings: new Map(), frequency: 0, sources: new Set() };
+        tallies.set(key, t);
+      }
+      t.frequency++;
+      t.spellings.set(tag, (t.spellings.get(tag) || 0) + 1);
+      t.sources.add(doc.url);
+      seen.add(key);
+    }
+    docTags.push([...seen]);
+  }
+
+  const ranked = [...tallies.values()]
+    .sort((a, b) => b.sources.size - a.sources.size || b.frequency - a.frequency || a.key.localeCompare(b.key))
+    .slice(0, limit);
+  const keys = new Set(ranked.map((t) => t.key));
+
+  // Co-occurrence: number of sources two tags share
+  const pairs = new Map<string, number>();
+  for (const tags of docTags) {
+    const kept = tags.filter((k) => keys.has(k)).sort();
+    for (let i = 0; i < kept.length; i++) {
+      for (let j = i + 1; j < kept.length; j++) {
+        const pair = `${kept[i]} ${kept[j]}`;
+        pairs.set(pair, (pairs.get(pair) || 0) + 1);
+      }
+    }
+  }
+
+  const related = new Map<string, { key: string; strength: number }[]>();
+  const parent = new Map(ranked.map((t) => [t.key, t.key]));
+  const find = (k: string): string => {
+    while (parent.get(k) !== k) k = parent.get(k)!;
+    return k;
+  };
+  const union = (a: string, b: string) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent.set(rb, ra);
+  };
+
+  for (const [pair, shared] of pairs) {
+    const [a, b] = pair.split(" ");
+    const sa = tallies.get(a)!.sources.size;
+    const sb = tallies.get(b)!.sources.size;
+    const jaccard = shared / (sa + sb - shared);
+    related.set(a, [...(related.get(a) || []), { key: b, strength: jaccard }]);
+    related.set(b, [...(related.get(b) || []), { key: a, strength: jaccard }]);
+    if (shared >= 2 && jaccard >= CLUSTER_JACCARD) union(a, b);
+  }
+
+  for (const a of ranked) {
+    for (const b of ranked) {
+      const shorter = a.key.length <= b.key.length ? a.key : b.key;
+      const longer = shorter === a.key ? b.key : a.key;
+      if (a.key < b.key && shorter.length - 1 >= CLUSTER_STEM_LENGTH && longer.startsWith(shorter)) union(a.key, b.key);
+    }
+  }
+
+  const display = (key: string) =>
+    [...tallies.get(key)!.spellings.entries()].sort((x, y) => y[1] - x[1] || x[0].localeCompare(y[0]))[0][0];
+
+  // Ranked order means the first member of each cluster is its most widespread tag
+  const clusterMembers = new Map<string, string[]>();
+  for (const t of ranked) {
+    const root = find(t.key);
+    clusterMembers.set(root, [...(clusterMembers.get(root) || []), t.key]);
+  }
+  const clusterLabel = new Map<string, string>();
+  for (const members of clusterMembers.values()) {
+    for (const k of members) clusterLabel.set(k, display(members[0]));
+  }
+
+  const repeated = ranked.filter((t) => t.sources.size >= 2);
+  const highCount = Math.ceil(repeated.length * HIGH_TIER_SHARE);
+
+  const hashtags: HashtagStat[] = ranked.map((t, i) => {
+    const tag = display(t.key);
+    return {
+      tag,
+      variants: [...t.spellings.keys()].filter((s) => s !== tag),
+      frequency: t.frequency,
+      source_count: t.sources.size,
+      tier: t.sources.size < 2 ? "niche" : i < highCount ? "high" : "medium",
+      cluster: clusterLabel.get(t.key)!,
+      related: (related.get(t.key) || [])
+        .sort((x, y) => y.strength - x.strength || x.key.localeCompare(y.key))
+        .slice(0, 5)
+        .map((r) => display(r.key)),
+    };
+  });
+
+  const clusters = [...clusterMembers.values()]
+    .filter((members) => members.length > 1)
+    .map((members) => ({ label: display(members[0]), tags: members.map(display) }));
+
+  return { hashtags, clusters, source_count: docs.length };
+}
@@ -0,0 +1,127 @@
+import { readFile, writeFile, mkdir, unlink } from "fs/promises";
+import { join } from "path";
+import { randomBytes } from "crypto";
+import type { ReportUsage, ToolReport } from "./report";
+import type { Source } from "./sources";
+
+const DATA_DIR = join(import.meta.dir || process.cwd(), "..", "data");
+const REPORTS_DIR = join(DATA_DIR, "reports");
+const INDEX_FILE = join(REPORTS_DIR, "index.json");
+
+export interface ReportSummary {
+  id: string;
+  tool: string;
+  owner: string; // API key that ran the tool
+  created: string;
+  input: Record<string, unknown>;
+  format: string;
+  source_count: number;
+}
+
+export interface StoredReport<T = unknown> extends ReportSummary {
+  markdown?: string;
+  data?: T;
+  sources: Source[];
+  usage?: ReportUsage;
+}
+
+interface ReportIndex {
+  reports: Record<string, ReportSummary>;
+}
+
+async function loadIndex(): Promise<ReportIndex> {
+  try {
+    const data = await readFile(INDEX_FILE, "utf-8");
+    return JSON.parse(data);
+  } catch {
+    return { reports: {} };
+  }
+}
+
+async function saveIndex(index: ReportIndex): Promise<void> {
+  await mkdir(REPORTS_DIR, { recursive: true });
+  await writeFile(INDEX_FILE, JSON.stringify(index, null, 2));
+}
+
+// Job workers, monitors and HTTP calls save reports concurrently, so every
+// read-modify-write of the index is serialized
+let storeLock: Promise<unknown> = Promise.resolve();
+
+function updateIndex<T>(fn: (index: ReportIndex) => T): Promise<T> {
+  const next = storeLock.then(async () => {
+    const index = await loadIndex();
+    const result = fn(index);
+    await saveIndex(index);
+    return result;
+  });
+  storeLock = next.catch(() => {});
+  return next;
+}
+
+function reportFile(id: string): string {
+  return join(REPORTS_DIR, `${id}.json`);
+}
+
+export async function saveReport<T>(
+  owner: string,
+  tool: string,
+  input: Record<string, unknown>,
+  report: ToolReport<T>
+): Promise<StoredReport<T>> {
+  const stored: StoredReport<T> = {
+    id: `rpt_${randomBytes(12).toString("hex")}`,
+    tool,
+    owner,
+    created: new Date().toISOString(),
+    input,
+    format: report.format,
+    source_count: report.sources.length,
+    markdown: report.markdown,
+    data: report.data,
+    sources: report.sources,
+    usage: report.usage,
+  };
+
+  await mkdir(REPORTS_DIR, { recursive: true });
+  await writeFile(reportFile(stored.id), JSON.stringify(stored, null, 2));
+
+  const { markdown, data, sources, usage, ...summary } = stored;
+  await updateIndex((index) => {
+    index.reports[stored.id] = summary;
+  });
+
+  return stored;
+}
+
+export async function listReports(
+  owner: string,
+  opts: { tool?: string; limit?: number } = {}
+): Promise<ReportSummary[]> {
+  const index = await loadIndex();
+  return Object.values(index.reports)
+    .filter((r) => r.owner === owner && (!opts.tool || r.tool === opts.tool))
+    .sort((a, b) => b.created.localeCompare(a.created))
+    .slice(0, opts.limit || 20);
+}
+
+/** Returns null for unknown ids and for reports owned by another key */
+export async function getReport(owner: string, id: string): Promise<StoredReport | null> {
+  if (!/^rpt_[a-f0-9]+$/.test(id)) return null;
+  try {
+    const report: StoredReport = JSON.parse(await readFile(reportFile(id), "utf-8"));
+    return report.owner === owner ? report : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function deleteReport(owner: string, id: string): Promise<boolean> {
+  const report = await getReport(owner, id);
+  if (!report) return false;
+
+  await updateIndex((index) => {
+    delete index.reports[id];
+  });
+  await unlink(reportFile(id)).catch(() => {});
+  return true;
+}
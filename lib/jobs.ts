@@ -0,0 +1,248 @@
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { join } from "path";
+import { randomBytes } from "crypto";
+import { runAnalysis } from "./analysis";
+import type { AnalysisToolName } from "./analysis";
+import { getKeyLLMSettings } from "./auth";
+import { log } from "./logger";
+import { reportEnvelope } from "./report";
+import { deliverWebhook, validateWebhookUrl } from "./webhooks";
+import type { WebhookDelivery } from "./webhooks";
+
+const DATA_DIR = join(import.meta.dir || process.cwd(), "..", "data");
+const JOBS_FILE = join(DATA_DIR, "jobs.json");
+
+const JOB_CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || "2");
+// Finished jobs are kept this long so callers can still poll them
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+// A job interrupted by this many restarts is failed instead of re-run
+const MAX_JOB_ATTEMPTS = 3;
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export interface Job {
+  id: string;
+  owner: string; // API key that submitted the job
+  tool: AnalysisToolName;
+  input: Record<string, unknown>;
+  status: JobStatus;
+  created: string;
+  started_at?: string;
+  finished_at?: string;
+  attempts: number;
+  /** History id of the finished report */
+  report_id?: string;
+  error?: string;
+  webhook_url?: string;
+  webhook?: WebhookDelivery;
+}
+
+interface JobStore {
+  jobs: Record<string, Job>;
+}
+
+async function loadJobs(): Promise<JobStore> {
+  try {
+    const data = await readFile(JOBS_FILE, "utf-8");
+    return JSON.parse(data);
+  } catch {
+    return { jobs: {} };
+  }
+}
+
+async function saveJobs(store: JobStore): Promise<void> {
+  const cutoff = Date.now() - JOB_RETENTION_MS;
+  for (const [id, job] of Object.entries(store.jobs)) {
+    if (job.finished_at && Date.parse(job.finished_at) < cutoff) delete store.jobs[id];
+  }
+  await mkdir(DATA_DIR, { recursive: true });
+  await writeFile(JOBS_FILE, JSON.stringify(store, null, 2));
+}
+
+// Workers update jobs concurrently, so every read-modify-write is serialized
+let storeLock: Promise<unknown> = Promise.resolve();
+
+function updateJobs<T>(fn: (store: JobStore) => T): Promise<T> {
+  const next = storeLock.then(async () => {
+    const store = await loadJobs();
+    const result = fn(store);
+    await saveJobs(store);
+    return result;
+  });
+  storeLock = next.catch(() => {});
+  return next;
+}
+
+function updateJob(id: string, patch: Partial<Job>): Promise<Job | null> {
+  return updateJobs((store) => {
+    const job = store.jobs[id];
+    if (!job) return null;
+    Object.assign(job, patch);
+    return { ...job };
+  });
+}
+
+export async function submitJob(
+  owner: string,
+  tool: AnalysisToolName,
+  input: Record<string, unknown>,
+  webhookUrl?: string
+): Promise<Job> {
+  if (webhookUrl) await validateWebhookUrl(webhookUrl);
+  const job: Job = {
+    id: `job_${randomBytes(12).toString("hex")}`,
+    owner,
+    tool,
+    input,
+    status: "queued",
+    created: new Date().toISOString(),
+    attempts: 0,
+    ...(webhookUrl ? { webhook_url: webhookUrl } : {}),
+  };
+  await updateJobs((store) => {
+    store.jobs[job.id] = job;
+  });
+  await log("info", "Job queued", { id: job.id, tool });
+
+  queue.push(job.id);
+  pump();
+  return job;
+}
+
+export async function getJob(owner: string, id: string): Promise<Job | null> {
+  if (!/^job_[a-f0-9]{24}$/.test(id)) return null;
+  const job = (await loadJobs()).jobs[id];
+  return job && job.owner === owner ? job : null;
+}
+
+export async function listJobs(
+  owner: string,
+  opts: { status?: JobStatus; limit?: number } = {}
+): Promise<Job[]> {
+  const store = await loadJobs();
+  return Object.values(store.jobs)
+    .filter((j) => j.owner === owner && (!opts.status || j.status === opts.status))
+    .sort((a, b) => b.created.localeCompare(a.created))
+    .slice(0, opts.limit || 20);
+}
+
+/** Cancels a queued or running job; returns null when it is not the caller's or already finished */
+export async function cancelJob(owner: string, id: string): Promise<Job | null> {
+  if (!/^job_[a-f0-9]{24}$/.test(id)) return null;
+  // Checked and written in one update so a job finishing meanwhile keeps its result
+  const job = await updateJobs((store) => {
+    const j = store.jobs[id];
+    if (!j || j.owner !== owner || (j.status !== "queued" && j.status !== "running")) return null;
+    j.status = "cancelled";
+    j.finished_at = new Date().toISOString();
+    return { ...j };
+  });
+  if (!job) return null;
+
+  running.get(id)?.abort(new Error("Job cancelled"));
+  const idx = queue.indexOf(id);
+  if (idx !== -1) queue.splice(idx, 1);
+
+  await log("info", "Job cancelled", { id });
+  return job;
+}
+
+/** Records a running job's outcome unless it was cancelled meanwhile */
+function finishJob(id: string, patch: Partial<Job>): Promise<Job | null> {
+  return updateJobs((store) => {
+    const job = store.jobs[id];
+    if (!job || job.status !== "running") return null;
+    Object.assign(job, patch, { finished_at: new Date().toISOString() });
+    return { ...job };
+  });
+}
+
+// --- Worker ---
+const queue: string[] = [];
+const running = new Map<string, AbortController>();
+
+function pump(): void {
+  while (running.size < JOB_CONCURRENCY && queue.length > 0) {
+    const id = queue.shift()!;
+    const controller = new AbortController();
+    running.set(id, controller);
+    runJob(id, controller.signal)
+      .catch((err) => log("error", `Job runner crashed: ${err.message}`, { id }))
+      .finally(() => {
+        running.delete(id);
+        pump();
+      });
+  }
+}
+
+async function runJob(id: string, signal: AbortSignal): Promise<void> {
+  const job = await updateJobs((store) => {
+    const j = store.jobs[id];
+    if (!j || j.status !== "queued") return null;
+    j.status = "running";
+    j.started_at = new Date().toISOString();
+    j.attempts++;
+    return { ...j };
+  });
+  if (!job) return;
+
+  try {
+    const { report, reportId } = await runAnalysis(job.tool, job.input, {
+      apiKey: job.owner,
+      llm: await getKeyLLMSettings(job.owner),
+      signal,
+    });
+    const done = await finishJob(id, { status: "succeeded", report_id: reportId });
+    if (!done) return;
+    await log("info", "Job succeeded", { id, tool: job.tool, report_id: reportId });
+    if (done.webhook_url) await notify(done, reportEnvelope(report, reportId));
+  } catch (err: any) {
+    // cancelJob already recorded the cancellation
+    if (signal.aborted) return;
+    const failed = await finishJob(id, { status: "failed", error: err.message });
+    if (!failed) return;
+    await log("error", `Job failed: ${err.message}`, { id, tool: job.tool });
+    if (failed.webhook_url) await notify(failed);
+  }
+}
+
+async function notify(job: Job, result?: unknown): Promise<void> {
+  const webhook = await deliverWebhook(job.webhook_url!, job.owner, job.id, {
+    event: `job.${job.status}`,
+    job: publicJob(job),
+    ...(result ? { result } : {}),
+  });
+  await updateJob(job.id, { webhook });
+}
+
+/** Job as returned to callers (without the owning key) */
+export function publicJob({ owner, ...job }: Job): Omit<Job, "owner"> {
+  return job;
+}
+
+/**
+ * Re-queues jobs left queued or running by a previous process. Call once at
+ * startup.
+ */
+export async function resumeJobs(): Promise<void> {
+  const ids = await updateJobs((store) => {
+    const resumed: string[] = [];
+    for (const job of Object.values(store.jobs).sort((a, b) => a.created.localeCompare(b.created))) {
+      if (job.status !== "queued" && job.status !== "running") continue;
+      if (job.attempts >= MAX_JOB_ATTEMPTS) {
+        job.status = "failed";
+        job.finished_at = new Date().toISOString();
+        job.error = `Interrupted ${job.attempts} times by server restarts`;
+        continue;
+      }
+      job.status = "queued";
+      resumed.push(job.id);
+    }
+    return resumed;
+  });
+
+  if (ids.length === 0) return;
+  await log("info", `Resuming ${ids.length} job(s) after restart`);
+  queue.push(...ids);
+  pump();
+}
@@ -0,0 +1,395 @@
+export type LLMProviderName = "openai" | "azure" | "anthropic" | "openai-compatible";
+
+export const LLM_PROVIDERS: LLMProviderName[] = ["openai", "azure", "anthropic", "openai-compatible"];
+
+// Local servers all speak the OpenAI chat completions protocol
+const PROVIDER_ALIASES: Record<string, LLMProviderName> = {
+  ollama: "openai-compatible",
+  vllm: "openai-compatible",
+  llamacpp: "openai-compatible",
+  "llama.cpp": "openai-compatible",
+  local: "openai-compatible",
+};
+
+/** Overrides that can be set per tool (env) or per API key (key store) */
+export interface LLMSettings {
+  provider?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  model?: string;
+  temperature: number;
+  maxTokens: number;
+  signal?: AbortSignal;
+  /** When set, the provider streams the completion and calls this with each text delta */
+  onToken?: (text: string) => void;
+}
+
+export interface LLMUsage {
+  provider: LLMProviderName;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  usage: LLMUsage;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  complete(req: LLMRequest): Promise<LLMResponse>;
+}
+
+/**
+ * Error raised by every provider so callers see one shape regardless of
+ * backend. `retryable` covers rate limits, server errors and network failures.
+ */
+export class LLMError extends Error {
+  constructor(
+    public provider: LLMProviderName,
+    message: string,
+    public status?: number,
+    public retryable = false,
+    public retryAfterMs?: number
+  ) {
+    super(`${provider} API error${status ? ` ${status}` : ""}: ${message}`);
+    this.name = "LLMError";
+  }
+}
+
+const LLM_TIMEOUT_MS = 120000;
+
+async function post(
+  provider: LLMProviderName,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<Response> {
+  const timeout = AbortSignal.timeout(LLM_TIMEOUT_MS);
+  let resp: Response;
+  try {
+    resp = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+  } catch (err: any) {
+    // A cancelled call is not a provider failure and must not be retried
+    signal?.throwIfAborted();
+    throw new LLMError(provider, err.message, undefined, true);
+  }
+
+  if (!resp.ok) {
+    const retryAfter = parseFloat(resp.headers.get("retry-after") || "");
+    throw new LLMError(
+      provider,
+      (await resp.text()).slice(0, 500),
+      resp.status,
+      resp.status === 429 || resp.status >= 500,
+      isNaN(retryAfter) ? undefined : retryAfter * 1000
+    );
+  }
+  return resp;
+}
+
+async function postJSON(
+  provider: LLMProviderName,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<any> {
+  return (await post(provider, url, headers, body, signal)).json();
+}
+
+/**
+ * Posts a streaming request and calls `onEvent` with each server-sent event's
+ * JSON payload. Errors after the stream has started are not retryable since
+ * text has already been handed to the caller.
+ */
+async function postStream(
+  provider: LLMProviderName,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal: AbortSignal | undefined,
+  onEvent: (data: any) => void
+): Promise<void> {
+  const resp = await post(provider, url, headers, body, signal);
+  if (!resp.body) throw new LLMError(provider, "Empty streaming response");
+
+  const reader = resp.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      for (const line of lines) {
+        const payload = line.startsWith("data:") ? line.slice(5).trim() : "";
+        if (!payload || payload === "[DONE]") continue;
+        const data = JSON.parse(payload);
+        if (data.error) throw new Error(data.error.message || JSON.stringify(data.error));
+        onEvent(data);
+      }
+    }
+  } catch (err: any) {
+    signal?.throwIfAborted();
+    throw new LLMError(provider, `stream interrupted: ${err.message}`);
+  }
+}
+
+function chatCompletionsProvider(
+  name: LLMProviderName,
+  url: string,
+  headers: Record<string, string>,
+  defaultModel: string
+): LLMProvider {
+  return {
+    name,
+    async complete(req) {
+      const model = req.model || defaultModel;
+      const body = {
+        model,
+        messages: [
+          { role: "system", content: req.systemPrompt },
+          { role: "user", content: req.userPrompt },
+        ],
+        max_tokens: req.maxTokens,
+        temperature: req.temperature,
+      };
+
+      if (req.onToken) {
+        const onToken = req.onToken;
+        let text = "";
+        const usage: LLMUsage = { provider: name, model, input_tokens: 0, output_tokens: 0 };
+        await postStream(
+          name,
+          url,
+          headers,
+          { ...body, stream: true, stream_options: { include_usage: true } },
+          req.signal,
+          (data) => {
+            const delta = data.choices?.[0]?.delta?.content;
+            if (delta) {
+              text += delta;
+              onToken(delta);
+            }
+            if (data.model) usage.model = data.model;
+            if (data.usage) {
+              usage.input_tokens = data.usage.prompt_tokens || 0;
+              usage.output_tokens = data.usage.completion_tokens || 0;
+            }
+          }
+        );
+        return { text, usage };
+      }
+
+      const data = await postJSON(name, url, headers, body, req.signal);
+      return {
+        text: data.choices?.[0]?.message?.content || "",
+        usage: {
+          provider: name,
+          model: data.model || model,
+          input_tokens: data.usage?.prompt_tokens || 0,
+          output_tokens: data.usage?.completion_tokens || 0,
+        },
+      };
+    },
+  };
+}
+
+function requireEnv(provider: LLMProviderName, name: string): string {
+  const value = process.env[name];
+  if (!value) throw new LLMError(provider, `${name} not set`);
+  return value;
+}
+
+function createProvider(name: LLMProviderName): LLMProvider {
+  const env = process.env;
+
+  switch (name) {
+    case "openai":
+      return chatCompletionsProvider(
+        "openai",
+        `${(env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/$/, "")}/chat/completions`,
+        { Authorization: `Bearer ${requireEnv("openai", "OPENAI_API_KEY")}` },
+        env.OPENAI_MODEL || "gpt-4o-mini"
+      );
+
+    case "azure": {
+      // Azure routes by deployment; the model field is ignored by the service
+      const endpoint = requireEnv("azure", "AZURE_OPENAI_ENDPOINT").replace(/\/$/, "");
+      const deployment = requireEnv("azure", "AZURE_OPENAI_DEPLOYMENT");
+      const apiVersion = env.AZURE_OPENAI_API_VERSION || "2024-10-21";
+      return chatCompletionsProvider(
+        "azure",
+        `${endpoint}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${apiVersion}`,
+        { "api-key": requireEnv("azure", "AZURE_OPENAI_API_KEY") },
+        deployment
+      );
+    }
+
+    case "openai-compatible":
+      return chatCompletionsProvider(
+        "openai-compatible",
+        `${(env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1").replace(/\/$/, "")}/chat/completions`,
+        env.LOCAL_LLM_API_KEY ? { Authorization: `Bearer ${env.LOCAL_LLM_API_KEY}` } : {},
+        env.LOCAL_LLM_MODEL || "llama3.1"
+      );
+
+    case "anthropic": {
+      const apiKey = requireEnv("anthropic", "ANTHROPIC_API_KEY");
+      const url = `${(env.ANTHROPIC_BASE_URL || "https://api.anthropic.com").replace(/\/$/, "")}/v1/messages`;
+      const defaultModel = env.ANTHROPIC_MODEL || "claude-3-5-haiku-latest";
+      return {
+        name: "anthropic",
+        async complete(req) {
+          const model = req.model || defaultModel;
+          const headers = { "x-api-key": apiKey, "anthropic-version": "2023-06-01" };
+          const body = {
+            model,
+            system: req.systemPrompt,
+            messages: [{ role: "user", content: req.userPrompt }],
+            max_tokens: req.maxTokens,
+            temperature: req.temperature,
+          };
+
+          if (req.onToken) {
+            const onToken = req.onToken;
+            let text = "";
+            const usage: LLMUsage = { provider: "anthropic", model, input_tokens: 0, output_tokens: 0 };
+            await postStream("anthropic", url, headers, { ...body, stream: true }, req.signal, (data) => {
+              if (data.type === "message_start") {
+                usage.model = data.message?.model || model;
+                usage.input_tokens = data.message?.usage?.input_tokens || 0;
+              } else if (data.type === "content_block_delta" && data.delta?.type === "text_delta") {
+                text += data.delta.text;
+                onToken(data.delta.text);
+              } else if (data.type === "message_delta") {
+                usage.output_tokens = data.usage?.output_tokens || 0;
+              }
+            });
+            return { text, usage };
+          }
+
+          const data = await postJSON("anthropic", url, headers, body, req.signal);
+          return {
+            text: (data.content || [])
+              .filter((b: any) => b.type === "text")
+              .map((b: any) => b.text)
+              .join(""),
+            usage: {
+              provider: "anthropic",
+              model: data.model || model,
+              input_tokens: data.usage?.input_tokens || 0,
+              output_tokens: data.usage?.output_tokens || 0,
+            },
+          };
+        },
+      };
+    }
+  }
+}
+
+export function resolveProviderName(name?: string): LLMProviderName {
+  const raw = (name || process.env.LLM_PROVIDER || "openai").trim().toLowerCase();
+  const resolved = PROVIDER_ALIASES[raw] || raw;
+  if (!LLM_PROVIDERS.includes(resolved as LLMProviderName)) {
+    throw new Error(`Unknown LLM provider: ${raw}`);
+  }
+  return resolved as LLMProviderName;
+}
+
+/**
+ * Per-tool overrides come from LLM_TOOL_OVERRIDES, a JSON object keyed by tool
+ * name, e.g. {"detect_trends": {"model": "gpt-4o", "temperature": 0.2}}.
+ */
+function toolOverrides(tool?: string): LLMSettings {
+  if (!tool || !process.env.LLM_TOOL_OVERRIDES) return {};
+  try {
+    return JSON.parse(process.env.LLM_TOOL_OVERRIDES)[tool] || {};
+  } catch {
+    throw new Error("LLM_TOOL_OVERRIDES is not valid JSON");
+  }
+}
+
+function envNumber(name: string): number | undefined {
+  const value = parseFloat(process.env[name] || "");
+  return isNaN(value) ? undefined : value;
+}
+
+export interface CompleteOptions {
+  /** Tool name used to look up per-tool overrides */
+  tool?: string;
+  /** Per-API-key settings; take precedence over tool and global config */
+  settings?: LLMSettings;
+  /** Cancels the request (and any pending retries) */
+  signal?: AbortSignal;
+  /** Streams the completion, calling this with each text delta as it arrives */
+  onToken?: (text: string) => void;
+}
+
+/** Waits between retries; rejects as soon as the signal aborts */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs a completion against the configured backend with retries. Precedence
+ * for each setting: API key settings, then tool overrides, then LLM_* env,
+ * then the caller's defaults.
+ */
+export async function complete(
+  systemPrompt: string,
+  userPrompt: string,
+  maxTokens: number,
+  opts: CompleteOptions = {}
+): Promise<LLMResponse> {
+  const tool = toolOverrides(opts.tool);
+  const key = opts.settings || {};
+
+  const provider = createProvider(resolveProviderName(key.provider || tool.provider));
+  const req: LLMRequest = {
+    systemPrompt,
+    userPrompt,
+    model: key.model || tool.model || process.env.LLM_MODEL || undefined,
+    temperature: key.temperature ?? tool.temperature ?? envNumber("LLM_TEMPERATURE") ?? 0.4,
+    maxTokens: key.maxTokens ?? tool.maxTokens ?? maxTokens,
+    signal: opts.signal,
+    onToken: opts.onToken,
+  };
+
+  const maxRetries = envNumber("LLM_MAX_RETRIES") ?? 2;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await provider.complete(req);
+    } catch (err: any) {
+      if (!(err instanceof LLMError) || !err.retryable || attempt >= maxRetries) throw err;
+      const delay = Math.min(err.retryAfterMs ?? 1000 * 2 ** attempt, 30000);
+      await sleep(delay, opts.signal);
+    }
+  }
+}
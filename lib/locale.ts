@@ -0,0 +1,268 @@
+import { z } from "zod";
+
+interface LanguageInfo {
+  /** English name, used in prompts */
+  name: string;
+  /** Search phrases used alongside a tool's English queries; {placeholders} are filled by localQueries */
+  queries: Record<QueryKind, string>;
+}
+
+export type QueryKind = "profile" | "engagement" | "benchmarks" | "trends" | "news" | "hashtags" | "brand" | "influencers";
+
+export const LANGUAGES = {
+  en: {
+    name: "English",
+    queries: {
+      profile: "{brand} {platform} profile",
+      engagement: "{topic} {platform} engagement rate",
+      benchmarks: "{platform} engagement rate benchmarks {region} {year}",
+      trends: "{topic} trends {year}",
+      news: "{topic} latest news",
+      hashtags: "best {topic} hashtags {platform}",
+      brand: "{brand} social media",
+      influencers: "top {topic} influencers {platform}",
+    },
+  },
+  es: {
+    name: "Spanish",
+    queries: {
+      profile: "{brand} perfil {platform}",
+      engagement: "{topic} tasa de interacción {platform}",
+      benchmarks: "tasa de interacción promedio {platform} {region} {year}",
+      trends: "tendencias {topic} {year}",
+      news: "{topic} últimas noticias",
+      hashtags: "mejores hashtags {topic} {platform}",
+      brand: "{brand} redes sociales",
+      influencers: "influencers de {topic} {platform}",
+    },
+  },
+  pt: {
+    name: "Portuguese",
+    queries: {
+      profile: "{brand} perfil {platform}",
+      engagement: "{topic} taxa de engajamento {platform}",
+      benchmarks: "taxa de engajamento média {platform} {region} {year}",
+      trends: "tendências {topic} {year}",
+      news: "{topic} últimas notícias",
+      hashtags: "melhores hashtags {topic} {platform}",
+      brand: "{brand} redes sociais",
+      influencers: "influenciadores de {topic} {platform}",
+    },
+  },
+  de: {
+    name: "German",
+    queries: {
+      profile: "{brand} {platform} Profil",
+      engagement: "{topic} {platform} Engagement-Rate",
+      benchmarks: "durchschnittliche Engagement-Rate {platform} {region} {year}",
+      trends: "{topic} Trends {year}",
+      news: "{topic} aktuelle Nachrichten",
+      hashtags: "beste Hashtags {topic} {platform}",
+      brand: "{brand} soziale Medien",
+      influencers: "{topic} Influencer {platform}",
+    },
+  },
+  fr: {
+    name: "French",
+    queries: {
+      profile: "{brand} profil {platform}",
+      engagement: "{topic} taux d'engagement {platform}",
+      benchmarks: "taux d'engagement moyen {platform} {region} {year}",
+      trends: "tendances {topic} {year}",
+      news: "{topic} dernières actualités",
+      hashtags: "meilleurs hashtags {topic} {platform}",
+      brand: "{brand} réseaux sociaux",
+      influencers: "influenceurs {topic} {platform}",
+    },
+  },
+  it: {
+    name: "Italian",
+    queries: {
+      profile: "{brand} profilo {platform}",
+      engagement: "{topic} tasso di engagement {platform}",
+      benchmarks: "tasso di engagement medio {platform} {region} {year}",
+      trends: "tendenze {topic} {year}",
+      news: "{topic} ultime notizie",
+      hashtags: "migliori hashtag {topic} {platform}",
+      brand: "{brand} social media",
+      influencers: "influencer {topic} {platform}",
+    },
+  },
+  nl: {
+    name: "Dutch",
+    queries: {
+      profile: "{brand} {platform} profiel",
+      engagement: "{topic} {platform} engagement rate",
+      benchmarks: "gemiddelde engagement rate {platform} {region} {year}",
+      trends: "{topic} trends {year}",
+      news: "{topic} laatste nieuws",
+      hashtags: "beste hashtags {topic} {platform}",
+      brand: "{brand} sociale media",
+      influencers: "{topic} influencers {platform}",
+    },
+  },
+  pl: {
+    name: "Polish",
+    queries: {
+      profile: "{brand} profil {platform}",
+      engagement: "{topic} wskaźnik zaangażowania {platform}",
+      benchmarks: "średni wskaźnik zaangażowania {platform} {region} {year}",
+      trends: "trendy {topic} {year}",
+      news: "{topic} najnowsze wiadomości",
+      hashtags: "najlepsze hashtagi {topic} {platform}",
+      brand: "{brand} media społecznościowe",
+      influencers: "influencerzy {topic} {platform}",
+    },
+  },
+  tr: {
+    name: "Turkish",
+    queries: {
+      profile: "{brand} {platform} profili",
+      engagement: "{topic} {platform} etkileşim oranı",
+      benchmarks: "ortalama etkileşim oranı {platform} {region} {year}",
+      trends: "{topic} trendleri {year}",
+      news: "{topic} son haberler",
+      hashtags: "en iyi {topic} hashtagleri {platform}",
+      brand: "{brand} sosyal medya",
+      influencers: "{topic} fenomenleri {platform}",
+    },
+  },
+  ja: {
+    name: "Japanese",
+    queries: {
+      profile: "{brand} {platform} プロフィール",
+      engagement: "{topic} {platform} エンゲージメント率",
+      benchmarks: "{platform} 平均エンゲージメント率 {region} {year}",
+      trends: "{topic} トレンド {year}",
+      news: "{topic} 最新ニュース",
+      hashtags: "{topic} 人気ハッシュタグ {platform}",
+      brand: "{brand} SNS",
+      influencers: "{topic} インフルエンサー {platform}",
+    },
+  },
+} satisfies Record<string, LanguageInfo>;
+
+export type LanguageCode = keyof typeof LANGUAGES;
+
+interface RegionInfo {
+  name: string;
+  /** Name in the region's language, used in localized queries */
+  localName: string;
+  /** Language assumed when a region is given without one */
+  language: LanguageCode;
+  /** DuckDuckGo kl value; its country half is also Google's gl code */
+  ddg: string;
+}
+
+export const REGIONS = {
+  us: { name: "United States", localName: "United States", language: "en", ddg: "us-en" },
+  gb: { name: "United Kingdom", localName: "United Kingdom", language: "en", ddg: "uk-en" },
+  ca: { name: "Canada", localName: "Canada", language: "en", ddg: "ca-en" },
+  au: { name: "Australia", localName: "Australia", language: "en", ddg: "au-en" },
+  in: { name: "India", localName: "India", language: "en", ddg: "in-en" },
+  br: { name: "Brazil", localName: "Brasil", language: "pt", ddg: "br-pt" },
+  pt: { name: "Portugal", localName: "Portugal", language: "pt", ddg: "pt-pt" },
+  mx: { name: "Mexico", localName: "México", language: "es", ddg: "mx-es" },
+  ar: { name: "Argentina", localName: "Argentina", language: "es", ddg: "ar-es" },
+  es: { name: "Spain", localName: "España", language: "es", ddg: "es-es" },
+  de: { name: "Germany", localName: "Deutschland", language: "de", ddg: "de-de" },
+  at: { name: "Austria", localName: "Österreich", language: "de", ddg: "at-de" },
+  ch: { name: "Switzerland", localName: "Schweiz", language: "de", ddg: "ch-de" },
+  fr: { name: "France", localName: "France", language: "fr", ddg: "fr-fr" },
+  be: { name: "Belgium", localName: "Belgique", language: "fr", ddg: "be-fr" },
+  it: { name: "Italy", localName: "Italia", language: "it", ddg: "it-it" },
+  nl: { name: "Netherlands", localName: "Nederland", language: "nl", ddg: "nl-nl" },
+  pl: { name: "Poland", localName: "Polska", language: "pl", ddg: "pl-pl" },
+  tr: { name: "Turkey", localName: "Türkiye", language: "tr", ddg: "tr-tr" },
+  jp: { name: "Japan", localName: "日本", language: "ja", ddg: "jp-jp" },
+} satisfies Record<string, RegionInfo>;
+
+export type RegionCode = keyof typeof REGIONS;
+
+export const languageSchema = z.enum(Object.keys(LANGUAGES) as [LanguageCode, ...LanguageCode[]]);
+export const regionSchema = z.enum(Object.keys(REGIONS) as [RegionCode, ...RegionCode[]]);
+
+/** Input fields every analysis tool accepts */
+export const localeInputSchema = {
+  language: languageSchema.optional().describe("Language for search queries and the report (default: the region's language, else English)"),
+  region: regionSchema.optional().describe("Country to focus searches and benchmarks on (ISO 3166 code, e.g. br, de)"),
+};
+
+export interface LocaleInput {
+  language?: string;
+  region?: string;
+}
+
+export interface Locale {
+  language: LanguageCode;
+  region: RegionCode | null;
+}
+
+export function resolveLocale(input: LocaleInput): Locale {
+  const region = input.region ? (input.region.toLowerCase() as RegionCode) : null;
+  if (region && !REGIONS[region]) throw new Error(`Unknown region: ${input.region}`);
+  const language = (input.language?.toLowerCase() || (region ? REGIONS[region].language : "en")) as LanguageCode;
+  if (!LANGUAGES[language]) throw new Error(`Unknown language: ${input.language}`);
+  return { language, region };
+}
+
+export function isDefaultLocale(locale: Locale): boolean {
+  return locale.language === "en" && !locale.region;
+}
+
+/** BCP 47 tag, e.g. "pt-BR", or just the language without a region */
+export function localeTag(locale: Locale): string {
+  return locale.region ? `${locale.language}-${locale.region.toUpperCase()}` : locale.language;
+}
+
+/** DuckDuckGo kl value; only set for a region, since DDG has no language-only setting */
+export function ddgRegion(locale: Locale): string | null {
+  return locale.region ? REGIONS[locale.region].ddg : null;
+}
+
+/** Google country code (gl), which is not always the ISO code (uk for gb) */
+export function googleCountry(locale: Locale): string | null {
+  return locale.region ? REGIONS[locale.region].ddg.split("-")[0] : null;
+}
+
+/**
+ * Localized search queries of the given kinds. Returns nothing for English
+ * without a region, where the tool's own queries already cover it.
+ */
+export function localQueries(locale: Locale, kinds: QueryKind[], vars: Record<string, string | number>): string[] {
+  if (isDefaultLocale(locale)) return [];
+  const values: Record<string, string | number> = { region: locale.region ? REGIONS[locale.region].localName : "", ...vars };
+  return kinds.map((kind) =>
+    LANGUAGES[locale.language].queries[kind]
+      .replace(/\{(\w+)\}/g, (_, name) => String(values[name] ?? ""))
+      .replace(/\s+/g, " ")
+      .trim()
+  );
+}
+
+/**
+ * Benchmark searches: the region's own benchmarks in its language first,
+ * then the global English query every tool has always used.
+ */
+export function benchmarkQueries(locale: Locale, platform: string | undefined, year: number): string[] {
+  const global = `${platform || "social media"} engagement rate benchmarks ${year} by industry`;
+  if (!locale.region) return [global];
+  return [...localQueries(locale, ["benchmarks"], { platform: platform || "", year }), global];
+}
+
+/** Prompt paragraph asking for the report in the requested language and market */
+export function localePromptContext(locale: Locale): string {
+  if (isDefaultLocale(locale)) return "";
+  const lines: string[] = [];
+  if (locale.language !== "en") {
+    lines.push(
+      `Write the entire report in ${LANGUAGES[locale.language].name}, including headings. Keep hashtags, handles, URLs, brand names and citation markers unchanged.`
+    );
+  }
+  if (locale.region) {
+    lines.push(
+      `Focus on the market in ${REGIONS[locale.region].name}: prefer local sources, benchmarks and examples, and say when a figure is global rather than local.`
+    );
+  }
+  return lines.join("\n");
+}
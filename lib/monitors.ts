@@ -0,0 +1,326 @@
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { join } from "path";
+import { randomBytes } from "crypto";
+import { runAnalysis } from "./analysis";
+import { getKeyLLMSettings, recordUsage, validateApiKey } from "./auth";
+import { sendEmail } from "./email";
+import { getReport } from "./history";
+import { log } from "./logger";
+import { deliverWebhook, validateWebhookUrl } from "./webhooks";
+import type { WebhookDelivery } from "./webhooks";
+import type { TrendData } from "../tools/trend-detection";
+import type { ProfileData } from "../tools/profile-analysis";
+
+const DATA_DIR = join(import.meta.dir || process.cwd(), "..", "data");
+const MONITORS_FILE = join(DATA_DIR, "monitors.json");
+
+const MONITOR_TICK_MS = parseInt(process.env.MONITOR_TICK_MS || "60000");
+const MAX_MONITORS_PER_KEY = 20;
+
+export const MONITOR_TOOLS = ["detect_trends", "analyze_profile"] as const;
+export type MonitorTool = (typeof MONITOR_TOOLS)[number];
+
+export const MONITOR_INTERVALS = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+} as const;
+export type MonitorInterval = keyof typeof MONITOR_INTERVALS;
+
+interface ValueChange<T> {
+  name: string;
+  before: T;
+  after: T;
+}
+
+interface ListChange {
+  added: string[];
+  removed: string[];
+}
+
+/** What changed between two consecutive runs of a monitor */
+export interface MonitorDelta {
+  /** Human-readable summary of every change */
+  changes: string[];
+  new_trends?: string[];
+  dropped_trends?: string[];
+  momentum_changes?: ValueChange<string | null>[];
+  relevance_changes?: ValueChange<number>[];
+  completeness_score?: { before: number; after: number };
+  platforms?: ListChange;
+  content_themes?: ListChange;
+}
+
+export interface Monitor {
+  id: string;
+  owner: string; // API key that created the monitor
+  tool: MonitorTool;
+  input: Record<string, unknown>;
+  interval: MonitorInterval;
+  webhook_url?: string;
+  email?: string;
+  created: string;
+  next_run_at: string;
+  last_run_at?: string;
+  runs: number;
+  /** History id of the latest report */
+  last_report_id?: string;
+  last_delta?: MonitorDelta;
+  last_error?: string;
+  last_webhook?: WebhookDelivery;
+}
+
+interface MonitorStore {
+  monitors: Record<string, Monitor>;
+}
+
+async function loadMonitors(): Promise<MonitorStore> {
+  try {
+    const data = await readFile(MONITORS_FILE, "utf-8");
+    return JSON.parse(data);
+  } catch {
+    return { monitors: {} };
+  }
+}
+
+async function saveMonitors(store: MonitorStore): Promise<void> {
+  await mkdir(DATA_DIR, { recursive: true });
+  await writeFile(MONITORS_FILE, JSON.stringify(store, null, 2));
+}
+
+// API calls and the scheduler update monitors concurrently, so every
+// read-modify-write is serialized
+let storeLock: Promise<unknown> = Promise.resolve();
+
+function updateMonitors<T>(fn: (store: MonitorStore) => T): Promise<T> {
+  const next = storeLock.then(async () => {
+    const store = await loadMonitors();
+    const result = fn(store);
+    await saveMonitors(store);
+    return result;
+  });
+  storeLock = next.catch(() => {});
+  return next;
+}
+
+export interface CreateMonitorOptions {
+  tool: MonitorTool;
+  input: Record<string, unknown>;
+  interval: MonitorInterval;
+  webhook_url?: string;
+  email?: string;
+}
+
+/** Registers a monitor; its first run happens on the next scheduler tick and sets the baseline */
+export async function createMonitor(owner: string, opts: CreateMonitorOptions): Promise<Monitor> {
+  if (opts.webhook_url) await validateWebhookUrl(opts.webhook_url);
+  if (opts.email && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(opts.email)) {
+    throw new Error(`Invalid email: ${opts.email}`);
+  }
+
+  // Monitors always request structured data so runs can be diffed
+  const { output_format, force_refresh, ...input } = opts.input;
+  const now = new Date().toISOString();
+  const monitor: Monitor = {
+    id: `mon_${randomBytes(12).toString("hex")}`,
+    owner,
+    tool: opts.tool,
+    input,
+    interval: opts.interval,
+    ...(opts.webhook_url ? { webhook_url: opts.webhook_url } : {}),
+    ...(opts.email ? { email: opts.email } : {}),
+    created: now,
+    next_run_at: now,
+    runs: 0,
+  };
+
+  await updateMonitors((store) => {
+    const count = Object.values(store.monitors).filter((m) => m.owner === owner).length;
+    if (count >= MAX_MONITORS_PER_KEY) {
+      throw new Error(`Monitor limit reached (${MAX_MONITORS_PER_KEY} per API key). Delete one first.`);
+    }
+    store.monitors[monitor.id] = monitor;
+  });
+  await log("info", "Monitor created", { id: monitor.id, tool: monitor.tool, interval: monitor.interval });
+  return monitor;
+}
+
+export async function listMonitors(owner: string): Promise<Monitor[]> {
+  const store = await loadMonitors();
+  return Object.values(store.monitors)
+    .filter((m) => m.owner === owner)
+    .sort((a, b) => b.created.localeCompare(a.created));
+}
+
+export async function getMonitor(owner: string, id: string): Promise<Monitor | null> {
+  if (!/^mon_[a-f0-9]{24}$/.test(id)) return null;
+  const monitor = (await loadMonitors()).monitors[id];
+  return monitor && monitor.owner === owner ? monitor : null;
+}
+
+export async function deleteMonitor(owner: string, id: string): Promise<boolean> {
+  if (!/^mon_[a-f0-9]{24}$/.test(id)) return false;
+  return updateMonitors((store) => {
+    const monitor = store.monitors[id];
+    if (!monitor || monitor.owner !== owner) return false;
+    delete store.monitors[id];
+    return true;
+  });
+}
+
+/** Monitor as returned to callers (without the owning key) */
+export function publicMonitor({ owner, ...monitor }: Monitor): Omit<Monitor, "owner"> {
+  return monitor;
+}
+
+function monitorLabel(m: Monitor): string {
+  const target = m.tool === "detect_trends" ? `"${m.input.niche}"` : `@${String(m.input.username).replace(/^@/, "")}`;
+  return `${m.tool} ${target}${m.input.platform ? ` on ${m.input.platform}` : ""}`;
+}
+
+function listChange(before: string[], after: string[]): ListChange {
+  const b = new Set(before.map((s) => s.toLowerCase()));
+  const a = new Set(after.map((s) => s.toLowerCase()));
+  return {
+    added: after.filter((x) => !b.has(x.toLowerCase())),
+    removed: before.filter((x) => !a.has(x.toLowerCase())),
+  };
+}
+
+function trendDelta(before: TrendData, after: TrendData): MonitorDelta {
+  const prev = new Map(before.trends.map((t) => [t.name.toLowerCase(), t]));
+  const names = listChange(
+    before.trends.map((t) => t.name),
+    after.trends.map((t) => t.name)
+  );
+
+  const momentum: ValueChange<string | null>[] = [];
+  const relevance: ValueChange<number>[] = [];
+  for (const t of after.trends) {
+    const p = prev.get(t.name.toLowerCase());
+    if (!p) continue;
+    if (p.momentum !== t.momentum) momentum.push({ name: t.name, before: p.momentum, after: t.momentum });
+    if (p.relevance !== t.relevance) relevance.push({ name: t.name, before: p.relevance, after: t.relevance });
+  }
+
+  return {
+    changes: [
+      ...names.added.map((n) => `New trend: ${n}`),
+      ...names.removed.map((n) => `Dropped trend: ${n}`),
+      ...momentum.map((c) => `${c.name}: momentum ${c.before} → ${c.after}`),
+      ...relevance.map((c) => `${c.name}: relevance ${c.before} → ${c.after}`),
+      ...(before.overall_sentiment !== after.overall_sentiment
+        ? [`Overall sentiment ${before.overall_sentiment} → ${after.overall_sentiment}`]
+        : []),
+    ],
+    new_trends: names.added,
+    dropped_trends: names.removed,
+    momentum_changes: momentum,
+    relevance_changes: relevance,
+  };
+}
+
+function profileDelta(before: ProfileData, after: ProfileData): MonitorDelta {
+  const platforms = listChange(before.platforms_present, after.platforms_present);
+  const themes = listChange(before.content_themes, after.content_themes);
+  const score = { before: before.profile_completeness_score, after: after.profile_completeness_score };
+
+  return {
+    changes: [
+      ...(score.before !== score.after ? [`Profile completeness score ${score.before} → ${score.after}`] : []),
+      ...platforms.added.map((p) => `New platform: ${p}`),
+      ...platforms.removed.map((p) => `No longer found on: ${p}`),
+      ...themes.added.map((t) => `New content theme: ${t}`),
+      ...themes.removed.map((t) => `Dropped content theme: ${t}`),
+    ],
+    completeness_score: score,
+    platforms,
+    content_themes: themes,
+  };
+}
+
+async function runMonitor(monitor: Monitor): Promise<void> {
+  const now = Date.now();
+  const patch: Partial<Monitor> = {
+    last_run_at: new Date(now).toISOString(),
+    next_run_at: new Date(now + MONITOR_INTERVALS[monitor.interval]).toISOString(),
+  };
+
+  try {
+    // Scheduled runs count against the owner's monthly limit like direct calls
+    const check = await validateApiKey(monitor.owner);
+    if (!check.valid) throw new Error(check.error);
+    await recordUsage(monitor.owner);
+
+    const previous = monitor.last_report_id ? await getReport(monitor.owner, monitor.last_report_id) : null;
+    const { report, reportId } = await runAnalysis(
+      monitor.tool,
+      { ...monitor.input, output_format: "both", force_refresh: true },
+      { apiKey: monitor.owner, llm: await getKeyLLMSettings(monitor.owner) }
+    );
+
+    let delta: MonitorDelta | undefined;
+    if (previous?.data && report.data) {
+      delta =
+        monitor.tool === "detect_trends"
+          ? trendDelta(previous.data as TrendData, report.data as TrendData)
+          : profileDelta(previous.data as ProfileData, report.data as ProfileData);
+    }
+
+    Object.assign(patch, { runs: monitor.runs + 1, last_report_id: reportId, last_delta: delta, last_error: undefined });
+    await log("info", "Monitor ran", { id: monitor.id, report_id: reportId, changes: delta?.changes.length ?? null });
+
+    if (delta && delta.changes.length > 0) {
+      const label = monitorLabel(monitor);
+      if (monitor.webhook_url) {
+        patch.last_webhook = await deliverWebhook(monitor.webhook_url, monitor.owner, monitor.id, {
+          event: "monitor.delta",
+          monitor: publicMonitor({ ...monitor, ...patch }),
+          report_id: reportId,
+          delta,
+        });
+      }
+      if (monitor.email) {
+        await sendEmail(
+          monitor.email,
+          `${label}: ${delta.changes.length} change(s)`,
+          `${delta.changes.map((c) => `- ${c}`).join("\n")}\n\nFull report: ${reportId}`
+        );
+      }
+    }
+  } catch (err: any) {
+    patch.last_error = err.message;
+    await log("error", `Monitor run failed: ${err.message}`, { id: monitor.id });
+  }
+
+  // The monitor may have been deleted while it ran
+  await updateMonitors((store) => {
+    if (store.monitors[monitor.id]) Object.assign(store.monitors[monitor.id], patch);
+  });
+}
+
+let schedulerTimer: ReturnType<typeof setInterval> | null = null;
+let ticking = false;
+
+/** Runs due monitors one at a time, oldest due first */
+async function tick(): Promise<void> {
+  if (ticking) return;
+  ticking = true;
+  try {
+    const now = new Date().toISOString();
+    const due = Object.values((await loadMonitors()).monitors)
+      .filter((m) => m.next_run_at <= now)
+      .sort((a, b) => a.next_run_at.localeCompare(b.next_run_at));
+    for (const monitor of due) await runMonitor(monitor);
+  } catch (err: any) {
+    await log("error", `Monitor scheduler failed: ${err.message}`);
+  } finally {
+    ticking = false;
+  }
+}
+
+/** Starts the in-process scheduler. Call once at startup. */
+export function startMonitorScheduler(): void {
+  if (schedulerTimer) return;
+  schedulerTimer = setInterval(() => void tick(), MONITOR_TICK_MS);
+  void tick();
+}
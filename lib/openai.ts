@@ -1,54 +1,90 @@
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY || "";
+import type { ZodType } from "zod";
+import { complete } from "./llm";
+import type { CompleteOptions, LLMUsage } from "./llm";
+import { log } from "./logger";
 
+export interface AnalyzeOptions extends CompleteOptions {
+  /** Called with token usage after each completion */
+  onUsage?: (usage: LLMUsage) => void;
+}
+
+/** Runs a completion; pass `onToken` to receive the text as it streams in */
 export async function analyze(
   systemPrompt: string,
   userPrompt: string,
-  maxTokens = 2000
+  maxTokens = 2000,
+  opts: AnalyzeOptions = {}
 ): Promise<string> {
-  if (!OPENAI_API_KEY) throw new Error("OPENAI_API_KEY not set");
-
-  const resp = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: "gpt-4o-mini",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      max_tokens: maxTokens,
-      temperature: 0.4,
-    }),
-  });
-
-  if (!resp.ok) {
-    const err = await resp.text();
-    throw new Error(`OpenAI API error ${resp.status}: ${err}`);
-  }
-
-  const data = await resp.json();
-  return data.choices?.[0]?.message?.content || "";
+  const { text, usage } = await complete(systemPrompt, userPrompt, maxTokens, opts);
+  await log("info", "LLM completion", { tool: opts.tool, ...usage });
+  opts.onUsage?.(usage);
+  return text;
 }
 
+const JSON_REPAIR_ATTEMPTS = 1;
+
 export async function analyzeJSON<T = any>(
   systemPrompt: string,
   userPrompt: string,
-  maxTokens = 2000
+  schema?: ZodType<T, any, any>,
+  maxTokens = 2000,
+  opts: AnalyzeOptions = {}
 ): Promise<T> {
-  const result = await analyze(
-    systemPrompt + "\n\nRespond ONLY with valid JSON. No markdown, no code blocks.",
-    userPrompt,
-    maxTokens
-  );
+  const jsonSystemPrompt =
+    systemPrompt + "\n\nRespond ONLY with valid JSON. No markdown, no code blocks.";
+  let result = await analyze(jsonSystemPrompt, userPrompt, maxTokens, opts);
+
+  for (let attempt = 0; ; attempt++) {
+    const parsed = parseJSON(result, schema);
+    if (parsed.ok) return parsed.value;
+    if (attempt >= JSON_REPAIR_ATTEMPTS) {
+      throw new Error(`Model returned invalid JSON: ${parsed.error}`);
+    }
+
+    // Ask the model to fix its own output rather than failing the whole tool call
+    result = await analyze(
+      jsonSystemPrompt,
+      `${userPrompt}
+
+Your previous response could not be used:
+${parsed.error}
 
+Previous response:
+${result.slice(0, 6000)}
+
+Return the corrected JSON only.`,
+      maxTokens,
+      opts
+    );
+  }
+}
+
+function parseJSON<T>(
+  raw: string,
+  schema?: ZodType<T, any, any>
+): { ok: true; value: T } | { ok: false; error: string } {
   // Strip markdown code blocks if present
-  const cleaned = result
+  const cleaned = raw
     .replace(/^```json?\n?/gm, "")
     .replace(/^```\n?/gm, "")
     .trim();
 
-  return JSON.parse(cleaned);
+  let value: unknown;
+  try {
+    value = JSON.parse(cleaned);
+  } catch (err: any) {
+    return { ok: false, error: `JSON parse error: ${err.message}` };
+  }
+
+  if (!schema) return { ok: true, value: value as T };
+
+  const check = schema.safeParse(value);
+  if (!check.success) {
+    const issues = check.error.issues
+      .slice(0, 10)
+      .map((i) => `- ${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("\n");
+    return { ok: false, error: `Schema validation failed:\n${issues}` };
+  }
+  return { ok: true, value: check.data };
 }
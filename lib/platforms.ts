@@ -0,0 +1,276 @@
+import { z } from "zod";
+
+export const PLATFORM_IDS = [
+  "twitter",
+  "instagram",
+  "linkedin",
+  "facebook",
+  "tiktok",
+  "youtube",
+  "threads",
+  "bluesky",
+  "mastodon",
+  "reddit",
+  "pinterest",
+] as const;
+
+export type PlatformId = (typeof PLATFORM_IDS)[number];
+
+export interface PlatformInfo {
+  id: PlatformId;
+  label: string;
+  /** Primary domain first; the rest are aliases used when classifying URLs */
+  domains: string[];
+  handleFormat: string;
+  /** Matches the path of a profile (or a post on it) and captures the handle */
+  profilePath: RegExp;
+  hashtags: {
+    supported: boolean;
+    /** Recommended number of hashtags per post */
+    optimalCount: string;
+    conventions: string;
+  };
+  contentFormats: string[];
+  caption: {
+    /** Character limit of a post's text (caption, description or body) */
+    maxLength: number;
+    /** Characters shown in the feed before the text is cut off */
+    previewLength: number;
+  };
+}
+
+export const PLATFORMS: Record<PlatformId, PlatformInfo> = {
+  twitter: {
+    id: "twitter",
+    label: "X (Twitter)",
+    domains: ["x.com", "twitter.com"],
+    handleFormat: "@username (up to 15 letters, digits or underscores)",
+    profilePath: /^\/([A-Za-z0-9_]{1,15})(?:\/status\/\d+)?\/?$/,
+    hashtags: {
+      supported: true,
+      optimalCount: "1-2",
+      conventions: "Use one or two hashtags inside the post text; more reduces engagement.",
+    },
+    contentFormats: ["text post", "thread", "image", "short video", "poll", "Spaces"],
+    caption: { maxLength: 280, previewLength: 280 },
+  },
+  instagram: {
+    id: "instagram",
+    label: "Instagram",
+    domains: ["instagram.com"],
+    handleFormat: "@username (letters, digits, periods, underscores)",
+    profilePath: /^\/([A-Za-z0-9._]{1,30})\/?$/,
+    hashtags: {
+      supported: true,
+      optimalCount: "3-5",
+      conventions: "Place a small set of relevant hashtags in the caption; Instagram caps posts at 30 and favors specific over generic tags.",
+    },
+    contentFormats: ["Reel", "carousel", "single image", "Story", "Live"],
+    caption: { maxLength: 2_200, previewLength: 125 },
+  },
+  linkedin: {
+    id: "linkedin",
+    label: "LinkedIn",
+    domains: ["linkedin.com"],
+    handleFormat: "company or profile vanity name (linkedin.com/company/<name> or /in/<name>)",
+    profilePath: /^\/in\/([A-Za-z0-9-]{3,100})\/?$/,
+    hashtags: {
+      supported: true,
+      optimalCount: "3-5",
+      conventions: "Add a few professional, industry-level hashtags at the end of the post.",
+    },
+    contentFormats: ["text post", "document carousel", "article", "image", "native video", "newsletter", "poll"],
+    caption: { maxLength: 3_000, previewLength: 210 },
+  },
+  facebook: {
+    id: "facebook",
+    label: "Facebook",
+    domains: ["facebook.com", "fb.com"],
+    handleFormat: "page username (facebook.com/<name>)",
+    profilePath: /^\/([A-Za-z0-9.]{5,50})\/?$/,
+    hashtags: {
+      supported: true,
+      optimalCount: "1-3",
+      conventions: "Hashtags have limited reach impact; use one to three branded or campaign tags.",
+    },
+    contentFormats: ["Reel", "image", "video", "link post", "Story", "Live", "event"],
+    caption: { maxLength: 63_206, previewLength: 125 },
+  },
+  tiktok: {
+    id: "tiktok",
+    label: "TikTok",
+    domains: ["tiktok.com"],
+    handleFormat: "@username (letters, digits, periods, underscores)",
+    profilePath: /^\/@([A-Za-z0-9._]{2,24})(?:\/video\/\d+)?\/?$/,
+    hashtags: {
+      supported: true,
+      optimalCount: "3-5",
+      conventions: "Mix one or two broad tags with niche tags in the caption; hashtags double as search keywords.",
+    },
+    contentFormats: ["short video", "photo carousel", "Live", "Story"],
+    caption: { maxLength: 4_000, previewLength: 100 },
+  },
+  youtube: {
+    id: "youtube",
+    label: "YouTube",
+    domains: ["youtube.com", "youtu.be"],
+    handleFormat: "@handle (youtube.com/@handle)",
+    profilePath: /^\/@([A-Za-z0-9._-]{3,30})(?:\/[a-z]+)?\/?$/,
+    hashtags: {
+      supported: true,
+      optimalCount: "2-3",
+      conventions: "The first three hashtags in the description appear above the title; YouTube ignores all hashtags when a video has more than 15.",
+    },
+    contentFormats: ["long-form video", "Short", "Live", "community post", "podcast"],
+    caption: { maxLength: 5_000, previewLength: 100 },
+  },
+  threads: {
+    id: "threads",
+    label: "Threads",
+    domains: ["threads.net", "threads.com"],
+    handleFormat: "@username (shared with Instagram)",
+    profilePath: /^\/@([A-Za-z0-9._]{1,30})(?:\/post\/[\w-]+)?\/?$/,
+    hashtags: {
+      supported: true,
+      optimalCount: "1",
+      conventions: "Threads allows a single topic tag per post, which can contain spaces.",
+    },
+    contentFormats: ["text post", "thread", "image", "short video", "poll"],
+    caption: { maxLength: 500, previewLength: 500 },
+  },
+  bluesky: {
+    id: "bluesky",
+    label: "Bluesky",
+    domains: ["bsky.app"],
+    handleFormat: "domain handle (e.g. name.bsky.social or a custom domain)",
+    profilePath: /^\/profile\/([A-Za-z0-9.-]+)(?:\/post\/\w+)?\/?$/,
+    hashtags: {
+      supported: true,
+      optimalCount: "1-3",
+      conventions: "Hashtags are clickable and searchable; custom feeds often key on them, so use community-established tags.",
+    },
+    contentFormats: ["text post", "thread", "image", "short video"],
+    caption: { maxLength: 300, previewLength: 300 },
+  },
+  mastodon: {
+    id: "mastodon",
+    label: "Mastodon",
+    domains: ["mastodon.social", "mastodon.online", "mstdn.social", "fosstodon.org", "hachyderm.io", "infosec.exchange"],
+    handleFormat: "@username@instance (e.g. @user@mastodon.social)",
+    profilePath: /^\/@([A-Za-z0-9_]{1,30})(?:\/\d+)?\/?$/,
+    hashtags: {
+      supported: true,
+      optimalCount: "3-5",
+      conventions: "Hashtags are the main discovery mechanism since there is no algorithmic feed; write them in CamelCase for screen readers.",
+    },
+    contentFormats: ["text post", "thread", "image with alt text", "poll"],
+    caption: { maxLength: 500, previewLength: 500 },
+  },
+  reddit: {
+    id: "reddit",
+    label: "Reddit",
+    domains: ["reddit.com"],
+    handleFormat: "u/username for users, r/name for communities",
+    profilePath: /^\/(?:u|user)\/([A-Za-z0-9_-]{3,20})\/?$/,
+    hashtags: {
+      supported: false,
+      optimalCount: "0",
+      conventions: "Reddit does not use hashtags; discovery is by subreddit, post title keywords and flair.",
+    },
+    contentFormats: ["text post", "link post", "image", "video", "AMA", "comment"],
+    caption: { maxLength: 40_000, previewLength: 300 },
+  },
+  pinterest: {
+    id: "pinterest",
+    label: "Pinterest",
+    domains: ["pinterest.com", "pin.it"],
+    handleFormat: "username (pinterest.com/<username>)",
+    profilePath: /^\/([A-Za-z0-9_]{3,30})\/?$/,
+    hashtags: {
+      supported: false,
+      optimalCount: "0",
+      conventions: "Pinterest no longer surfaces hashtags; put keywords in pin titles, descriptions and board names.",
+    },
+    contentFormats: ["standard pin", "idea pin", "video pin", "board"],
+    caption: { maxLength: 500, previewLength: 50 },
+  },
+};
+
+export const HASHTAG_PLATFORM_IDS = PLATFORM_IDS.filter((id) => PLATFORMS[id].hashtags.supported) as [
+  PlatformId,
+  ...PlatformId[],
+];
+
+export const platformSchema = z.enum(PLATFORM_IDS);
+export const hashtagPlatformSchema = z.enum(HASHTAG_PLATFORM_IDS);
+
+export function getPlatform(platform: string): PlatformInfo | null {
+  return PLATFORMS[platform.toLowerCase() as PlatformId] || null;
+}
+
+/** Platform a URL belongs to, or null for non-social sites */
+export function platformOf(url: string): PlatformId | null {
+  let host: string;
+  try {
+    host = new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+  for (const p of Object.values(PLATFORMS)) {
+    if (p.domains.some((d) => host === d || host.endsWith(`.${d}`))) return p.id;
+  }
+  return null;
+}
+
+// Site sections whose URLs look like profile paths on platforms with bare /<handle> URLs
+const RESERVED_PATHS = new Set([
+  "about", "accounts", "business", "developer", "direct", "events", "explore", "gaming", "groups", "hashtag",
+  "help", "home", "i", "ideas", "intent", "legal", "login", "marketplace", "p", "pages", "pin", "policies",
+  "privacy", "reel", "reels", "search", "settings", "share", "sharer", "signup", "stories", "today", "tos", "watch",
+]);
+
+/**
+ * Platform and handle of a profile URL (or a post URL that names its author),
+ * or null for any other page. Mastodon handles include their instance.
+ */
+export function profileHandle(url: string): { platform: PlatformId; handle: string } | null {
+  const platform = platformOf(url);
+  if (!platform) return null;
+  const { hostname, pathname } = new URL(url);
+  const m = pathname.match(PLATFORMS[platform].profilePath);
+  if (!m || RESERVED_PATHS.has(m[1].toLowerCase())) return null;
+  const handle = platform === "mastodon" ? `${m[1]}@${hostname.replace(/^www\./, "")}` : m[1];
+  return { platform, handle };
+}
+
+export interface ParsedHandle {
+  handle: string;
+  /** Mastodon instance the account lives on */
+  instance?: string;
+}
+
+export function parseHandle(platform: string | undefined, raw: string): ParsedHandle {
+  const value = raw.trim();
+  if (platform === "mastodon") {
+    const m = value.match(/^@?([^@\s]+)@([^@\s]+)$/);
+    if (m) return { handle: m[1], instance: m[2].toLowerCase() };
+  }
+  if (platform === "reddit") return { handle: value.replace(/^\/?(u|user)\//i, "").replace(/^@/, "") };
+  return { handle: value.replace(/^@/, "") };
+}
+
+/** Domain to scope profile searches to (a Mastodon handle's own instance when known) */
+export function platformDomain(platform: string, handle?: string): string {
+  if (platform === "mastodon" && handle) {
+    const { instance } = parseHandle(platform, handle);
+    if (instance) return instance;
+  }
+  return getPlatform(platform)?.domains[0] || platform;
+}
+
+/** One-paragraph platform briefing for prompts */
+export function platformPromptContext(platform?: string): string {
+  const p = platform ? getPlatform(platform) : null;
+  if (!p) return "";
+  return `Platform notes (${p.label}): handles are ${p.handleFormat}. Content formats: ${p.contentFormats.join(", ")}. Hashtags: ${p.hashtags.conventions}${p.hashtags.supported ? ` Optimal count: ${p.hashtags.optimalCount}.` : ""} Captions: up to ${p.caption.maxLength.toLocaleString("en-US")} characters, ${p.caption.previewLength < p.caption.maxLength ? `about ${p.caption.previewLength} shown before "more"` : "shown in full"}.`;
+}
@@ -0,0 +1,192 @@
+import { z } from "zod";
+import type { ZodType } from "zod";
+import { analyze, analyzeJSON } from "./openai";
+import type { AnalyzeOptions } from "./openai";
+import type { LLMSettings, LLMUsage } from "./llm";
+import { attachCitations, CITATION_INSTRUCTIONS } from "./sources";
+import type { Source, SourceTracker } from "./sources";
+import { LANGUAGES, localePromptContext } from "./locale";
+import type { Locale } from "./locale";
+
+export const OUTPUT_FORMATS = ["markdown", "json", "both"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export const outputFormatSchema = z
+  .enum(OUTPUT_FORMATS)
+  .optional()
+  .describe("Response format: markdown report, structured JSON, or both (default: markdown)");
+
+/** Per-call state passed from the MCP handler down into a tool pipeline */
+export interface ToolContext {
+  /** Caller's API key; tools persist per-key state (snapshots, history) only when set */
+  apiKey?: string;
+  /** LLM settings attached to the caller's API key */
+  llm?: LLMSettings;
+  /** Bypass cached search results and pages */
+  forceRefresh?: boolean;
+  /** Request's abort signal; cancels outstanding searches, page fetches and LLM calls */
+  signal?: AbortSignal;
+  /** Reports a pipeline step to the client (MCP progress notification) */
+  progress?: (message: string) => Promise<void>;
+  /** Receives the markdown report text as the model writes it */
+  onToken?: (text: string) => void;
+}
+
+export interface ReportUsage {
+  provider: string;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export interface ToolReport<T> {
+  format: OutputFormat;
+  markdown?: string;
+  data?: T;
+  usage?: ReportUsage;
+  /** When the report was generated; earlier than the call when served from cache */
+  generated_at?: string;
+  /** Sources passed to the model, numbered as cited in the markdown */
+  sources: Source[];
+  /** Facts the tool's persist step stores after every call; removed before the report reaches callers */
+  snapshot?: unknown;
+}
+
+/** Adds one completion's tokens to a running total (provider and model of the latest call) */
+export function addUsage(total: ReportUsage | undefined, usage: ReportUsage): ReportUsage {
+  return {
+    provider: usage.provider,
+    model: usage.model,
+    input_tokens: (total?.input_tokens || 0) + usage.input_tokens,
+    output_tokens: (total?.output_tokens || 0) + usage.output_tokens,
+  };
+}
+
+/**
+ * Envelope returned as MCP structuredContent. Every field except `format` is
+ * optional so markdown-only calls still satisfy the declared outputSchema.
+ */
+export function reportOutputSchema<T extends z.ZodTypeAny>(data: T) {
+  return {
+    format: z.enum(OUTPUT_FORMATS),
+    report_id: z.string().optional().describe("History id for get_report (set when the call was made with an API key)"),
+    report: z.string().optional().describe("Markdown report (markdown/both formats)"),
+    data: data.optional().describe("Structured result (json/both formats)"),
+    usage: z
+      .object({
+        provider: z.string(),
+        model: z.string(),
+        input_tokens: z.number(),
+        output_tokens: z.number(),
+      })
+      .optional()
+      .describe("LLM token usage summed across all completions for this call"),
+    generated_at: z
+      .string()
+      .optional()
+      .describe("When the report was generated; earlier than the call when served from cache (pass force_refresh to regenerate)"),
+    sources: z
+      .array(
+        z.object({
+          id: z.number(),
+          url: z.string(),
+          title: z.string(),
+          provider: z.string().optional(),
+          retrieved_at: z.string(),
+          fetched_at: z.string().optional(),
+          fetch_error: z.string().optional(),
+          published_at: z.string().optional(),
+          cited: z.boolean().optional(),
+        })
+      )
+      .describe("Evidence trail: every source given to the model, numbered as cited in the report"),
+  };
+}
+
+/** Builds the envelope described by reportOutputSchema */
+export function reportEnvelope(report: ToolReport<unknown>, reportId?: string) {
+  return {
+    format: report.format,
+    report_id: reportId,
+    report: report.markdown,
+    data: report.data,
+    usage: report.usage,
+    generated_at: report.generated_at,
+    sources: report.sources,
+  };
+}
+
+export interface GenerateReportOptions<T> {
+  /** MCP tool name, used for per-tool LLM overrides */
+  tool: string;
+  ctx?: ToolContext;
+  format?: OutputFormat;
+  systemPrompt: string;
+  userPrompt: string;
+  maxTokens: number;
+  /** Sources referenced in userPrompt; numbered citations resolve against it */
+  sources: SourceTracker;
+  /** Instructions describing the JSON shape the model should return */
+  jsonPrompt: string;
+  schema: ZodType<T, any, any>;
+  /** Language and market the report is written for (default: English, global) */
+  locale?: Locale;
+}
+
+/**
+ * Runs the LLM step of a tool pipeline. In "both" mode the JSON is extracted
+ * after the markdown report is written so the two never disagree.
+ */
+export async function generateReport<T>(
+  opts: GenerateReportOptions<T>
+): Promise<ToolReport<T>> {
+  const format = opts.format || "markdown";
+  const result: ToolReport<T> = { format, sources: [] };
+  const localeContext = opts.locale ? localePromptContext(opts.locale) : "";
+  const systemPrompt = localeContext ? `${opts.systemPrompt}\n\n${localeContext}` : opts.systemPrompt;
+  // Field names and enum values stay English so the data validates against the schema
+  const jsonPrompt =
+    opts.locale && opts.locale.language !== "en"
+      ? `${opts.jsonPrompt}\n\nWrite free-text values in ${LANGUAGES[opts.locale.language].name}. Keep field names and fixed enum values in English.`
+      : opts.jsonPrompt;
+  const llmOpts: AnalyzeOptions = {
+    tool: opts.tool,
+    settings: opts.ctx?.llm,
+    signal: opts.ctx?.signal,
+    onUsage: (usage: LLMUsage) => {
+      result.usage = addUsage(result.usage, usage);
+    },
+  };
+
+  if (format !== "json") {
+    await opts.ctx?.progress?.("Analyzing: writing report");
+    result.markdown = await analyze(
+      `${systemPrompt}\n\n${CITATION_INSTRUCTIONS}`,
+      opts.userPrompt,
+      opts.maxTokens,
+      { ...llmOpts, onToken: opts.ctx?.onToken }
+    );
+  }
+
+  if (format !== "markdown") {
+    const jsonUserPrompt = result.markdown
+      ? `${opts.userPrompt}
+
+Report already written from this data (extract values from it, do not contradict it):
+${result.markdown}`
+      : opts.userPrompt;
+
+    await opts.ctx?.progress?.("Analyzing: extracting structured data");
+    result.data = await analyzeJSON(jsonPrompt, jsonUserPrompt, opts.schema, 2000, llmOpts);
+  }
+
+  if (result.markdown) {
+    const cited = attachCitations(result.markdown, opts.sources.list());
+    result.markdown = cited.markdown;
+    result.sources = cited.sources;
+  } else {
+    result.sources = opts.sources.list();
+  }
+
+  return result;
+}
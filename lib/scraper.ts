@@ -1,4 +1,11 @@
 import * as cheerio from "cheerio";
+import { loadSearchProviders } from "./search";
+import type { SearchFilters, SearchOptions, SearchProvider, SearchResult } from "./search";
+import { log } from "./logger";
+import { cached } from "./cache";
+import { isDefaultLocale } from "./locale";
+
+export type { SearchResult } from "./search";
 
 const USER_AGENT =
   "Mozilla/5.0 (compatible; EzBizBot/1.0; +https://social.ezbizservices.com)";
@@ -17,10 +24,30 @@ export interface PageData {
   schemaOrg: any[];
   textContent: string;
   ogTags: Record<string, string>;
+  /** ISO timestamps from JSON-LD, article meta tags, <time> elements or the URL; null when the page does not say */
+  publishedAt: string | null;
+  modifiedAt: string | null;
+  author: string | null;
+  siteName: string | null;
   error?: string;
 }
 
-export async function fetchPage(url: string): Promise<PageData> {
+export interface FetchOptions {
+  /** Skip the cache and fetch fresh data */
+  forceRefresh?: boolean;
+  /** Aborts outstanding requests when the calling tool is cancelled */
+  signal?: AbortSignal;
+}
+
+/** Fetches and parses a page; successful fetches are cached per URL */
+export async function fetchPage(url: string, opts: FetchOptions = {}): Promise<PageData> {
+  return cached("page", url, () => loadPage(url, opts.signal), {
+    forceRefresh: opts.forceRefresh,
+    shouldCache: (page) => !page.error,
+  });
+}
+
+async function loadPage(url: string, signal?: AbortSignal): Promise<PageData> {
   const start = Date.now();
   const result: PageData = {
     url,
@@ -36,13 +63,17 @@ export async function fetchPage(url: string): Promise<PageData> {
     schemaOrg: [],
     textContent: "",
     ogTags: {},
+    publishedAt: null,
+    modifiedAt: null,
+    author: null,
+    siteName: null,
   };
 
   try {
     const resp = await fetch(url, {
       headers: { "User-Agent": USER_AGENT },
       redirect: "follow",
-      signal: AbortSignal.timeout(15000),
+      signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(15000)]) : AbortSignal.timeout(15000),
     });
     result.loadTimeMs = Date.now() - start;
 
@@ -81,6 +112,13 @@ export async function fetchPage(url: string): Promise<PageData> {
       if (name && content) result.metaTags[name] = content.slice(0, 200);
     });
 
+    // Article tags (published/modified time, author, section)
+    $('meta[property^="article:"]').each((_, el) => {
+      const prop = $(el).attr("property") || "";
+      const content = $(el).attr("content") || "";
+      if (prop && content) result.metaTags[prop] = content.slice(0, 200);
+    });
+
     // OG tags
     $('meta[property^="og:"]').each((_, el) => {
       const prop = $(el).attr("property") || "";
@@ -96,6 +134,8 @@ export async function fetchPage(url: string): Promise<PageData> {
       } catch {}
     });
 
+    Object.assign(result, articleMeta($, result));
+
     // Extract visible text (truncated)
     result.textContent = $("body")
       .text()
@@ -103,6 +143,8 @@ export async function fetchPage(url: string): Promise<PageData> {
       .trim()
       .slice(0, 5000);
   } catch (err: any) {
+    // Cancellation ends the pipeline instead of being recorded as a page error
+    signal?.throwIfAborted();
     result.loadTimeMs = Date.now() - start;
     result.error = err.message;
   }
@@ -110,44 +152,160 @@ export async function fetchPage(url: string): Promise<PageData> {
   return result;
 }
 
+// Dates before this or more than a day ahead are parsing noise
+const MIN_PUBLISH_YEAR = 1995;
+
+function isoDate(value: unknown): string | null {
+  if (typeof value !== "string" || !value.trim()) return null;
+  const date = new Date(value.trim());
+  const time = date.getTime();
+  if (isNaN(time) || date.getUTCFullYear() < MIN_PUBLISH_YEAR || time > Date.now() + 24 * 60 * 60 * 1000) return null;
+  return date.toISOString();
+}
+
+function personName(value: unknown): string | null {
+  if (Array.isArray(value)) {
+    const names = value.map(personName).filter(Boolean);
+    return names.length ? names.join(", ") : null;
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return "name" in record ? personName(record.name) : null;
+  }
+  if (typeof value !== "string") return null;
+  const name = value.trim();
+  // article:author is often a profile URL rather than a name
+  return name && !/^https?:\/\//.test(name) ? name.slice(0, 100) : null;
+}
+
+/** JSON-LD nodes flattened out of arrays and @graph containers */
+function schemaNodes(data: any[]): any[] {
+  const nodes: any[] = [];
+  const walk = (node: any) => {
+    if (Array.isArray(node)) node.forEach(walk);
+    else if (node && typeof node === "object") {
+      nodes.push(node);
+      if (node["@graph"]) walk(node["@graph"]);
+    }
+  };
+  walk(data);
+  return nodes;
+}
+
+/** Date in a URL path such as /2024/03/15/ or /2024-03-15-title, or /2024/03/ for the month */
+function urlDate(url: string): string | null {
+  const path = url.replace(/^https?:\/\/[^/]+/, "");
+  const m =
+    path.match(/\/((?:19|20)\d{2})[\/-](0[1-9]|1[0-2])[\/-](0[1-9]|[12]\d|3[01])(?=[\/-]|$)/) ||
+    path.match(/\/((?:19|20)\d{2})\/(0[1-9]|1[0-2])(?=\/)/);
+  return m ? isoDate(`${m[1]}-${m[2]}-${m[3] || "01"}T00:00:00Z`) : null;
+}
+
+/**
+ * Publish/modify dates, author and site name, taken from the most specific
+ * signal available: JSON-LD, then meta tags, then <time> elements, then the URL.
+ */
+function articleMeta(
+  $: cheerio.CheerioAPI,
+  page: PageData
+): Pick<PageData, "publishedAt" | "modifiedAt" | "author" | "siteName"> {
+  const nodes = schemaNodes(page.schemaOrg);
+  const meta = Object.fromEntries(Object.entries(page.metaTags).map(([k, v]) => [k.toLowerCase(), v]));
+  const first = <T>(values: unknown[], parse: (v: unknown) => T | null): T | null => {
+    for (const v of values) {
+      const parsed = parse(v);
+      if (parsed) return parsed;
+    }
+    return null;
+  };
+
+  const publishedAt = first(
+    [
+      ...nodes.map((n) => n.datePublished),
+      meta["article:published_time"],
+      meta["datepublished"],
+      meta["date"],
+      meta["pubdate"],
+      meta["publish-date"],
+      meta["parsely-pub-date"],
+      meta["dc.date.issued"],
+      meta["dc.date"],
+      $('time[itemprop="datePublished"]').attr("datetime"),
+      $("article time[datetime]").first().attr("datetime"),
+      $("time[datetime]").first().attr("datetime"),
+      urlDate(page.url),
+    ],
+    isoDate
+  );
+
+  const modifiedAt = first(
+    [
+      ...nodes.map((n) => n.dateModified),
+      meta["article:modified_time"],
+      page.ogTags["og:updated_time"],
+      meta["last-modified"],
+      $('time[itemprop="dateModified"]').attr("datetime"),
+    ],
+    isoDate
+  );
+
+  const author = first(
+    [...nodes.map((n) => n.author), meta["author"], meta["article:author"], meta["parsely-author"], $('[rel="author"]').first().text()],
+    personName
+  );
+
+  const siteName = first(
+    [page.ogTags["og:site_name"], meta["application-name"], ...nodes.map((n) => n.publisher), ...nodes.filter((n) => n["@type"] === "WebSite").map((n) => n.name)],
+    personName
+  );
+
+  return { publishedAt, modifiedAt, author, siteName };
+}
+
+let searchProviders: SearchProvider[] | null = null;
+
+function getSearchProviders(): SearchProvider[] {
+  if (!searchProviders) searchProviders = loadSearchProviders(USER_AGENT);
+  return searchProviders;
+}
+
+/**
+ * Queries each configured provider in order, falling through to the next one
+ * when a provider errors or comes back empty. Non-empty results are cached.
+ */
 export async function searchWeb(
   query: string,
-  maxResults = 10
-): Promise<{ title: string; url: string; snippet: string }[]> {
-  try {
-    const encoded = encodeURIComponent(query);
-    const resp = await fetch(
-      `https://html.duckduckgo.com/html/?q=${encoded}`,
-      {
-        headers: { "User-Agent": USER_AGENT },
-        signal: AbortSignal.timeout(10000),
-      }
-    );
-    const html = await resp.text();
-    const $ = cheerio.load(html);
-    const results: { title: string; url: string; snippet: string }[] = [];
-
-    $(".result").each((_, el) => {
-      if (results.length >= maxResults) return;
-      const titleEl = $(el).find(".result__title a");
-      const snippetEl = $(el).find(".result__snippet");
-      const href = titleEl.attr("href") || "";
-
-      let url = href;
-      const uddgMatch = href.match(/uddg=([^&]+)/);
-      if (uddgMatch) url = decodeURIComponent(uddgMatch[1]);
-
-      if (url && url.startsWith("http")) {
-        results.push({
-          title: titleEl.text().trim(),
-          url,
-          snippet: snippetEl.text().trim(),
-        });
-      }
-    });
+  maxResults = 10,
+  opts: FetchOptions & SearchFilters = {}
+): Promise<SearchResult[]> {
+  const filters: SearchFilters = {
+    ...(opts.dateRange && { dateRange: opts.dateRange }),
+    // The default locale is left out so it shares cache entries with searches made without one
+    ...(opts.locale && !isDefaultLocale(opts.locale) && { locale: opts.locale }),
+  };
+  return cached("search", { query, maxResults, ...filters }, () => searchAllProviders(query, maxResults, { ...filters, signal: opts.signal }), {
+    forceRefresh: opts.forceRefresh,
+    shouldCache: (results) => results.length > 0,
+  });
+}
 
-    return results;
-  } catch (err: any) {
-    return [];
+async function searchAllProviders(
+  query: string,
+  maxResults: number,
+  opts: SearchOptions
+): Promise<SearchResult[]> {
+  const { signal } = opts;
+  for (const provider of getSearchProviders()) {
+    try {
+      const results = await provider.search(query, maxResults, opts);
+      if (results.length > 0) return results;
+      await log("warn", `Search provider ${provider.name} returned no results`, { query });
+    } catch (err: any) {
+      signal?.throwIfAborted();
+      await log("warn", `Search provider ${provider.name} failed: ${err.message}`, { query });
+    }
   }
+
+  await log("error", "All search providers failed", { query });
+  return [];
 }
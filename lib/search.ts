@@ -0,0 +1,281 @@
+import * as cheerio from "cheerio";
+import type { DateRange } from "./dates";
+import { ddgRegion, googleCountry, isDefaultLocale } from "./locale";
+import type { Locale } from "./locale";
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+  /** Name of the provider that produced this result */
+  provider: string;
+}
+
+/** Result filters a tool can ask for; providers apply the ones they support */
+export interface SearchFilters {
+  /** Only pages published in this range */
+  dateRange?: DateRange;
+  /** Language and country to search in */
+  locale?: Locale;
+}
+
+export interface SearchOptions extends SearchFilters {
+  /** Cancels the request when the calling tool is aborted */
+  signal?: AbortSignal;
+}
+
+export interface SearchProvider {
+  name: string;
+  search(query: string, maxResults: number, opts?: SearchOptions): Promise<SearchResult[]>;
+}
+
+export interface ProviderOptions {
+  userAgent: string;
+  /** Override the endpoint, e.g. to point at a local fixture server */
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+const SEARCH_TIMEOUT_MS = 10000;
+
+function requestSignal(signal?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(SEARCH_TIMEOUT_MS);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+async function getJSON(url: string, headers: Record<string, string>, signal?: AbortSignal): Promise<any> {
+  const resp = await fetch(url, {
+    headers: { Accept: "application/json", ...headers },
+    signal: requestSignal(signal),
+  });
+  if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+  return resp.json();
+}
+
+/** Query-string fragment for a locale, or "" for the default (English, no region) */
+function localeParams(locale: Locale | undefined, params: (locale: Locale) => Record<string, string | null>): string {
+  if (!locale || isDefaultLocale(locale)) return "";
+  return Object.entries(params(locale))
+    .filter(([, v]) => v)
+    .map(([k, v]) => `&${k}=${encodeURIComponent(v!)}`)
+    .join("");
+}
+
+/** Both ends of a date range, or null when it is open on either side */
+function closedRange(range?: DateRange): { since: string; until: string } | null {
+  return range?.since && range.until ? { since: range.since, until: range.until } : null;
+}
+
+function toResults(
+  provider: string,
+  items: any[] | undefined,
+  pick: (item: any) => { title?: string; url?: string; snippet?: string },
+  maxResults: number
+): SearchResult[] {
+  const results: SearchResult[] = [];
+  for (const item of items || []) {
+    if (results.length >= maxResults) break;
+    const { title, url, snippet } = pick(item);
+    if (url && url.startsWith("http")) {
+      results.push({ title: (title || "").trim(), url, snippet: (snippet || "").trim(), provider });
+    }
+  }
+  return results;
+}
+
+export function duckDuckGoProvider(opts: ProviderOptions): SearchProvider {
+  const baseUrl = opts.baseUrl || "https://html.duckduckgo.com/html/";
+  return {
+    name: "duckduckgo",
+    async search(query, maxResults, { signal, dateRange, locale } = {}) {
+      const range = closedRange(dateRange);
+      const df = range ? `&df=${range.since}..${range.until}` : "";
+      const kl = localeParams(locale, (l) => ({ kl: ddgRegion(l) }));
+      const resp = await fetch(`${baseUrl}?q=${encodeURIComponent(query)}${df}${kl}`, {
+        headers: { "User-Agent": opts.userAgent },
+        signal: requestSignal(signal),
+      });
+      // DDG answers throttled clients with a 202 challenge page
+      if (!resp.ok || resp.status === 202) throw new Error(`HTTP ${resp.status}`);
+
+      const $ = cheerio.load(await resp.text());
+      const results: SearchResult[] = [];
+
+      $(".result").each((_, el) => {
+        if (results.length >= maxResults) return;
+        const titleEl = $(el).find(".result__title a");
+        const snippetEl = $(el).find(".result__snippet");
+        const href = titleEl.attr("href") || "";
+
+        let url = href;
+        const uddgMatch = href.match(/uddg=([^&]+)/);
+        if (uddgMatch) url = decodeURIComponent(uddgMatch[1]);
+
+        if (url && url.startsWith("http")) {
+          results.push({
+            title: titleEl.text().trim(),
+            url,
+            snippet: snippetEl.text().trim(),
+            provider: "duckduckgo",
+          });
+        }
+      });
+
+      return results;
+    },
+  };
+}
+
+export function braveProvider(opts: ProviderOptions): SearchProvider {
+  const baseUrl = opts.baseUrl || "https://api.search.brave.com/res/v1/web/search";
+  return {
+    name: "brave",
+    async search(query, maxResults, { signal, dateRange, locale } = {}) {
+      const range = closedRange(dateRange);
+      const freshness = range ? `&freshness=${range.since}to${range.until}` : "";
+      // Brave uses "jp" for Japanese and wants the Brazilian/European variant of Portuguese
+      const lang = (l: Locale) => (l.language === "ja" ? "jp" : l.language === "pt" ? (l.region === "br" ? "pt-br" : "pt-pt") : l.language);
+      const loc = localeParams(locale, (l) => ({ country: l.region && l.region.toUpperCase(), search_lang: lang(l) }));
+      const data = await getJSON(
+        `${baseUrl}?q=${encodeURIComponent(query)}&count=${Math.min(maxResults, 20)}${freshness}${loc}`,
+        { "X-Subscription-Token": opts.apiKey || "" },
+        signal
+      );
+      return toResults("brave", data?.web?.results, (r) => ({
+        title: r.title,
+        url: r.url,
+        snippet: r.description,
+      }), maxResults);
+    },
+  };
+}
+
+export function bingProvider(opts: ProviderOptions): SearchProvider {
+  const baseUrl = opts.baseUrl || "https://api.bing.microsoft.com/v7.0/search";
+  return {
+    name: "bing",
+    async search(query, maxResults, { signal, dateRange, locale } = {}) {
+      const range = closedRange(dateRange);
+      const freshness = range ? `&freshness=${range.since}..${range.until}` : "";
+      // A market (mkt) sets both country and language; setLang alone only sets the UI language
+      const loc = localeParams(locale, (l) => ({
+        mkt: l.region && `${l.language}-${l.region.toUpperCase()}`,
+        setLang: l.region ? null : l.language,
+      }));
+      const data = await getJSON(
+        `${baseUrl}?q=${encodeURIComponent(query)}&count=${Math.min(maxResults, 50)}${freshness}${loc}`,
+        { "Ocp-Apim-Subscription-Key": opts.apiKey || "" },
+        signal
+      );
+      return toResults("bing", data?.webPages?.value, (r) => ({
+        title: r.name,
+        url: r.url,
+        snippet: r.snippet,
+      }), maxResults);
+    },
+  };
+}
+
+export function serpApiProvider(opts: ProviderOptions): SearchProvider {
+  const baseUrl = opts.baseUrl || "https://serpapi.com/search.json";
+  return {
+    name: "serpapi",
+    async search(query, maxResults, { signal, dateRange, locale } = {}) {
+      const range = closedRange(dateRange);
+      const loc = localeParams(locale, (l) => ({ gl: googleCountry(l), hl: l.language }));
+      // Google's custom date range takes M/D/YYYY
+      const usDate = (day: string) => {
+        const [y, m, d] = day.split("-").map(Number);
+        return `${m}/${d}/${y}`;
+      };
+      const tbs = range ? `&tbs=${encodeURIComponent(`cdr:1,cd_min:${usDate(range.since)},cd_max:${usDate(range.until)}`)}` : "";
+      const data = await getJSON(
+        `${baseUrl}?engine=google&q=${encodeURIComponent(query)}&num=${maxResults}${tbs}${loc}&api_key=${encodeURIComponent(opts.apiKey || "")}`,
+        {},
+        signal
+      );
+      if (data?.error) throw new Error(data.error);
+      return toResults("serpapi", data?.organic_results, (r) => ({
+        title: r.title,
+        url: r.link,
+        snippet: r.snippet,
+      }), maxResults);
+    },
+  };
+}
+
+/**
+ * SearXNG only supports ranges ending today (day/week/month/year), so the
+ * smallest one that covers `since` is used and older ranges are left unfiltered.
+ */
+function searxngTimeRange(range?: DateRange): string {
+  if (!range?.since) return "";
+  const days = (Date.now() - Date.parse(range.since)) / (24 * 60 * 60 * 1000);
+  const name = days <= 1 ? "day" : days <= 7 ? "week" : days <= 31 ? "month" : days <= 366 ? "year" : null;
+  return name ? `&time_range=${name}` : "";
+}
+
+/** SearXNG instance with the JSON output format enabled */
+export function searxngProvider(opts: ProviderOptions): SearchProvider {
+  const baseUrl = (opts.baseUrl || "").replace(/\/$/, "");
+  return {
+    name: "searxng",
+    async search(query, maxResults, { signal, dateRange, locale } = {}) {
+      const loc = localeParams(locale, (l) => ({ language: l.region ? `${l.language}-${l.region.toUpperCase()}` : l.language }));
+      const data = await getJSON(
+        `${baseUrl}/search?q=${encodeURIComponent(query)}&format=json${searxngTimeRange(dateRange)}${loc}`,
+        { "User-Agent": opts.userAgent },
+        signal
+      );
+      return toResults("searxng", data?.results, (r) => ({
+        title: r.title,
+        url: r.url,
+        snippet: r.content,
+      }), maxResults);
+    },
+  };
+}
+
+/**
+ * Builds the provider chain from env. SEARCH_PROVIDERS sets an explicit order
+ * (e.g. "brave,duckduckgo"); otherwise DuckDuckGo runs first, followed by any
+ * provider that has credentials configured.
+ */
+export function loadSearchProviders(userAgent: string): SearchProvider[] {
+  const env = process.env;
+  const factories: Record<string, { configured: boolean; create: () => SearchProvider }> = {
+    duckduckgo: {
+      configured: true,
+      create: () => duckDuckGoProvider({ userAgent, baseUrl: env.DUCKDUCKGO_URL }),
+    },
+    brave: {
+      configured: !!env.BRAVE_API_KEY,
+      create: () => braveProvider({ userAgent, baseUrl: env.BRAVE_SEARCH_URL, apiKey: env.BRAVE_API_KEY }),
+    },
+    bing: {
+      configured: !!env.BING_API_KEY,
+      create: () => bingProvider({ userAgent, baseUrl: env.BING_SEARCH_URL, apiKey: env.BING_API_KEY }),
+    },
+    serpapi: {
+      configured: !!env.SERPAPI_API_KEY,
+      create: () => serpApiProvider({ userAgent, baseUrl: env.SERPAPI_URL, apiKey: env.SERPAPI_API_KEY }),
+    },
+    searxng: {
+      configured: !!env.SEARXNG_URL,
+      create: () => searxngProvider({ userAgent, baseUrl: env.SEARXNG_URL }),
+    },
+  };
+
+  const names = env.SEARCH_PROVIDERS
+    ? env.SEARCH_PROVIDERS.split(",").map((n) => n.trim().toLowerCase()).filter(Boolean)
+    : Object.keys(factories).filter((n) => factories[n].configured);
+
+  const providers: SearchProvider[] = [];
+  for (const name of names) {
+    const factory = factories[name];
+    if (!factory) throw new Error(`Unknown search provider in SEARCH_PROVIDERS: ${name}`);
+    if (!factory.configured) throw new Error(`Search provider ${name} is not configured`);
+    providers.push(factory.create());
+  }
+  return providers;
+}
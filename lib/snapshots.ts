@@ -0,0 +1,105 @@
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { join } from "path";
+import { randomBytes } from "crypto";
+
+const DATA_DIR = join(import.meta.dir || process.cwd(), "..", "data");
+const SNAPSHOTS_FILE = join(DATA_DIR, "profile-snapshots.json");
+
+// Keep storage bounded for handles that are re-analyzed frequently
+const MAX_SNAPSHOTS_PER_PROFILE = 50;
+
+/** Facts extracted from one analyze_profile run */
+export interface ProfileSnapshot {
+  id: string;
+  owner: string; // API key that ran the analysis
+  username: string;
+  platform: string;
+  created: string;
+  bio: string | null;
+  followers: number | null;
+  follower_indicators: string[];
+  og_tags: Record<string, string>;
+  platforms_present: string[];
+  /** LLM-derived from the structured pass every run makes */
+  content_themes: string[] | null;
+  completeness_score: number | null;
+  source_urls: string[];
+}
+
+interface SnapshotStore {
+  profiles: Record<string, ProfileSnapshot[]>; // "owner:platform:username" -> oldest first
+}
+
+async function loadSnapshots(): Promise<SnapshotStore> {
+  try {
+    const data = await readFile(SNAPSHOTS_FILE, "utf-8");
+    return JSON.parse(data);
+  } catch {
+    return { profiles: {} };
+  }
+}
+
+async function saveSnapshots(store: SnapshotStore): Promise<void> {
+  await mkdir(DATA_DIR, { recursive: true });
+  await writeFile(SNAPSHOTS_FILE, JSON.stringify(store, null, 2));
+}
+
+// Concurrent analyze_profile calls save snapshots, so every read-modify-write is serialized
+let storeLock: Promise<unknown> = Promise.resolve();
+
+function updateSnapshots<T>(fn: (store: SnapshotStore) => T): Promise<T> {
+  const next = storeLock.then(async () => {
+    const store = await loadSnapshots();
+    const result = fn(store);
+    await saveSnapshots(store);
+    return result;
+  });
+  storeLock = next.catch(() => {});
+  return next;
+}
+
+export function normalizeHandle(username: string): string {
+  return username.trim().replace(/^@/, "").toLowerCase();
+}
+
+// Keyed per owner so one key's re-runs never push another key's snapshots out of the cap
+function profileKey(owner: string, username: string, platform?: string): string {
+  return `${owner}:${platform || "cross-platform"}:${normalizeHandle(username)}`;
+}
+
+// Stores written before snapshots were keyed per owner
+function legacyProfileKey(username: string, platform?: string): string {
+  return `${platform || "cross-platform"}:${normalizeHandle(username)}`;
+}
+
+export async function saveProfileSnapshot(
+  snapshot: Omit<ProfileSnapshot, "id" | "created" | "username" | "platform"> & {
+    username: string;
+    platform?: string;
+  }
+): Promise<ProfileSnapshot> {
+  const stored: ProfileSnapshot = {
+    ...snapshot,
+    id: `snap_${randomBytes(8).toString("hex")}`,
+    created: new Date().toISOString(),
+    username: normalizeHandle(snapshot.username),
+    platform: snapshot.platform || "cross-platform",
+  };
+
+  const key = profileKey(snapshot.owner, snapshot.username, snapshot.platform);
+  await updateSnapshots((store) => {
+    store.profiles[key] = [...(store.profiles[key] || []), stored].slice(-MAX_SNAPSHOTS_PER_PROFILE);
+  });
+  return stored;
+}
+
+/** Snapshots for a profile owned by the given key, oldest first */
+export async function listProfileSnapshots(
+  owner: string,
+  username: string,
+  platform?: string
+): Promise<ProfileSnapshot[]> {
+  const store = await loadSnapshots();
+  const legacy = (store.profiles[legacyProfileKey(username, platform)] || []).filter((s) => s.owner === owner);
+  return [...legacy, ...(store.profiles[profileKey(owner, username, platform)] || [])];
+}
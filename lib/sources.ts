@@ -0,0 +1,150 @@
+import { fetchPage, searchWeb } from "./scraper";
+import type { FetchOptions, PageData, SearchResult } from "./scraper";
+import type { SearchFilters } from "./search";
+import type { Locale } from "./locale";
+
+export interface Source {
+  /** Citation number used as [n] in the report */
+  id: number;
+  url: string;
+  title: string;
+  /** Search provider that surfaced the URL, if it came from a search */
+  provider?: string;
+  retrieved_at: string;
+  /** Set when the page itself was fetched */
+  fetched_at?: string;
+  fetch_error?: string;
+  /** Publish date declared by the fetched page */
+  published_at?: string;
+  /** Whether the final report cites this source */
+  cited?: boolean;
+}
+
+export interface SourceTracker {
+  /** searchWeb wrapper that registers results so they can be cited later */
+  search(query: string, maxResults?: number, filters?: SearchFilters): Promise<SearchResult[]>;
+  /** Citation number for a URL; only referenced URLs end up in the source list */
+  ref(url: string): number;
+  /** Registers data retrieved some other way (e.g. a platform API) and returns its citation number */
+  record(url: string, title: string, provider: string): number;
+  /** fetchPage wrapper that records fetch time and errors against the source */
+  fetch(url: string): Promise<PageData | null>;
+  list(): Source[];
+}
+
+export interface SourceTrackerOptions extends FetchOptions {
+  /** Reports each search and page fetch as a pipeline step */
+  progress?: (message: string) => Promise<void>;
+  /** Applied to every search unless the call passes its own */
+  locale?: Locale;
+}
+
+interface Entry {
+  url: string;
+  title: string;
+  provider?: string;
+  retrieved_at: string;
+  fetched_at?: string;
+  fetch_error?: string;
+  published_at?: string;
+  id?: number;
+}
+
+export function createSourceTracker(opts: SourceTrackerOptions = {}): SourceTracker {
+  const entries = new Map<string, Entry>();
+  let nextId = 1;
+  // Fetches started together (e.g. via Promise.all) are reported as one N/M batch
+  let batchTotal = 0;
+  let batchDone = 0;
+
+  function entry(url: string): Entry {
+    let e = entries.get(url);
+    if (!e) {
+      e = { url, title: "", retrieved_at: new Date().toISOString() };
+      entries.set(url, e);
+    }
+    return e;
+  }
+
+  return {
+    async search(query, maxResults, filters) {
+      await opts.progress?.(`Searching: ${query}`);
+      const results = await searchWeb(query, maxResults, { ...opts, ...filters });
+      for (const r of results) {
+        const e = entry(r.url);
+        if (!e.title) e.title = r.title;
+        if (!e.provider) e.provider = r.provider;
+      }
+      return results;
+    },
+
+    ref(url) {
+      const e = entry(url);
+      if (e.id === undefined) e.id = nextId++;
+      return e.id;
+    },
+
+    record(url, title, provider) {
+      const e = entry(url);
+      e.title = title;
+      e.provider = provider;
+      e.fetched_at = new Date().toISOString();
+      if (e.id === undefined) e.id = nextId++;
+      return e.id;
+    },
+
+    async fetch(url) {
+      const e = entry(url);
+      if (batchDone === batchTotal) batchTotal = batchDone = 0;
+      batchTotal++;
+      const page = await fetchPage(url, opts).catch((err: any) => {
+        opts.signal?.throwIfAborted();
+        e.fetch_error = err.message;
+        return null;
+      });
+      await opts.progress?.(`Fetched pages ${++batchDone}/${batchTotal}`);
+      e.fetched_at = new Date().toISOString();
+      if (page?.error) e.fetch_error = page.error;
+      if (page?.title && !e.title) e.title = page.title;
+      if (page?.publishedAt) e.published_at = page.publishedAt;
+      return page;
+    },
+
+    list() {
+      return [...entries.values()]
+        .filter((e): e is Entry & { id: number } => e.id !== undefined)
+        .sort((a, b) => a.id - b.id)
+        .map((e) => ({
+          id: e.id,
+          url: e.url,
+          title: e.title || e.url,
+          ...(e.provider ? { provider: e.provider } : {}),
+          retrieved_at: e.retrieved_at,
+          ...(e.fetched_at ? { fetched_at: e.fetched_at } : {}),
+          ...(e.fetch_error ? { fetch_error: e.fetch_error } : {}),
+          ...(e.published_at ? { published_at: e.published_at } : {}),
+        }));
+    },
+  };
+}
+
+export const CITATION_INSTRUCTIONS = `Each source in the data is numbered, either as a [3] prefix in result lists or a "source": 3 field in page data. Cite the supporting source inline after every claim drawn from the data, using the same bracketed number (e.g. "Short-form video drives most shares [2][5]"). Only cite numbers that appear in the data; do not invent sources, and do not add your own sources list.`;
+
+/** Marks which sources the markdown cites and appends a numbered Sources section */
+export function attachCitations(markdown: string, sources: Source[]): { markdown: string; sources: Source[] } {
+  const cited = new Set<number>();
+  for (const m of markdown.matchAll(/\[(\d+)\]/g)) cited.add(parseInt(m[1]));
+
+  const marked = sources.map((s) => ({ ...s, cited: cited.has(s.id) }));
+  const listed = marked.filter((s) => s.cited);
+  if (listed.length === 0) return { markdown, sources: marked };
+
+  const lines = listed.map(
+    (s) =>
+      `- [${s.id}] [${s.title.replace(/[\[\]]/g, "")}](${s.url})${s.published_at ? ` (${s.published_at.slice(0, 10)})` : ""}${s.fetch_error ? ` — fetch failed: ${s.fetch_error}` : ""}`
+  );
+  return {
+    markdown: `${markdown.trimEnd()}\n\n### Sources\n${lines.join("\n")}\n`,
+    sources: marked,
+  };
+}
@@ -0,0 +1,305 @@
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { join } from "path";
+import { randomBytes } from "crypto";
+import { extractHashtags, normalizeHashtag } from "./hashtags";
+import { isDefaultLocale, localeTag } from "./locale";
+import type { Locale } from "./locale";
+
+const DATA_DIR = join(import.meta.dir || process.cwd(), "..", "data");
+const HISTORY_FILE = join(DATA_DIR, "trend-history.json");
+
+// Keep storage bounded for niches that are monitored frequently
+const MAX_SNAPSHOTS_PER_NICHE = 100;
+// Prior windows averaged when computing momentum
+const MOMENTUM_WINDOWS = 4;
+const RISING_RATIO = 1.25;
+const DECLINING_RATIO = 0.8;
+
+export type Momentum = "new" | "rising" | "peaking" | "stable" | "declining";
+
+/** A source (search result or fetched page) that a trend run looked at */
+export interface TrendDocument {
+  url: string;
+  text: string;
+  /** Publish date when the page declares one, otherwise the date it was seen (YYYY-MM-DD) */
+  date: string;
+}
+
+/** How often one trend or hashtag appeared in a run's sources */
+export interface TermCount {
+  term: string;
+  /** Number of sources mentioning the term */
+  mentions: number;
+  source_dates: string[];
+}
+
+/** Counts extracted from one detect_trends run */
+export interface TrendSnapshot {
+  id: string;
+  niche: string;
+  timeframe: string;
+  created: string;
+  source_count: number;
+  trends: TermCount[];
+  hashtags: TermCount[];
+}
+
+export interface TermMomentum {
+  momentum: Momentum;
+  /** Change in share of sources versus the prior-window average; null when there is no prior data */
+  change_pct: number | null;
+}
+
+interface TrendHistoryStore {
+  niches: Record<string, TrendSnapshot[]>; // "timeframe:niche" -> oldest first
+}
+
+async function loadHistory(): Promise<TrendHistoryStore> {
+  try {
+    const data = await readFile(HISTORY_FILE, "utf-8");
+    return JSON.parse(data);
+  } catch {
+    return { niches: {} };
+  }
+}
+
+async function saveHistory(store: TrendHistoryStore): Promise<void> {
+  await mkdir(DATA_DIR, { recursive: true });
+  await writeFile(HISTORY_FILE, JSON.stringify(store, null, 2));
+}
+
+// Concurrent detect_trends runs and monitors save snapshots, so every read-modify-write is serialized
+let storeLock: Promise<unknown> = Promise.resolve();
+
+function updateHistory<T>(fn: (store: TrendHistoryStore) => T): Promise<T> {
+  const next = storeLock.then(async () => {
+    const store = await loadHistory();
+    const result = fn(store);
+    await saveHistory(store);
+    return result;
+  });
+  storeLock = next.catch(() => {});
+  return next;
+}
+
+export function normalizeNiche(niche: string): string {
+  return niche.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * History timeframe for a locale. Runs in another language or region search
+ * different sources, so each keeps its own history (e.g. "this_week@pt-BR").
+ */
+export function localizedTimeframe(timeframe: string, locale: Locale): string {
+  return isDefaultLocale(locale) ? timeframe : `${timeframe}@${localeTag(locale)}`;
+}
+
+function nicheKey(niche: string, timeframe: string): string {
+  return `${timeframe}:${normalizeNiche(niche)}`;
+}
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "from", "into", "that", "this", "are", "its", "your", "how", "new", "why", "what",
+]);
+
+function tokens(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter((t) => t.length >= 3 && !STOPWORDS.has(t));
+}
+
+/**
+ * Counts the sources that mention a trend. Trend names are written by the
+ * model, so a source counts when it contains most of the name's words rather
+ * than the exact phrase.
+ */
+export function countTerm(term: string, docs: TrendDocument[]): TermCount {
+  const words = [...new Set(tokens(term))];
+  const needed = Math.max(1, Math.ceil(words.length * 0.6));
+  const phrase = term.trim().toLowerCase();
+
+  const matching = docs.filter((doc) => {
+    const text = doc.text.toLowerCase();
+    if (words.length === 0) return text.includes(phrase);
+    const docWords = new Set(tokens(text));
+    return words.filter((w) => docWords.has(w)).length >= needed;
+  });
+
+  return {
+    term,
+    mentions: matching.length,
+    source_dates: [...new Set(matching.map((d) => d.date))].sort(),
+  };
+}
+
+/** Counts the sources mentioning each hashtag found in them, most mentioned first */
+export function countHashtags(docs: TrendDocument[], limit = 30): TermCount[] {
+  const byTag = new Map<string, TrendDocument[]>();
+  for (const doc of docs) {
+    const tags = new Set(extractHashtags(doc.text).map(normalizeHashtag));
+    for (const tag of tags) byTag.set(tag, [...(byTag.get(tag) || []), doc]);
+  }
+  return [...byTag.entries()]
+    .map(([term, matching]) => ({
+      term,
+      mentions: matching.length,
+      source_dates: [...new Set(matching.map((d) => d.date))].sort(),
+    }))
+    .sort((a, b) => b.mentions - a.mentions || a.term.localeCompare(b.term))
+    .slice(0, limit);
+}
+
+/** Stamps one run's counts with an id and time; the id makes saving idempotent */
+export function createTrendSnapshot(snapshot: Omit<TrendSnapshot, "id" | "created">): TrendSnapshot {
+  return {
+    ...snapshot,
+    id: `tsnap_${randomBytes(8).toString("hex")}`,
+    niche: normalizeNiche(snapshot.niche),
+    created: new Date().toISOString(),
+  };
+}
+
+/** Stores a snapshot unless it is already stored (e.g. a cached report saved again) */
+export async function saveTrendSnapshot(snapshot: TrendSnapshot): Promise<TrendSnapshot> {
+  const key = nicheKey(snapshot.niche, snapshot.timeframe);
+  await updateHistory((store) => {
+    const list = store.niches[key] || [];
+    if (!list.some((s) => s.id === snapshot.id)) {
+      store.niches[key] = [...list, snapshot].slice(-MAX_SNAPSHOTS_PER_NICHE);
+    }
+  });
+  return snapshot;
+}
+
+/** Snapshots for a niche and timeframe, oldest first */
+export async function listTrendSnapshots(niche: string, timeframe: string): Promise<TrendSnapshot[]> {
+  const store = await loadHistory();
+  return store.niches[nicheKey(niche, timeframe)] || [];
+}
+
+/** Matches a term across runs even when the model words it differently ("UGC ads with AI" = "AI UGC ads") */
+function termKey(term: string): string {
+  const words = [...new Set(tokens(term))].sort();
+  return words.length ? words.join(" ") : term.trim().toLowerCase();
+}
+
+/** Share of sources mentioning each term, keyed by termKey */
+type Shares = Map<string, number>;
+
+function shares(counts: TermCount[], sourceCount: number): Shares {
+  return new Map(counts.map((c) => [termKey(c.term), sourceCount ? c.mentions / sourceCount : 0]));
+}
+
+/**
+ * Groups earlier snapshots into windows of `windowMs` going back
+ * from `now`, most recent first. Each window averages the runs that fell in
+ * it; runs less than half a window old belong to the current window and are
+ * skipped.
+ */
+export function priorWindows(
+  snapshots: TrendSnapshot[],
+  windowMs: number,
+  pick: (s: TrendSnapshot) => TermCount[],
+  now = Date.now()
+): Shares[] {
+  const buckets: TrendSnapshot[][] = [];
+  for (const s of snapshots) {
+    const idx = Math.round((now - Date.parse(s.created)) / windowMs);
+    if (idx < 1 || idx > MOMENTUM_WINDOWS) continue;
+    (buckets[idx - 1] ||= []).push(s);
+  }
+
+  return buckets.filter(Boolean).map((runs) => {
+    const avg: Shares = new Map();
+    for (const run of runs) {
+      for (const [term, share] of shares(pick(run), run.source_count)) {
+        avg.set(term, (avg.get(term) || 0) + share / runs.length);
+      }
+    }
+    return avg;
+  });
+}
+
+/**
+ * Momentum of a term from its share of sources now versus prior windows:
+ * rising or declining when the share moved by more than 25% / 20% against the
+ * prior average, peaking when it held steady right after rising, and new when
+ * no prior window mentioned it.
+ */
+export function termMomentum(current: TermCount, sourceCount: number, windows: Shares[]): TermMomentum {
+  const key = termKey(current.term);
+  const now = sourceCount ? current.mentions / sourceCount : 0;
+  const prior = windows.map((w) => w.get(key) || 0);
+  const avg = prior.reduce((a, b) => a + b, 0) / (prior.length || 1);
+
+  if (prior.length === 0 || avg === 0) return { momentum: "new", change_pct: null };
+
+  const ratio = now / avg;
+  const change_pct = Math.round((ratio - 1) * 100);
+  if (ratio >= RISING_RATIO) return { momentum: "rising", change_pct };
+  if (ratio <= DECLINING_RATIO) return { momentum: "declining", change_pct };
+
+  // Held steady after the most recent prior window rose against the ones before it
+  const older = prior.slice(1);
+  const olderAvg = older.reduce((a, b) => a + b, 0) / (older.length || 1);
+  if (older.length > 0 && prior[0] >= olderAvg * RISING_RATIO) return { momentum: "peaking", change_pct };
+  return { momentum: "stable", change_pct };
+}
+
+export interface TrendHistoryPoint {
+  created: string;
+  source_count: number;
+  mentions: number;
+  /** Fraction of the run's sources mentioning the term */
+  share: number;
+  source_dates: string[];
+}
+
+export interface TrendHistory {
+  niche: string;
+  timeframe: string;
+  runs: {
+    created: string;
+    source_count: number;
+    trends: TermCount[];
+    hashtags: TermCount[];
+  }[];
+  /** Per-run counts for the requested term (a trend name or #hashtag) */
+  series?: TrendHistoryPoint[];
+}
+
+/** Time series of stored trend counts for a niche, oldest run first */
+export async function getTrendHistory(
+  niche: string,
+  timeframe: string,
+  opts: { term?: string; limit?: number } = {}
+): Promise<TrendHistory> {
+  const runs = (await listTrendSnapshots(niche, timeframe)).slice(-(opts.limit || 20));
+  const history: TrendHistory = {
+    niche: normalizeNiche(niche),
+    timeframe,
+    runs: runs.map(({ created, source_count, trends, hashtags }) => ({
+      created,
+      source_count,
+      trends,
+      hashtags: hashtags.slice(0, 10),
+    })),
+  };
+
+  if (opts.term) {
+    const isTag = opts.term.trim().startsWith("#");
+    const key = isTag ? normalizeHashtag(opts.term.trim()) : termKey(opts.term);
+    history.series = runs.map((run) => {
+      const match = (isTag ? run.hashtags : run.trends).find((c) =>
+        isTag ? normalizeHashtag(c.term) === key : termKey(c.term) === key
+      );
+      const mentions = match?.mentions || 0;
+      return {
+        created: run.created,
+        source_count: run.source_count,
+        mentions,
+        share: run.source_count ? Math.round((mentions / run.source_count) * 1000) / 1000 : 0,
+        source_dates: match?.source_dates || [],
+      };
+    });
+  }
+  return history;
+}
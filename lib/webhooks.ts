@@ -0,0 +1,143 @@
+import { createHmac } from "crypto";
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+import { log } from "./logger";
+
+const WEBHOOK_ATTEMPTS = 3;
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+export interface WebhookDelivery {
+  delivered: boolean;
+  attempts: number;
+  last_status?: number;
+  last_error?: string;
+}
+
+// Self-hosted setups may deliver to services on their own network
+const ALLOW_PRIVATE = process.env.WEBHOOK_ALLOW_PRIVATE === "true";
+
+// Loopback, private, link-local (cloud metadata), shared, benchmark, multicast and reserved ranges
+const BLOCKED_V4: [number, number][] = [
+  [0x00000000, 8],
+  [0x0a000000, 8],
+  [0x64400000, 10],
+  [0x7f000000, 8],
+  [0xa9fe0000, 16],
+  [0xac100000, 12],
+  [0xc0000000, 24],
+  [0xc0a80000, 16],
+  [0xc6120000, 15],
+  [0xe0000000, 3],
+];
+
+function isPublicV4(ip: string): boolean {
+  const n = ip.split(".").reduce((acc, part) => acc * 256 + parseInt(part), 0);
+  return !BLOCKED_V4.some(([base, bits]) => Math.floor(n / 2 ** (32 - bits)) === Math.floor(base / 2 ** (32 - bits)));
+}
+
+function isPublicAddress(ip: string): boolean {
+  if (isIP(ip) === 4) return isPublicV4(ip);
+  const v6 = ip.toLowerCase();
+  // IPv4-mapped addresses, dotted (::ffff:10.0.0.1) or as URL parsing writes them (::ffff:a00:1)
+  const dotted = v6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) return isPublicV4(dotted[1]);
+  const hex = v6.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (hex) {
+    const [hi, lo] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+    return isPublicV4(`${hi >> 8}.${hi & 255}.${lo >> 8}.${lo & 255}`);
+  }
+  // Unspecified, loopback, unique local (fc00::/7), link-local (fe80::/10) and multicast
+  return !(v6 === "::" || v6 === "::1" || /^f[cd]/.test(v6) || /^fe[89ab]/.test(v6) || v6.startsWith("ff"));
+}
+
+/**
+ * Rejects anything but an http(s) URL whose host resolves only to public
+ * addresses, so webhooks cannot reach the server's own network. Checked when
+ * a job or monitor is created and again before every delivery.
+ */
+export async function validateWebhookUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid webhook_url: ${url}`);
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    throw new Error("webhook_url must be an http or https URL");
+  }
+  if (ALLOW_PRIVATE) return;
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true, verbatim: true })).map((a) => a.address);
+  } catch {
+    throw new Error(`webhook_url host does not resolve: ${parsed.hostname}`);
+  }
+  if (addresses.length === 0) throw new Error(`webhook_url host does not resolve: ${parsed.hostname}`);
+  if (!addresses.every(isPublicAddress)) {
+    throw new Error("webhook_url must resolve to a public address");
+  }
+}
+
+/**
+ * Signature header for webhook payloads: HMAC-SHA256 of "<timestamp>.<body>"
+ * keyed with the owner's API key, sent as "t=<timestamp>,v1=<hex>".
+ */
+function signWebhook(secret: string, timestamp: number, body: string): string {
+  const mac = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${mac}`;
+}
+
+/** POSTs a signed JSON payload, retrying with backoff on errors and non-2xx responses */
+export async function deliverWebhook(
+  url: string,
+  secret: string,
+  id: string,
+  payload: unknown
+): Promise<WebhookDelivery> {
+  const body = JSON.stringify(payload);
+  const delivery: WebhookDelivery = { delivered: false, attempts: 0 };
+  try {
+    // DNS may have changed since the URL was accepted
+    await validateWebhookUrl(url);
+  } catch (err: any) {
+    delivery.last_error = err.message;
+    await log("warn", "Webhook rejected", { id, error: err.message });
+    return delivery;
+  }
+
+  for (let attempt = 0; attempt < WEBHOOK_ATTEMPTS && !delivery.delivered; attempt++) {
+    if (attempt > 0) await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** attempt));
+    delivery.attempts++;
+    const timestamp = Math.floor(Date.now() / 1000);
+    try {
+      const resp = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "EzBiz-Social-Webhooks/1.0",
+          "X-Webhook-Id": id,
+          "X-Webhook-Signature": signWebhook(secret, timestamp, body),
+        },
+        body,
+        // A redirect could point back at a private address
+        redirect: "manual",
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      delivery.last_status = resp.status;
+      delivery.delivered = resp.ok;
+      if (!resp.ok) delivery.last_error = `HTTP ${resp.status}`;
+    } catch (err: any) {
+      delivery.last_error = err.message;
+    }
+  }
+
+  if (delivery.delivered) delete delivery.last_error;
+  await log(delivery.delivered ? "info" : "warn", `Webhook ${delivery.delivered ? "delivered" : "failed"}`, {
+    id,
+    attempts: delivery.attempts,
+    error: delivery.last_error,
+  });
+  return delivery;
+}
@@ -3,17 +3,31 @@ import { readFile } from "fs/promises";
 import { join } from "path";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { CallToolResult, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 
-import { validateApiKey, recordUsage, createApiKey, getKeyByEmail, upgradeKey, getKeyUsage, TIER_LIMITS, TIER_PRICES } from "./lib/auth";
+import { validateApiKey, recordUsage, createApiKey, getKeyByEmail, upgradeKey, getKeyUsage, getKeyLLMSettings, setKeyLLMSettings, isKeyActive, TIER_LIMITS, TIER_PRICES } from "./lib/auth";
 import type { Tier } from "./lib/auth";
 import { log } from "./lib/logger";
 import { handleOAuthRoute, unauthorizedResponse, type OAuthConfig } from "./lib/oauth";
+import { outputFormatSchema, reportEnvelope, reportOutputSchema, type ToolContext, type ToolReport } from "./lib/report";
+import { resolveProviderName } from "./lib/llm";
+import { platformSchema } from "./lib/platforms";
+import { listReports, getReport, deleteReport, type StoredReport } from "./lib/history";
+import { cacheStats } from "./lib/cache";
+import { submitJob, getJob, listJobs, cancelJob, publicJob, resumeJobs, type Job, type JobStatus } from "./lib/jobs";
+import { validateWebhookUrl } from "./lib/webhooks";
+import { createMonitor, listMonitors, getMonitor, deleteMonitor, publicMonitor, startMonitorScheduler, MONITOR_TOOLS, MONITOR_INTERVALS, type MonitorInterval } from "./lib/monitors";
+import { getTrendHistory, localizedTimeframe } from "./lib/trend-history";
+import { languageSchema, regionSchema, resolveLocale } from "./lib/locale";
+import { historyTimeframe, timeframeSchema } from "./lib/dates";
+import { ANALYSIS_TOOLS, ANALYSIS_TOOL_NAMES, isAnalysisTool, parseAnalysisInput, runAnalysis, type AnalysisTool, type AnalysisToolName } from "./lib/analysis";
+import { calendarCsv, calendarIcs } from "./lib/calendar-export";
 
-import { analyzeProfile } from "./tools/profile-analysis";
-import { scoreEngagement } from "./tools/engagement-scoring";
-import { detectTrends } from "./tools/trend-detection";
-import { researchHashtags } from "./tools/hashtag-research";
+import { compareProfileSnapshots, profileDiffSchema } from "./tools/profile-comparison";
+import { checkHashtags, hashtagCheckDataSchema } from "./tools/hashtag-check";
+import type { CalendarData } from "./tools/content-calendar";
 
 const PORT = parseInt(process.env.MCP_PORT || "4202");
 const BASE_DIR = import.meta.dir || process.cwd();
@@ -57,69 +71,463 @@ async function serveStatic(pathname: string): Promise<Response | null> {
 }
 
 // --- MCP Server factory ---
-function createMcpServer(): McpServer {
-  const server = new McpServer({
-    name: "ezbiz-social-media",
-    version: "1.0.0",
+function createMcpServer(apiKey?: string): McpServer {
+  const server = new McpServer(
+    {
+      name: "ezbiz-social-media",
+      version: "1.0.0",
+    },
+    // Logging carries streamed report text (see reportStreamer)
+    { capabilities: { logging: {} } }
+  );
+
+  // Resolved per call so admin changes to a key's LLM settings apply immediately
+  const toolContext = async (): Promise<ToolContext> => ({
+    apiKey,
+    llm: apiKey ? await getKeyLLMSettings(apiKey) : undefined,
   });
 
-  server.tool(
-    "analyze_profile",
-    "Analyze a social media profile or brand presence — posting patterns, content themes, audience indicators, and growth recommendations.",
+  for (const [name, tool] of Object.entries(ANALYSIS_TOOLS) as [AnalysisToolName, AnalysisTool][]) {
+    server.registerTool(
+      name,
+      {
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+        outputSchema: reportOutputSchema(tool.dataSchema),
+      },
+      async (params, extra) => {
+        const stream = reportStreamer(extra);
+        const progress = progressReporter(extra);
+        try {
+          const { report, reportId } = await runAnalysis(name, params, {
+            ...(await toolContext()),
+            signal: extra.signal,
+            // The next step starting means the report text so far is complete
+            progress: async (message) => {
+              stream?.flush();
+              await progress(message);
+            },
+            onToken: stream?.onToken,
+          });
+          return toolResult(report, reportId);
+        } finally {
+          stream?.flush();
+        }
+      }
+    );
+  }
+
+  server.registerTool(
+    "compare_profile_snapshots",
+    {
+      description: "Compare two analyze_profile runs for the same handle — bio changes, follower and score movement, new or removed platforms, and content theme shifts. Every analyze_profile call saves a snapshot.",
+      inputSchema: {
+        username: z.string().describe("Social media username or handle used with analyze_profile"),
+        platform: platformSchema.optional().describe("Platform used with analyze_profile (omit for cross-platform runs)"),
+        from_snapshot: z.string().optional().describe("Earlier snapshot id (default: the run before to_snapshot)"),
+        to_snapshot: z.string().optional().describe("Later snapshot id (default: the latest run)"),
+        output_format: outputFormatSchema,
+      },
+      outputSchema: reportOutputSchema(profileDiffSchema),
+    },
+    async (params) => toolResult(await compareProfileSnapshots(params, await toolContext()))
+  );
+
+  server.registerTool(
+    "check_hashtags",
+    {
+      description: "Check hashtags against the maintained safety dataset — flags each as safe, restricted (including spam-associated), banned or overused with a reason. Pass a list of tags or a caption to pull them from.",
+      inputSchema: {
+        hashtags: z.array(z.string()).optional().describe("Hashtags to check, with or without the leading #"),
+        caption: z.string().optional().describe("Post caption; every hashtag in it is checked"),
+        platform: platformSchema.optional().describe("Only apply flags for this platform (omit to flag a tag restricted anywhere)"),
+        output_format: outputFormatSchema,
+      },
+      outputSchema: reportOutputSchema(hashtagCheckDataSchema),
+    },
+    async (params) => toolResult(await checkHashtags(params, await toolContext()))
+  );
+
+  server.registerTool(
+    "get_trend_history",
+    {
+      description: "Time series of trend and hashtag mention counts stored by earlier detect_trends runs for a niche — the data detect_trends measures momentum from. Pass a term to get one trend's or hashtag's counts per run.",
+      inputSchema: {
+        niche: z.string().describe("Niche used with detect_trends"),
+        timeframe: timeframeSchema.optional().describe("Timeframe used with detect_trends (default: this_week); last_24h, last_7d and last_30d share history with today, this_week and this_month"),
+        term: z.string().optional().describe("Trend name or #hashtag to chart across runs"),
+        limit: z.number().min(1).max(100).optional().describe("Most recent runs to return (default: 20)"),
+        language: languageSchema.optional().describe("Language used with detect_trends; each language and region keeps its own history"),
+        region: regionSchema.optional().describe("Region used with detect_trends"),
+      },
+    },
+    async ({ niche, timeframe, term, limit, language, region }) => {
+      const key = localizedTimeframe(historyTimeframe(timeframe), resolveLocale({ language, region }));
+      const history = await getTrendHistory(niche, key, { term, limit });
+      if (history.runs.length === 0) {
+        return historyError(`No trend history for "${niche}" (${history.timeframe}). Run detect_trends without since/until first.`);
+      }
+      return {
+        content: [{ type: "text", text: JSON.stringify(history, null, 2) }],
+        structuredContent: { ...history },
+      };
+    }
+  );
+
+  // --- Report history (free: does not count against the monthly limit) ---
+  server.registerTool(
+    "list_reports",
+    {
+      description: "List your previously generated reports, newest first. Use get_report to read one without re-running the analysis.",
+      inputSchema: {
+        tool: z.enum(ANALYSIS_TOOL_NAMES).optional().describe("Only list reports from this tool"),
+        limit: z.number().min(1).max(100).optional().describe("Maximum reports to return (default: 20)"),
+      },
+    },
+    async ({ tool, limit }) => {
+      if (!apiKey) return historyError("API key required to access report history.");
+      const reports = (await listReports(apiKey, { tool, limit })).map(({ owner, ...r }) => r);
+      return {
+        content: [{ type: "text", text: JSON.stringify(reports, null, 2) }],
+        structuredContent: { reports },
+      };
+    }
+  );
+
+  server.registerTool(
+    "get_report",
+    {
+      description: "Fetch a previously generated report by id, including its inputs, sources and structured data.",
+      inputSchema: {
+        report_id: z.string().describe("Report id from list_reports or a tool result's report_id"),
+      },
+    },
+    async ({ report_id }) => {
+      if (!apiKey) return historyError("API key required to access report history.");
+      const report = await getReport(apiKey, report_id);
+      if (!report) return historyError(`Report not found: ${report_id}`);
+      return storedReportResult(report);
+    }
+  );
+
+  server.registerTool(
+    "delete_report",
+    {
+      description: "Delete a report from your history.",
+      inputSchema: {
+        report_id: z.string().describe("Report id to delete"),
+      },
+    },
+    async ({ report_id }) => {
+      if (!apiKey) return historyError("API key required to access report history.");
+      const deleted = await deleteReport(apiKey, report_id);
+      if (!deleted) return historyError(`Report not found: ${report_id}`);
+      return { content: [{ type: "text", text: `Deleted report ${report_id}` }] };
+    }
+  );
+
+  // --- Async jobs (submit_job is billed like the analysis it runs; polling is free) ---
+  server.registerTool(
+    "submit_job",
+    {
+      description: "Queue an analysis to run in the background and return a job id immediately. Poll with get_job, or pass webhook_url to receive a signed POST when the report is ready.",
+      inputSchema: {
+        tool: z.enum(ANALYSIS_TOOL_NAMES).describe("Analysis tool to run"),
+        arguments: z.record(z.unknown()).describe("Arguments for the tool, exactly as it would be called directly"),
+        webhook_url: z.string().url().optional().describe("URL that receives the result as a signed JSON POST"),
+      },
+    },
+    async ({ tool, arguments: args, webhook_url }) => {
+      if (!apiKey) return historyError("API key required to submit jobs.");
+      const job = await submitJob(apiKey, tool, parseAnalysisInput(tool, args), webhook_url);
+      return jobResult(job);
+    }
+  );
+
+  server.registerTool(
+    "get_job",
+    {
+      description: "Check a background job's status. Succeeded jobs include the finished report.",
+      inputSchema: {
+        job_id: z.string().describe("Job id from submit_job"),
+      },
+    },
+    async ({ job_id }) => {
+      if (!apiKey) return historyError("API key required to access jobs.");
+      const job = await getJob(apiKey, job_id);
+      if (!job) return historyError(`Job not found: ${job_id}`);
+      return jobResult(job, await jobReport(job));
+    }
+  );
+
+  server.registerTool(
+    "list_jobs",
+    {
+      description: "List your background jobs, newest first.",
+      inputSchema: {
+        status: z.enum(["queued", "running", "succeeded", "failed", "cancelled"]).optional().describe("Only list jobs with this status"),
+        limit: z.number().min(1).max(100).optional().describe("Maximum jobs to return (default: 20)"),
+      },
+    },
+    async ({ status, limit }) => {
+      if (!apiKey) return historyError("API key required to access jobs.");
+      const jobs = (await listJobs(apiKey, { status, limit })).map(publicJob);
+      return {
+        content: [{ type: "text", text: JSON.stringify(jobs, null, 2) }],
+        structuredContent: { jobs },
+      };
+    }
+  );
+
+  server.registerTool(
+    "cancel_job",
     {
-      username: z.string().describe("Social media username or handle (e.g., '@hubspot')"),
-      platform: z.enum(["twitter", "instagram", "linkedin", "facebook", "tiktok"]).optional().describe("Social media platform to analyze"),
-      business_name: z.string().optional().describe("Business name for broader cross-platform search")
+      description: "Cancel a queued or running background job.",
+      inputSchema: {
+        job_id: z.string().describe("Job id to cancel"),
+      },
     },
-    async (params) => {
-      const result = await analyzeProfile(params);
-      return { content: [{ type: "text", text: result }] };
+    async ({ job_id }) => {
+      if (!apiKey) return historyError("API key required to access jobs.");
+      const job = await cancelJob(apiKey, job_id);
+      if (!job) return historyError(`No queued or running job found: ${job_id}`);
+      return jobResult(job);
     }
   );
 
-  server.tool(
-    "score_engagement",
-    "Score social media engagement for a brand or topic — engagement rate estimates, content type effectiveness, posting time analysis, and benchmarks.",
+  // --- Monitors (managing them is free; each scheduled run is billed) ---
+  server.registerTool(
+    "create_monitor",
     {
-      brand_or_topic: z.string().describe("Brand name or topic to analyze (e.g., 'Nike', 'AI marketing')"),
-      platform: z.enum(["twitter", "instagram", "linkedin", "facebook", "tiktok"]).optional().describe("Platform to focus on (analyzes all if omitted)")
+      description: "Re-run detect_trends or analyze_profile on a daily or weekly schedule. Each run is saved to your report history, and changes since the previous run (new or dropped trends, momentum and score changes) are sent to a webhook or email.",
+      inputSchema: {
+        tool: z.enum(MONITOR_TOOLS).describe("Analysis to repeat"),
+        arguments: z.record(z.unknown()).describe("Arguments for the tool, e.g. {\"niche\": \"AI marketing\"} or {\"username\": \"@hubspot\", \"platform\": \"linkedin\"}"),
+        interval: z.enum(Object.keys(MONITOR_INTERVALS) as [MonitorInterval, ...MonitorInterval[]]).describe("How often to run"),
+        webhook_url: z.string().url().optional().describe("URL that receives each run's changes as a signed JSON POST"),
+        email: z.string().optional().describe("Address that receives each run's changes"),
+      },
     },
-    async (params) => {
-      const result = await scoreEngagement(params);
-      return { content: [{ type: "text", text: result }] };
+    async ({ tool, arguments: args, interval, webhook_url, email }) => {
+      if (!apiKey) return historyError("API key required to create monitors.");
+      const monitor = await createMonitor(apiKey, { tool, input: parseAnalysisInput(tool, args), interval, webhook_url, email });
+      const body = { monitor: publicMonitor(monitor) };
+      return { content: [{ type: "text", text: JSON.stringify(body, null, 2) }], structuredContent: body };
     }
   );
 
-  server.tool(
-    "detect_trends",
-    "Detect trending topics and conversations in a niche — viral content patterns, emerging topics, sentiment shifts, and opportunity alerts.",
+  server.registerTool(
+    "list_monitors",
     {
-      niche: z.string().describe("Industry or niche to monitor (e.g., 'AI marketing', 'fitness')"),
-      timeframe: z.enum(["today", "this_week", "this_month"]).optional().describe("Timeframe for trend analysis (default: this_week)")
+      description: "List your monitors with their schedule, last run, last report id and latest changes.",
+      inputSchema: {},
     },
-    async (params) => {
-      const result = await detectTrends(params);
-      return { content: [{ type: "text", text: result }] };
+    async () => {
+      if (!apiKey) return historyError("API key required to access monitors.");
+      const monitors = (await listMonitors(apiKey)).map(publicMonitor);
+      return {
+        content: [{ type: "text", text: JSON.stringify(monitors, null, 2) }],
+        structuredContent: { monitors },
+      };
     }
   );
 
-  server.tool(
-    "research_hashtags",
-    "Research effective hashtags for a topic — popularity estimates, related hashtags, niche vs broad classification, and recommended hashtag sets.",
+  server.registerTool(
+    "delete_monitor",
     {
-      topic: z.string().describe("Topic or keyword for hashtag research (e.g., 'real estate', 'fitness')"),
-      platform: z.enum(["instagram", "twitter", "tiktok", "linkedin"]).optional().describe("Target platform for hashtag optimization"),
-      count: z.number().min(1).max(50).optional().describe("Number of hashtags to return (default: 20, max: 50)")
+      description: "Stop and delete a monitor. Reports from earlier runs stay in your history.",
+      inputSchema: {
+        monitor_id: z.string().describe("Monitor id from create_monitor or list_monitors"),
+      },
     },
-    async (params) => {
-      const result = await researchHashtags(params);
-      return { content: [{ type: "text", text: result }] };
+    async ({ monitor_id }) => {
+      if (!apiKey) return historyError("API key required to access monitors.");
+      const deleted = await deleteMonitor(apiKey, monitor_id);
+      if (!deleted) return historyError(`Monitor not found: ${monitor_id}`);
+      return { content: [{ type: "text", text: `Deleted monitor ${monitor_id}` }] };
     }
   );
 
   return server;
 }
 
+// Tools that read or manage stored data, or look tags up locally, rather than running a new analysis
+// (submit_job is billed; monitor runs are billed when they execute)
+const FREE_TOOLS = new Set([
+  "list_reports",
+  "get_report",
+  "delete_report",
+  "compare_profile_snapshots",
+  "check_hashtags",
+  "get_trend_history",
+  "get_job",
+  "list_jobs",
+  "cancel_job",
+  "create_monitor",
+  "list_monitors",
+  "delete_monitor",
+]);
+
+function historyError(message: string): CallToolResult {
+  return { content: [{ type: "text", text: message }], isError: true };
+}
+
+/** Stored report for a succeeded job, without the owning key */
+async function jobReport(job: Job): Promise<Omit<StoredReport, "owner"> | undefined> {
+  if (job.status !== "succeeded" || !job.report_id) return undefined;
+  const report = await getReport(job.owner, job.report_id);
+  if (!report) return undefined;
+  const { owner, ...rest } = report;
+  return rest;
+}
+
+function jobResult(job: Job, result?: Omit<StoredReport, "owner">): CallToolResult {
+  const body = { job: publicJob(job), ...(result ? { result } : {}) };
+  return {
+    content: [{ type: "text", text: JSON.stringify(body, null, 2) }],
+    structuredContent: body,
+  };
+}
+
+/** CSV or iCalendar file rebuilt from a saved content calendar's structured data */
+function calendarFile(report: StoredReport, format: string): { body: string; type: string } | null {
+  const data = report.data as CalendarData | undefined;
+  if (report.tool !== "generate_content_calendar" || !data?.posts) return null;
+  if (format === "csv") return { body: calendarCsv(data.posts), type: "text/csv; charset=utf-8" };
+  if (format === "ics") {
+    return { body: calendarIcs(data.posts, { name: `${data.brand} content calendar`, timezone: data.timezone }), type: "text/calendar; charset=utf-8" };
+  }
+  return null;
+}
+
+function storedReportResult({ owner, ...report }: StoredReport): CallToolResult {
+  const content: CallToolResult["content"] = [];
+  if (report.markdown) content.push({ type: "text", text: report.markdown });
+  if (report.data) content.push({ type: "text", text: JSON.stringify(report.data, null, 2) });
+  return { content, structuredContent: { ...report } };
+}
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Sends each pipeline step as an MCP progress notification when the client
+ * asked for progress, and stops the pipeline between steps once the request
+ * is cancelled.
+ */
+function progressReporter(extra: ToolExtra): (message: string) => Promise<void> {
+  const progressToken = extra._meta?.progressToken;
+  let step = 0;
+  return async (message) => {
+    extra.signal.throwIfAborted();
+    step++;
+    if (progressToken === undefined) return;
+    await extra.sendNotification({
+      method: "notifications/progress",
+      params: { progressToken, progress: step, message },
+    });
+  };
+}
+
+/**
+ * Forwards the report text to the client as MCP log messages while the model
+ * writes it, one or more complete lines per message. Only used when the client
+ * asked for progress, so plain calls are not flooded with notifications.
+ */
+function reportStreamer(extra: ToolExtra): { onToken: (text: string) => void; flush: () => void } | null {
+  if (extra._meta?.progressToken === undefined) return null;
+  let buffer = "";
+  const send = (data: string) =>
+    extra
+      .sendNotification({ method: "notifications/message", params: { level: "info", logger: "report", data } })
+      .catch(() => {});
+
+  return {
+    onToken(text) {
+      buffer += text;
+      const end = buffer.lastIndexOf("\n");
+      if (end === -1) return;
+      send(buffer.slice(0, end + 1));
+      buffer = buffer.slice(end + 1);
+    },
+    flush() {
+      if (buffer) send(buffer);
+      buffer = "";
+    },
+  };
+}
+
+// Text content mirrors structuredContent for clients that ignore outputSchema
+function toolResult(report: ToolReport<unknown>, reportId?: string): CallToolResult {
+  const content: CallToolResult["content"] = [];
+  if (report.markdown) content.push({ type: "text", text: report.markdown });
+  if (report.data) content.push({ type: "text", text: JSON.stringify(report.data, null, 2) });
+
+  return { content, structuredContent: reportEnvelope(report, reportId) };
+}
+
+const SSE_HEARTBEAT_MS = 5000;
+
+/**
+ * Runs an analysis as a server-sent event stream: `progress` per pipeline
+ * step, `token` as the report is written, then `result` (the same envelope as
+ * MCP structuredContent) or `error`. Closing the connection cancels the run.
+ */
+function streamAnalysis(
+  tool: AnalysisToolName,
+  params: Record<string, unknown>,
+  apiKey: string,
+  signal: AbortSignal,
+  headers: Record<string, string>
+): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        if (!closed && !signal.aborted) controller.enqueue(encoder.encode(chunk));
+      };
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      // Comments keep proxies and Bun's idle timeout from closing a quiet stream
+      const heartbeat = setInterval(() => write(": keep-alive\n\n"), SSE_HEARTBEAT_MS);
+
+      let step = 0;
+      try {
+        const { report, reportId } = await runAnalysis(tool, params, {
+          apiKey,
+          llm: await getKeyLLMSettings(apiKey),
+          signal,
+          progress: async (message) => {
+            signal.throwIfAborted();
+            send("progress", { step: ++step, message });
+          },
+          onToken: (text) => send("token", { text }),
+        });
+        send("result", reportEnvelope(report, reportId));
+      } catch (err: any) {
+        if (!signal.aborted) {
+          await log("error", `Streamed ${tool} failed: ${err.message}`);
+          send("error", { message: err.message });
+        }
+      } finally {
+        clearInterval(heartbeat);
+        if (!closed && !signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...headers,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
+
 // Export for Smithery tool scanning (no real credentials needed)
 export function createSandboxServer() {
   return createMcpServer();
@@ -145,6 +553,7 @@ if (typeof Bun !== "undefined" && !process.env.SMITHERY_SCAN) Bun.serve({
         version: "1.0.0",
         uptime: process.uptime(),
         activeSessions: Object.keys(transports).length,
+        cache: cacheStats(),
       });
     }
 
@@ -231,6 +640,29 @@ if (typeof Bun !== "undefined" && !process.env.SMITHERY_SCAN) Bun.serve({
       }
     }
 
+    if (url.pathname === "/api/keys/llm" && req.method === "POST") {
+      const adminSecret = req.headers.get("x-admin-secret");
+      if (adminSecret !== ADMIN_SECRET) {
+        return Response.json({ error: "Unauthorized" }, { status: 401, headers: corsHeaders });
+      }
+      try {
+        const body = await req.json();
+        const { key, llm } = body;
+        if (!key) {
+          return Response.json({ error: "key required" }, { status: 400, headers: corsHeaders });
+        }
+        if (llm?.provider) resolveProviderName(llm.provider);
+        const updated = await setKeyLLMSettings(key, llm || null);
+        if (!updated) {
+          return Response.json({ error: "Invalid key" }, { status: 404, headers: corsHeaders });
+        }
+        await log("info", "Updated LLM settings for key", { key: key.slice(0, 12), llm });
+        return Response.json({ key, llm: llm || null }, { headers: corsHeaders });
+      } catch (err: any) {
+        return Response.json({ error: err.message }, { status: 400, headers: corsHeaders });
+      }
+    }
+
     if (url.pathname === "/api/keys/usage" && req.method === "GET") {
       const key = url.searchParams.get("key") || req.headers.get("x-api-key");
       if (!key) {
@@ -243,6 +675,163 @@ if (typeof Bun !== "undefined" && !process.env.SMITHERY_SCAN) Bun.serve({
       return Response.json(usage, { headers: corsHeaders });
     }
 
+    // --- Report history, scoped to the caller's key ---
+    if (url.pathname === "/api/reports" || url.pathname.startsWith("/api/reports/")) {
+      const key = req.headers.get("x-api-key") || url.searchParams.get("key");
+      if (!key || !(await isKeyActive(key))) {
+        return Response.json({ error: "Valid API key required" }, { status: 401, headers: corsHeaders });
+      }
+
+      const id = url.pathname.slice("/api/reports/".length);
+      if (!id && req.method === "GET") {
+        const limit = parseInt(url.searchParams.get("limit") || "") || undefined;
+        const reports = await listReports(key, { tool: url.searchParams.get("tool") || undefined, limit });
+        return Response.json({ reports: reports.map(({ owner, ...r }) => r) }, { headers: corsHeaders });
+      }
+      if (id && req.method === "GET") {
+        const report = await getReport(key, id);
+        if (!report) return Response.json({ error: "Report not found" }, { status: 404, headers: corsHeaders });
+        // Content calendars download as a spreadsheet or calendar file with ?format=csv|ics
+        const format = url.searchParams.get("format");
+        if (format) {
+          const file = calendarFile(report, format);
+          if (!file) return Response.json({ error: `No ${format} export for this report` }, { status: 400, headers: corsHeaders });
+          return new Response(file.body, {
+            headers: {
+              ...corsHeaders,
+              "Content-Type": file.type,
+              "Content-Disposition": `attachment; filename="${report.id}.${format}"`,
+            },
+          });
+        }
+        const { owner, ...rest } = report;
+        return Response.json(rest, { headers: corsHeaders });
+      }
+      if (id && req.method === "DELETE") {
+        const deleted = await deleteReport(key, id);
+        if (!deleted) return Response.json({ error: "Report not found" }, { status: 404, headers: corsHeaders });
+        return Response.json({ deleted: id }, { headers: corsHeaders });
+      }
+      return Response.json({ error: "Method not allowed" }, { status: 405, headers: corsHeaders });
+    }
+
+    // Async jobs: POST /api/jobs to submit, GET /api/jobs[/:id] to poll, DELETE /api/jobs/:id to cancel
+    if (url.pathname === "/api/jobs" || url.pathname.startsWith("/api/jobs/")) {
+      const key = req.headers.get("x-api-key") || url.searchParams.get("key");
+      const id = url.pathname.slice("/api/jobs/".length);
+
+      if (!id && req.method === "POST") {
+        const check = await validateApiKey(key);
+        if (!key || !check.valid) {
+          return Response.json({ error: check.error }, { status: 401, headers: corsHeaders });
+        }
+        try {
+          const body = await req.json();
+          if (!isAnalysisTool(body?.tool)) {
+            return Response.json({ error: `tool must be one of: ${ANALYSIS_TOOL_NAMES.join(", ")}` }, { status: 400, headers: corsHeaders });
+          }
+          const input = parseAnalysisInput(body.tool, body.arguments);
+          if (body.webhook_url) await validateWebhookUrl(body.webhook_url);
+          await recordUsage(key);
+          const job = await submitJob(key, body.tool, input, body.webhook_url);
+          return Response.json({ job: publicJob(job) }, { status: 202, headers: corsHeaders });
+        } catch (err: any) {
+          return Response.json({ error: err.message }, { status: 400, headers: corsHeaders });
+        }
+      }
+
+      if (!key || !(await isKeyActive(key))) {
+        return Response.json({ error: "Valid API key required" }, { status: 401, headers: corsHeaders });
+      }
+      if (!id && req.method === "GET") {
+        const limit = parseInt(url.searchParams.get("limit") || "") || undefined;
+        const status = (url.searchParams.get("status") || undefined) as JobStatus | undefined;
+        const jobs = await listJobs(key, { status, limit });
+        return Response.json({ jobs: jobs.map(publicJob) }, { headers: corsHeaders });
+      }
+      if (id && req.method === "GET") {
+        const job = await getJob(key, id);
+        if (!job) return Response.json({ error: "Job not found" }, { status: 404, headers: corsHeaders });
+        const result = await jobReport(job);
+        return Response.json({ job: publicJob(job), ...(result ? { result } : {}) }, { headers: corsHeaders });
+      }
+      if (id && req.method === "DELETE") {
+        const job = await cancelJob(key, id);
+        if (!job) return Response.json({ error: "No queued or running job found" }, { status: 404, headers: corsHeaders });
+        return Response.json({ job: publicJob(job) }, { headers: corsHeaders });
+      }
+      return Response.json({ error: "Method not allowed" }, { status: 405, headers: corsHeaders });
+    }
+
+    // Monitors: POST /api/monitors to create, GET /api/monitors[/:id], DELETE /api/monitors/:id
+    if (url.pathname === "/api/monitors" || url.pathname.startsWith("/api/monitors/")) {
+      const key = req.headers.get("x-api-key") || url.searchParams.get("key");
+      if (!key || !(await isKeyActive(key))) {
+        return Response.json({ error: "Valid API key required" }, { status: 401, headers: corsHeaders });
+      }
+
+      const id = url.pathname.slice("/api/monitors/".length);
+      if (!id && req.method === "POST") {
+        try {
+          const body = await req.json();
+          if (!MONITOR_TOOLS.includes(body?.tool)) {
+            return Response.json({ error: `tool must be one of: ${MONITOR_TOOLS.join(", ")}` }, { status: 400, headers: corsHeaders });
+          }
+          if (!Object.hasOwn(MONITOR_INTERVALS, body.interval)) {
+            return Response.json({ error: `interval must be one of: ${Object.keys(MONITOR_INTERVALS).join(", ")}` }, { status: 400, headers: corsHeaders });
+          }
+          const monitor = await createMonitor(key, {
+            tool: body.tool,
+            input: parseAnalysisInput(body.tool, body.arguments),
+            interval: body.interval,
+            webhook_url: body.webhook_url,
+            email: body.email,
+          });
+          return Response.json({ monitor: publicMonitor(monitor) }, { status: 201, headers: corsHeaders });
+        } catch (err: any) {
+          return Response.json({ error: err.message }, { status: 400, headers: corsHeaders });
+        }
+      }
+      if (!id && req.method === "GET") {
+        const monitors = await listMonitors(key);
+        return Response.json({ monitors: monitors.map(publicMonitor) }, { headers: corsHeaders });
+      }
+      if (id && req.method === "GET") {
+        const monitor = await getMonitor(key, id);
+        if (!monitor) return Response.json({ error: "Monitor not found" }, { status: 404, headers: corsHeaders });
+        return Response.json({ monitor: publicMonitor(monitor) }, { headers: corsHeaders });
+      }
+      if (id && req.method === "DELETE") {
+        const deleted = await deleteMonitor(key, id);
+        if (!deleted) return Response.json({ error: "Monitor not found" }, { status: 404, headers: corsHeaders });
+        return Response.json({ deleted: id }, { headers: corsHeaders });
+      }
+      return Response.json({ error: "Method not allowed" }, { status: 405, headers: corsHeaders });
+    }
+
+    // Streaming analysis: POST /api/stream/<tool> with the tool arguments as the JSON body
+    if (url.pathname.startsWith("/api/stream/") && req.method === "POST") {
+      const key = req.headers.get("x-api-key") || url.searchParams.get("key");
+      const check = await validateApiKey(key);
+      if (!key || !check.valid) {
+        return Response.json({ error: check.error }, { status: 401, headers: corsHeaders });
+      }
+      const tool = url.pathname.slice("/api/stream/".length);
+      if (!isAnalysisTool(tool)) {
+        return Response.json({ error: `Unknown tool: ${tool}` }, { status: 404, headers: corsHeaders });
+      }
+
+      let params: Record<string, unknown>;
+      try {
+        params = parseAnalysisInput(tool, await req.json().catch(() => ({})));
+      } catch (err: any) {
+        return Response.json({ error: err.message }, { status: 400, headers: corsHeaders });
+      }
+
+      await recordUsage(key);
+      return streamAnalysis(tool, params, key, req.signal, corsHeaders);
+    }
+
     if (url.pathname === "/api/pricing") {
       return Response.json({
         tiers: Object.entries(TIER_LIMITS).map(([tier, limit]) => ({
@@ -308,7 +897,7 @@ if (typeof Bun !== "undefined" && !process.env.SMITHERY_SCAN) Bun.serve({
           try {
             const cloned = req.clone();
             const body = await cloned.json();
-            if (body?.method === "tools/call") {
+            if (body?.method === "tools/call" && !FREE_TOOLS.has(body?.params?.name)) {
               if (!apiKey) {
                 return Response.json(
                   { jsonrpc: "2.0", error: { code: -32001, message: "API key required for tool calls. Get a free key at https://social.ezbizservices.com" }, id: body?.id || null },
@@ -341,7 +930,7 @@ if (typeof Bun !== "undefined" && !process.env.SMITHERY_SCAN) Bun.serve({
             enableJsonResponse: true,
           });
 
-          const mcpServer = createMcpServer();
+          const mcpServer = createMcpServer(apiKey || undefined);
           await mcpServer.connect(transport);
 
           if (apiKey) await recordUsage(apiKey);
@@ -436,7 +1025,11 @@ if (typeof Bun !== "undefined" && !process.env.SMITHERY_SCAN) Bun.serve({
   },
 });
 
-if (typeof Bun !== "undefined" && !process.env.SMITHERY_SCAN) console.log(`MCP Social Media Analytics server running on port ${PORT}`);
+if (typeof Bun !== "undefined" && !process.env.SMITHERY_SCAN) {
+  console.log(`MCP Social Media Analytics server running on port ${PORT}`);
+  resumeJobs().catch((err) => log("error", `Failed to resume jobs: ${err.message}`));
+  startMonitorScheduler();
+}
 
 process.on("SIGINT", async () => {
   console.log("Shutting down...");
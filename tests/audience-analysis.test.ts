@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { groundPersona } from "../tools/audience-analysis";
+import type { Persona } from "../tools/audience-analysis";
+
+const attr = (confidence: "low" | "medium" | "high", sources: number[]) => ({ value: "x", confidence, sources });
+const list = (confidence: "low" | "medium" | "high", sources: number[]) => ({ values: ["x"], confidence, sources });
+
+const persona: Persona = {
+  name: "Weekend makers",
+  summary: "Hobbyists who build on weekends",
+  share_estimate: "~40%",
+  demographics: {
+    age_range: attr("high", [1, 2]),
+    gender: attr("high", [1, 9]),
+    location: attr("high", [9]),
+    occupation: attr("medium", [2, 2]),
+    income: attr("low", [1, 2]),
+  },
+  interests: list("high", [1, 2, 3]),
+  pain_points: list("medium", []),
+  active_hours: attr("high", [3]),
+  platform_mix: list("high", [2, 3]),
+};
+
+describe("groundPersona", () => {
+  const grounded = groundPersona(persona, new Set([1, 2, 3]));
+
+  test("drops citations of sources the model was not shown", () => {
+    expect(grounded.demographics.gender.sources).toEqual([1]);
+    expect(grounded.demographics.location.sources).toEqual([]);
+    expect(grounded.demographics.occupation.sources).toEqual([2]);
+  });
+
+  test("caps confidence by the sources left", () => {
+    expect(grounded.demographics.age_range.confidence).toBe("high");
+    expect(grounded.demographics.gender.confidence).toBe("medium");
+    expect(grounded.demographics.location.confidence).toBe("low");
+    expect(grounded.demographics.occupation.confidence).toBe("medium");
+    expect(grounded.pain_points.confidence).toBe("low");
+    expect(grounded.active_hours.confidence).toBe("medium");
+  });
+
+  test("never raises the model's confidence", () => {
+    expect(grounded.demographics.income.confidence).toBe("low");
+    expect(grounded.interests.confidence).toBe("high");
+  });
+
+  test("keeps the rest of the persona", () => {
+    expect(grounded).toMatchObject({ name: persona.name, summary: persona.summary, share_estimate: "~40%" });
+    expect(grounded.platform_mix.values).toEqual(["x"]);
+  });
+});
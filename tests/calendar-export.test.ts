@@ -0,0 +1,94 @@
+import { describe, expect, test } from "bun:test";
+import { calendarCsv, calendarIcs, zonedTimeToUtc } from "../lib/calendar-export";
+import type { CalendarPost } from "../lib/calendar-export";
+import { getPlatform } from "../lib/platforms";
+import { scheduleSlots } from "../tools/content-calendar";
+
+const posts: CalendarPost[] = [
+  {
+    date: "2026-11-02",
+    time: "09:30",
+    platform: "instagram",
+    format: "Reel",
+    hook: "Meet the new anvil",
+    caption: 'Drop-tested, "guaranteed", and ready',
+    hashtags: ["#anvils", "#acme"],
+    trend: null,
+  },
+  {
+    date: "2026-11-03",
+    time: "18:00",
+    platform: "linkedin",
+    format: "text post",
+    hook: "=HYPERLINK(\"http://evil\")",
+    caption: "Line one\nLine two; with, punctuation",
+    hashtags: [],
+    trend: "Behind the scenes",
+  },
+];
+
+describe("calendarCsv", () => {
+  test("quotes fields with commas, quotes and newlines and escapes formula-like text", () => {
+    expect(calendarCsv(posts).split("\r\n")).toEqual([
+      "date,time,platform,format,hook,caption,hashtags,trend",
+      '2026-11-02,09:30,instagram,Reel,Meet the new anvil,"Drop-tested, ""guaranteed"", and ready",#anvils #acme,',
+      `2026-11-03,18:00,linkedin,text post,"'=HYPERLINK(""http://evil"")","Line one\nLine two; with, punctuation",,Behind the scenes`,
+      "",
+    ]);
+  });
+});
+
+describe("calendarIcs", () => {
+  const lines = (ics: string) => ics.split("\r\n");
+
+  test("writes floating local start times without a timezone", () => {
+    const ics = lines(calendarIcs(posts, { name: "Acme" }));
+    expect(ics).toContain("DTSTART:20261102T093000");
+    expect(ics).toContain("DURATION:PT30M");
+    expect(ics.some((l) => l.startsWith("X-WR-TIMEZONE"))).toBe(false);
+  });
+
+  test("converts start times to UTC with a timezone", () => {
+    const ics = lines(calendarIcs(posts, { name: "Acme", timezone: "America/New_York", durationMinutes: 45 }));
+    expect(ics).toContain("X-WR-TIMEZONE:America/New_York");
+    // New York is on EST (UTC-5) after the first Sunday of November
+    expect(ics).toContain("DTSTART:20261102T143000Z");
+    expect(ics).toContain("DTSTART:20261103T230000Z");
+    expect(ics).toContain("DURATION:PT45M");
+  });
+
+  test("escapes text and folds lines at 75 octets", () => {
+    const ics = calendarIcs(posts, { name: "Acme" });
+    expect(ics).toContain("SUMMARY:[linkedin] =HYPERLINK(\"http://evil\")");
+    expect(ics).toContain("DESCRIPTION:Line one\\nLine two\\; with\\, punctuation\\n\\nTrend: Behind the sc\r\n enes");
+    for (const line of lines(ics)) expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+  });
+});
+
+describe("zonedTimeToUtc", () => {
+  test("uses the offset in effect on each side of a DST change", () => {
+    expect(zonedTimeToUtc("2026-03-28", "12:00", "Europe/Berlin").toISOString()).toBe("2026-03-28T11:00:00.000Z");
+    expect(zonedTimeToUtc("2026-03-29", "12:00", "Europe/Berlin").toISOString()).toBe("2026-03-29T10:00:00.000Z");
+  });
+});
+
+describe("scheduleSlots", () => {
+  test("spreads posts evenly and offsets platforms from each other", () => {
+    const slots = scheduleSlots([getPlatform("instagram")!, getPlatform("linkedin")!], "2026-11-02", 14, 2);
+    expect(slots.map((s) => `${s.slot} ${s.date} ${s.platform.id}`)).toEqual([
+      "1 2026-11-02 instagram",
+      "2 2026-11-03 linkedin",
+      "3 2026-11-05 instagram",
+      "4 2026-11-07 linkedin",
+      "5 2026-11-09 instagram",
+      "6 2026-11-10 linkedin",
+      "7 2026-11-12 instagram",
+      "8 2026-11-14 linkedin",
+    ]);
+  });
+
+  test("plans at least one post per platform", () => {
+    expect(scheduleSlots([getPlatform("twitter")!], "2026-11-02", 3, 1)).toHaveLength(1);
+  });
+});
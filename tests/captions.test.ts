@@ -0,0 +1,108 @@
+import { describe, expect, test } from "bun:test";
+import { captionMetrics, hashtagRange, ruleScores } from "../lib/captions";
+import { getPlatform } from "../lib/platforms";
+import { fitCaption } from "../tools/post-drafting";
+
+const instagram = getPlatform("instagram")!;
+const twitter = getPlatform("twitter")!;
+const caption = "Our new anvil drops today. Comment below with your favorite color! 🔨\n\n#anvils #acme #desk #followforfollow #fyp #fyp";
+
+describe("captionMetrics", () => {
+  const m = captionMetrics(caption, instagram);
+
+  test("measures length, hook and sentences", () => {
+    expect(m).toMatchObject({
+      length: 116,
+      max_length: 2200,
+      over_limit: false,
+      hook: "Our new anvil drops today.",
+      hook_length: 26,
+      hook_in_preview: true,
+      words: 11,
+      sentences: 2,
+      avg_words_per_sentence: 5.5,
+      reading_ease: 63,
+      cta: ["comment below"],
+      emoji: 1,
+      line_breaks: 2,
+    });
+  });
+
+  test("checks each distinct hashtag against the safety dataset", () => {
+    expect(m.hashtags.map((h) => [h.tag, h.status])).toEqual([
+      ["#anvils", "safe"],
+      ["#acme", "safe"],
+      ["#desk", "restricted"],
+      ["#followforfollow", "restricted"],
+      ["#fyp", "overused"],
+    ]);
+    expect(m.hashtag_fit).toBe("within");
+  });
+
+  test("skips reading ease outside English", () => {
+    const de = captionMetrics("Neue Ambosse sind da. Jetzt bestellen", twitter, "de");
+    expect(de.reading_ease).toBeNull();
+    expect(de.hashtag_fit).toBe("under");
+    expect(de.cta).toEqual([]);
+  });
+
+  test("flags captions over the platform limit", () => {
+    expect(captionMetrics("x".repeat(281), twitter).over_limit).toBe(true);
+  });
+});
+
+describe("ruleScores", () => {
+  test("takes points off for flagged and overused hashtags", () => {
+    const m = captionMetrics(caption, instagram);
+    // Within range, two restricted tags (-6) and one overused (-1)
+    expect(ruleScores(m)).toEqual({ readability: 6, cta: 10, hashtags: 3 });
+  });
+
+  test("falls back to sentence length for readability and honors the model's CTA verdict", () => {
+    const m = captionMetrics("Neue Ambosse sind da. Jetzt bestellen", twitter, "de");
+    expect(ruleScores(m)).toEqual({ readability: 10, cta: 2, hashtags: 8 });
+    expect(ruleScores(m, true).cta).toBe(10);
+  });
+});
+
+describe("hashtagRange", () => {
+  test("parses ranges and single counts", () => {
+    expect(hashtagRange("3-5")).toEqual([3, 5]);
+    expect(hashtagRange("1")).toEqual([1, 1]);
+  });
+});
+
+describe("fitCaption", () => {
+  test("appends hashtags when the caption fits", () => {
+    expect(fitCaption("Short.", ["#a", "#bb"], 30)).toEqual({ caption: "Short.\n\n#a #bb", hashtags: ["#a", "#bb"], shortened: false });
+  });
+
+  test("drops hashtags from the end before cutting text", () => {
+    expect(fitCaption("Twenty characters ok", ["#one", "#two"], 26)).toEqual({
+      caption: "Twenty characters ok\n\n#one",
+      hashtags: ["#one"],
+      shortened: true,
+    });
+  });
+
+  test("cuts middle sentences and keeps the hook and closing line", () => {
+    expect(fitCaption("First sentence. Second one here. Third!", ["#a"], 30)).toEqual({
+      caption: "First sentence. Third!\n\n#a",
+      hashtags: ["#a"],
+      shortened: true,
+    });
+  });
+
+  test("keeps the hashtags that fit once an over-limit body is cut", () => {
+    const body = "New anvils are here.\n\nWe rebuilt every one from scratch with harder steel and a lifetime warranty. Same price as before.\n\nTap the link in bio to order!";
+    expect(fitCaption(body, ["#anvils", "#acme", "#tools", "#blacksmithing"], 80)).toEqual({
+      caption: "New anvils are here.\n\nTap the link in bio to order!\n\n#anvils #acme #tools",
+      hashtags: ["#anvils", "#acme", "#tools"],
+      shortened: true,
+    });
+  });
+
+  test("truncates with an ellipsis when there is no sentence break", () => {
+    expect(fitCaption("Onelongwordwithoutanybreaksatall", [], 10).caption).toBe("Onelongwo…");
+  });
+});
@@ -0,0 +1,134 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { engagementStats, fetchPlatformProfile, getConnector } from "../lib/connectors";
+import { connectorFetch } from "../lib/connectors/http";
+
+const savedEnv = { ...process.env };
+
+beforeAll(() => {
+  process.env.CONNECTOR_MODE = "replay";
+  process.env.CONNECTOR_FIXTURES_DIR = join(import.meta.dir, "fixtures", "connectors");
+  delete process.env.INSTAGRAM_BUSINESS_ACCOUNT_ID;
+});
+
+afterAll(() => {
+  process.env = savedEnv;
+});
+
+describe("connector replay", () => {
+  test("replay mode needs no credentials", () => {
+    delete process.env.TWITTER_BEARER_TOKEN;
+    expect(getConnector("Twitter")?.platform).toBe("twitter");
+  });
+
+  test("twitter maps the user and recent tweets", async () => {
+    const profile = await fetchPlatformProfile("twitter", "@acme");
+    expect(profile).toMatchObject({
+      platform: "twitter",
+      handle: "Acme",
+      url: "https://x.com/Acme",
+      display_name: "Acme Co",
+      followers: 12500,
+      following: 180,
+      post_count: 4200,
+      verified: true,
+    });
+    expect(profile!.recent_posts[0]).toEqual({
+      id: "2002",
+      url: "https://x.com/Acme/status/2002",
+      text: "New anvils are in stock",
+      published_at: "2026-10-01T15:00:00.000Z",
+      likes: 120,
+      comments: 14,
+      shares: 36,
+      views: 9800,
+    });
+  });
+
+  test("instagram maps business discovery", async () => {
+    const profile = await fetchPlatformProfile("instagram", "acme");
+    expect(profile).toMatchObject({ handle: "acme", followers: 48000, following: 12, post_count: 310 });
+    expect(profile!.recent_posts).toEqual([
+      {
+        id: "17890",
+        url: "https://www.instagram.com/p/abc123/",
+        text: "Behind the scenes #anvils",
+        published_at: "2026-10-02T09:30:00+0000",
+        likes: 1500,
+        comments: 42,
+      },
+    ]);
+  });
+
+  test("tiktok maps the user and videos from the 30-day query", async () => {
+    // The query window moves with the clock; fixtures match regardless of the recording date
+    const profile = await fetchPlatformProfile("tiktok", "acme");
+    expect(profile).toMatchObject({ handle: "acme", followers: 90000, post_count: 85, verified: false });
+    expect(profile!.recent_posts).toEqual([
+      {
+        id: "7301234567890124",
+        url: "https://www.tiktok.com/@acme/video/7301234567890124",
+        text: "Anvil drop test #acme",
+        published_at: "2025-10-03T14:00:00.000Z",
+        likes: 5400,
+        comments: 210,
+        shares: 95,
+        views: 120000,
+      },
+      expect.objectContaining({ id: "7301234567890001", published_at: "2025-09-26T15:20:00.000Z" }),
+    ]);
+  });
+
+  test("API errors and missing fixtures fall back to search", async () => {
+    expect(await fetchPlatformProfile("twitter", "ghost")).toBeNull();
+    expect(await fetchPlatformProfile("linkedin", "acme")).toBeNull();
+    expect(await fetchPlatformProfile("youtube", "acme")).toBeNull();
+  });
+
+  test("a cancelled call is not swallowed", async () => {
+    const controller = new AbortController();
+    controller.abort(new Error("cancelled"));
+    await expect(fetchPlatformProfile("linkedin", "acme", controller.signal)).rejects.toThrow();
+  });
+});
+
+describe("engagementStats", () => {
+  test("averages interactions per post against followers", async () => {
+    const profile = await fetchPlatformProfile("twitter", "acme");
+    expect(engagementStats(profile!)).toEqual({
+      posts_analyzed: 2,
+      avg_likes: 100,
+      avg_comments: 10,
+      avg_shares: 23,
+      engagement_rate: 1.06,
+      posts_per_week: 1,
+    });
+  });
+});
+
+describe("connector recording", () => {
+  test("fixtures keep neither credentials nor request bodies", async () => {
+    const server = Bun.serve({ port: 0, fetch: () => Response.json({ ok: true }) });
+    const dir = await mkdtemp(join(tmpdir(), "connector-fixtures-"));
+    process.env.CONNECTOR_MODE = "record";
+    process.env.CONNECTOR_FIXTURES_DIR = dir;
+    try {
+      const body = JSON.stringify({ username: "acme", client_secret: "s3cret" });
+      await connectorFetch("tiktok", `http://127.0.0.1:${server.port}/v2/query?access_token=t0ken&fields=id`, { method: "POST", body });
+
+      const [file] = await readdir(dir);
+      const text = await readFile(join(dir, file), "utf-8");
+      expect(text).not.toContain("t0ken");
+      expect(text).not.toContain("s3cret");
+      expect(text).not.toContain("acme");
+      expect(JSON.parse(text)).toEqual({ method: "POST", url: `http://127.0.0.1:${server.port}/v2/query?fields=id`, status: 200, body: { ok: true } });
+    } finally {
+      process.env.CONNECTOR_MODE = "replay";
+      process.env.CONNECTOR_FIXTURES_DIR = join(import.meta.dir, "fixtures", "connectors");
+      server.stop(true);
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
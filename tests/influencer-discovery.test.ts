@@ -0,0 +1,23 @@
+import { describe, expect, test } from "bun:test";
+import { parseFollowers } from "../tools/influencer-discovery";
+
+describe("parseFollowers", () => {
+  test("reads plain counts with thousands separators", () => {
+    expect(parseFollowers("1,204 subscribers")).toBe(1204);
+    expect(parseFollowers("Joined 2019 · 12.345.678 followers")).toBe(12345678);
+    expect(parseFollowers("850 fans")).toBe(850);
+  });
+
+  test("scales K and M suffixes, with decimal points or commas", () => {
+    expect(parseFollowers("12.5K followers")).toBe(12500);
+    expect(parseFollowers("1,2K Followers")).toBe(1200);
+    expect(parseFollowers("3M+ followers on TikTok")).toBe(3000000);
+    expect(parseFollowers("2.4 million subscribers")).toBe(2400000);
+    expect(parseFollowers("40 thousand followers")).toBe(40000);
+  });
+
+  test("returns null without a follower count", () => {
+    expect(parseFollowers("Following 300 accounts")).toBeNull();
+    expect(parseFollowers("followers: many")).toBeNull();
+  });
+});
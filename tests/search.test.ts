@@ -0,0 +1,109 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { join } from "path";
+import { braveProvider, duckDuckGoProvider, loadSearchProviders, searxngProvider } from "../lib/search";
+
+const FIXTURES = join(import.meta.dir, "fixtures", "search");
+const USER_AGENT = "test-agent";
+
+let server: ReturnType<typeof Bun.serve>;
+let base: string;
+const requests: string[] = [];
+const savedEnv = { ...process.env };
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    fetch(req) {
+      const url = new URL(req.url);
+      requests.push(url.pathname);
+      switch (url.pathname) {
+        case "/ddg":
+          return new Response(Bun.file(join(FIXTURES, "duckduckgo.html")), { headers: { "Content-Type": "text/html" } });
+        // DDG's throttling challenge
+        case "/ddg-throttled":
+          return new Response("challenge", { status: 202 });
+        case "/brave":
+          return new Response(Bun.file(join(FIXTURES, "brave.json")));
+        case "/brave-down":
+          return new Response("unavailable", { status: 503 });
+        case "/searxng/search":
+          return new Response(Bun.file(join(FIXTURES, "searxng.json")));
+        default:
+          return new Response("not found", { status: 404 });
+      }
+    },
+  });
+  base = `http://127.0.0.1:${server.port}`;
+});
+
+afterAll(() => {
+  server.stop(true);
+  process.env = savedEnv;
+});
+
+describe("search providers", () => {
+  test("duckduckgo unwraps redirect links and skips relative ones", async () => {
+    const results = await duckDuckGoProvider({ userAgent: USER_AGENT, baseUrl: `${base}/ddg` }).search("growth", 10);
+    expect(results).toEqual([
+      { title: "Growth playbook", url: "https://example.com/growth", snippet: "How brands grow on short video", provider: "duckduckgo" },
+      { title: "Trends report", url: "https://example.org/trends", snippet: "Quarterly social trends", provider: "duckduckgo" },
+    ]);
+  });
+
+  test("brave trims fields, drops non-http URLs and stops at maxResults", async () => {
+    const results = await braveProvider({ userAgent: USER_AGENT, baseUrl: `${base}/brave`, apiKey: "k" }).search("creators", 2);
+    expect(results.map((r) => r.url)).toEqual(["https://brave.example/creators", "https://brave.example/second"]);
+    expect(results[0]).toMatchObject({ title: "Creator economy", snippet: "Creator economy stats", provider: "brave" });
+  });
+
+  test("searxng reads the JSON results format", async () => {
+    const results = await searxngProvider({ userAgent: USER_AGENT, baseUrl: `${base}/searxng/` }).search("hit", 5);
+    expect(results.map((r) => r.provider)).toEqual(["searxng"]);
+  });
+
+  test("a throttled duckduckgo response is an error", async () => {
+    const ddg = duckDuckGoProvider({ userAgent: USER_AGENT, baseUrl: `${base}/ddg-throttled` });
+    await expect(ddg.search("growth", 10)).rejects.toThrow("HTTP 202");
+  });
+});
+
+describe("loadSearchProviders", () => {
+  test("defaults to duckduckgo followed by configured providers", () => {
+    process.env = { ...savedEnv, BRAVE_API_KEY: "k", SEARXNG_URL: "http://searx.local" };
+    delete process.env.SEARCH_PROVIDERS;
+    delete process.env.BING_API_KEY;
+    delete process.env.SERPAPI_API_KEY;
+    expect(loadSearchProviders(USER_AGENT).map((p) => p.name)).toEqual(["duckduckgo", "brave", "searxng"]);
+  });
+
+  test("SEARCH_PROVIDERS sets the order and rejects unknown or unconfigured names", () => {
+    process.env = { ...savedEnv, BRAVE_API_KEY: "k", SEARCH_PROVIDERS: "brave, DuckDuckGo" };
+    expect(loadSearchProviders(USER_AGENT).map((p) => p.name)).toEqual(["brave", "duckduckgo"]);
+
+    process.env.SEARCH_PROVIDERS = "altavista";
+    expect(() => loadSearchProviders(USER_AGENT)).toThrow("Unknown search provider in SEARCH_PROVIDERS: altavista");
+
+    delete process.env.BING_API_KEY;
+    process.env.SEARCH_PROVIDERS = "bing";
+    expect(() => loadSearchProviders(USER_AGENT)).toThrow("Search provider bing is not configured");
+  });
+});
+
+describe("searchWeb", () => {
+  test("falls back through failing providers to the first one with results", async () => {
+    process.env.SEARCH_PROVIDERS = "duckduckgo,brave,searxng";
+    process.env.DUCKDUCKGO_URL = `${base}/ddg-throttled`;
+    process.env.BRAVE_API_KEY = "k";
+    process.env.BRAVE_SEARCH_URL = `${base}/brave-down`;
+    process.env.SEARXNG_URL = `${base}/searxng`;
+    // The provider chain is built from env on first use
+    const { searchWeb } = await import("../lib/scraper");
+
+    requests.length = 0;
+    const results = await searchWeb("fallback chain test", 5);
+    expect(requests).toEqual(["/ddg-throttled", "/brave-down", "/searxng/search"]);
+    expect(results).toEqual([
+      { title: "Fallback hit", url: "https://searx.example/hit", snippet: "Found by the last provider", provider: "searxng" },
+    ]);
+  });
+});
@@ -0,0 +1,56 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { listProfileSnapshots, saveProfileSnapshot } from "../lib/snapshots";
+
+// The store lives in the server's data directory, so it is put back afterwards
+const STORE = join(import.meta.dir, "..", "data", "profile-snapshots.json");
+let saved: string | null = null;
+
+beforeAll(async () => {
+  saved = await readFile(STORE, "utf-8").catch(() => null);
+  await rm(STORE, { force: true });
+});
+
+afterAll(async () => {
+  if (saved === null) await rm(STORE, { force: true });
+  else await writeFile(STORE, saved);
+});
+
+const facts = {
+  bio: null,
+  followers: 100,
+  follower_indicators: [],
+  og_tags: {},
+  platforms_present: [],
+  content_themes: null,
+  completeness_score: null,
+  source_urls: [],
+};
+
+describe("profile snapshots", () => {
+  test("one owner's re-runs do not push out another owner's history", async () => {
+    await saveProfileSnapshot({ ...facts, owner: "key_a", username: "@Acme", platform: "twitter" });
+    for (let i = 0; i < 55; i++) {
+      await saveProfileSnapshot({ ...facts, owner: "key_b", username: "acme", platform: "twitter", followers: i });
+    }
+
+    const a = await listProfileSnapshots("key_a", "acme", "twitter");
+    const b = await listProfileSnapshots("key_b", "ACME", "twitter");
+    expect(a.map((s) => s.followers)).toEqual([100]);
+    // Capped at 50 per owner, oldest dropped first
+    expect(b).toHaveLength(50);
+    expect(b[0].followers).toBe(5);
+    expect(b.every((s) => s.owner === "key_b")).toBe(true);
+  });
+
+  test("lists snapshots stored before keys included the owner", async () => {
+    const store = JSON.parse(await readFile(STORE, "utf-8"));
+    const old = { ...facts, id: "snap_old", owner: "key_a", username: "acme", platform: "twitter", created: "2026-01-01T00:00:00.000Z" };
+    store.profiles["twitter:acme"] = [old, { ...old, id: "snap_other", owner: "key_c" }];
+    await writeFile(STORE, JSON.stringify(store));
+
+    expect((await listProfileSnapshots("key_a", "acme", "twitter")).map((s) => s.id)[0]).toBe("snap_old");
+    expect(await listProfileSnapshots("key_c", "acme", "twitter")).toHaveLength(1);
+  });
+});
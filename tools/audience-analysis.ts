@@ -0,0 +1,512 @@
+import type { SearchResult } from "../lib/scraper";
+import { z } from "zod";
+import { addUsage, generateReport } from "../lib/report";
+import { createSourceTracker } from "../lib/sources";
+import type { OutputFormat, ReportUsage, ToolContext, ToolReport } from "../lib/report";
+import { analyzeJSON } from "../lib/openai";
+import { log } from "../lib/logger";
+import { currentYear, rankByFreshness, STALE_AFTER_DAYS } from "../lib/dates";
+import { getPlatform, platformDomain, platformPromptContext } from "../lib/platforms";
+import { fetchPlatformProfile, platformDataContext, PLATFORM_DATA_INSTRUCTIONS } from "../lib/connectors";
+import type { PlatformProfile } from "../lib/connectors";
+import { LANGUAGES, localeTag, localQueries, resolveLocale } from "../lib/locale";
+import type { LocaleInput } from "../lib/locale";
+
+export const targetPersonaSchema = z.object({
+  name: z.string().optional(),
+  description: z.string().optional(),
+  age_range: z.string().optional(),
+  gender: z.string().optional(),
+  locations: z.array(z.string()).optional(),
+  occupation: z.string().optional(),
+  income: z.string().optional(),
+  interests: z.array(z.string()).optional(),
+  pain_points: z.array(z.string()).optional(),
+  active_hours: z.string().optional(),
+  platforms: z.array(z.string()).optional(),
+});
+
+export type TargetPersona = z.infer<typeof targetPersonaSchema>;
+
+export interface AnalyzeAudienceInput extends LocaleInput {
+  handle_or_brand: string;
+  platform?: string;
+  personas?: number;
+  target_persona?: TargetPersona;
+  output_format?: OutputFormat;
+}
+
+const CONFIDENCE = ["low", "medium", "high"] as const;
+type Confidence = (typeof CONFIDENCE)[number];
+
+const attributeSchema = z.object({
+  value: z.string(),
+  confidence: z.enum(CONFIDENCE),
+  sources: z.array(z.number()),
+});
+
+const listAttributeSchema = z.object({
+  values: z.array(z.string()),
+  confidence: z.enum(CONFIDENCE),
+  sources: z.array(z.number()),
+});
+
+const personaSchema = z.object({
+  name: z.string(),
+  summary: z.string(),
+  share_estimate: z.string().nullable().describe("Rough share of the audience, e.g. '~40%'; null when the evidence gives no basis"),
+  demographics: z.object({
+    age_range: attributeSchema,
+    gender: attributeSchema,
+    location: attributeSchema,
+    occupation: attributeSchema,
+    income: attributeSchema,
+  }),
+  interests: listAttributeSchema,
+  pain_points: listAttributeSchema,
+  active_hours: attributeSchema,
+  platform_mix: listAttributeSchema,
+});
+
+export type Persona = z.infer<typeof personaSchema>;
+
+// Target fields compared against personas, with the persona attribute each maps to
+const COMPARED_FIELDS = {
+  age_range: "demographics.age_range",
+  gender: "demographics.gender",
+  locations: "demographics.location",
+  occupation: "demographics.occupation",
+  income: "demographics.income",
+  interests: "interests",
+  pain_points: "pain_points",
+  active_hours: "active_hours",
+  platforms: "platform_mix",
+} as const;
+
+type ComparedField = keyof typeof COMPARED_FIELDS;
+
+const ALIGNMENT = ["match", "partial", "mismatch", "unknown"] as const;
+const ALIGNMENT_SCORE: Record<(typeof ALIGNMENT)[number], number | null> = { match: 1, partial: 0.5, mismatch: 0, unknown: null };
+
+const comparisonSchema = z.object({
+  personas: z.array(
+    z.object({
+      index: z.number(),
+      fields: z.array(z.object({ field: z.string(), alignment: z.enum(ALIGNMENT), note: z.string() })),
+    })
+  ),
+});
+
+const activeHourSchema = z.object({
+  hour_utc: z.number(),
+  posts: z.number(),
+  avg_interactions: z.number(),
+});
+
+export const audienceDataSchema = z.object({
+  handle_or_brand: z.string(),
+  platform: z.string().nullable(),
+  personas: z.array(personaSchema),
+  measured: z.object({
+    followers: z.number().nullable(),
+    active_hours: z
+      .array(activeHourSchema)
+      .nullable()
+      .describe("Posting hours (UTC) of recent posts ranked by average interactions; platform API only"),
+  }),
+  comparison: z
+    .object({
+      target: targetPersonaSchema,
+      personas: z.array(
+        z.object({
+          persona: z.string(),
+          match_score: z.number().nullable().describe("0-100 across the target fields that could be judged"),
+          fields: z.array(
+            z.object({ field: z.string(), target: z.string(), persona: z.string(), alignment: z.enum(ALIGNMENT), note: z.string() })
+          ),
+        })
+      ),
+      best_match: z.string().nullable(),
+      gaps: z.array(z.string()).describe("Target attributes no persona matches even partly"),
+    })
+    .nullable(),
+  warnings: z.array(z.string()).describe("Fewer personas than requested"),
+  summary: z.string(),
+  recommendations: z.array(z.string()),
+});
+
+export type AudienceData = z.infer<typeof audienceDataSchema>;
+
+const audienceCommentarySchema = z.object({
+  summary: z.string(),
+  recommendations: z.array(z.string()),
+});
+
+const AUDIENCE_JSON_PROMPT = `You are an audience research analyst. Summarize the commentary in an audience persona report as JSON with exactly these fields:
+{
+  "summary": string (2-3 sentences),
+  "recommendations": string[]
+}`;
+
+const PERSONA_PROMPT = `You are an audience research analyst. Build audience personas from the evidence given: who follows, buys from or talks about the brand. Return JSON:
+{
+  "personas": [{
+    "name": string (a short descriptive label, e.g. "Budget-conscious student"),
+    "summary": string (one or two sentences),
+    "share_estimate": string | null,
+    "demographics": {
+      "age_range": Attribute, "gender": Attribute, "location": Attribute, "occupation": Attribute, "income": Attribute
+    },
+    "interests": ListAttribute,
+    "pain_points": ListAttribute,
+    "active_hours": Attribute (times of day and days the persona is online, with timezone),
+    "platform_mix": ListAttribute (platforms the persona uses, most used first)
+  }]
+}
+Attribute is { "value": string, "confidence": "low" | "medium" | "high", "sources": number[] }.
+ListAttribute is { "values": string[], "confidence": "low" | "medium" | "high", "sources": number[] }.
+"sources" lists the numbers of the evidence items that support the attribute. Use "high" only when several sources agree, "medium" for one direct source, and "low" for inferences from general platform or category demographics. When nothing supports an attribute, give your best inference with "low" confidence and an empty sources list; never cite a source that does not say so.`;
+
+const COMPARISON_PROMPT = `You compare audience personas against a target persona. For each persona and each target field listed, judge how well the persona's attribute matches:
+{
+  "personas": [{ "index": number (the persona's number as given), "fields": [{ "field": string (as given), "alignment": "match" | "partial" | "mismatch" | "unknown", "note": string (one short sentence) }] }]
+}
+Use "unknown" when the persona's attribute is a low-confidence guess that cannot be compared meaningfully.`;
+
+export async function analyzeAudience(
+  input: AnalyzeAudienceInput,
+  ctx: ToolContext = {}
+): Promise<ToolReport<AudienceData>> {
+  const { handle_or_brand, platform, target_persona, output_format } = input;
+  const info = platform ? getPlatform(platform) : null;
+  if (platform && !info) throw new Error(`Unknown platform: ${platform}`);
+  const target = target_persona && hasTargetFields(target_persona) ? target_persona : null;
+  if (target_persona && !target) throw new Error("target_persona needs at least one attribute to compare.");
+  const count = Math.min(Math.max(input.personas || 3, 2), 4);
+  const locale = resolveLocale(input);
+  await log("info", "Starting audience analysis", { handle_or_brand, platform, locale: localeTag(locale) });
+  const sources = createSourceTracker({ ...ctx, locale });
+
+  const name = handle_or_brand.trim().replace(/^@/, "");
+  const platformStr = info?.label || "social media";
+  const cited = new Set<number>();
+  const cite = (url: string) => {
+    const id = sources.ref(url);
+    cited.add(id);
+    return id;
+  };
+
+  // Step 1: Measured followers and posting-time engagement when a platform connector is configured
+  const looksLikeHandle = /^@?[\w.]+$/.test(handle_or_brand.trim());
+  const profile = platform && looksLikeHandle ? await fetchPlatformProfile(platform, handle_or_brand, ctx.signal) : null;
+  const apiSource = profile
+    ? sources.record(profile.url, `${profile.platform} API: @${profile.handle}`, `${profile.platform}-api`)
+    : null;
+  if (apiSource !== null) cited.add(apiSource);
+  const apiContext = profile && apiSource !== null ? platformDataContext(profile, apiSource) : "";
+  const activeHours = profile ? postingHours(profile) : null;
+
+  // Step 2: Search for audience evidence — demographics, customers, reviews and community discussion
+  const queries = [
+    `${name} audience demographics`,
+    `${name} target audience customers`,
+    `who buys ${name}`,
+    `${name} reviews customers`,
+    `${name} reddit`,
+    `${name} ${platformStr} followers`,
+    ...(platform && looksLikeHandle ? [`"${name}" site:${platformDomain(platform, name)}`] : []),
+    ...localQueries(locale, ["brand", "profile"], { brand: name, platform: info?.label || "" }),
+  ];
+  const allResults: SearchResult[] = [];
+  for (const q of queries) {
+    const results = await sources.search(q, 8);
+    allResults.push(...results);
+  }
+  // Platform-wide demographics are the fallback for low-confidence attributes
+  const platformResults = await sources.search(`${info?.label || "social media"} user demographics ${currentYear()}`, 5);
+
+  // Deduplicate
+  const seen = new Set<string>();
+  const unique = allResults.filter((r) => {
+    if (seen.has(r.url)) return false;
+    seen.add(r.url);
+    return true;
+  });
+
+  // Step 3: Read the most relevant pages
+  const fetched = await Promise.all(
+    unique.slice(0, 6).map(async (r) => ({ result: r, page: await sources.fetch(r.url) }))
+  );
+  const pages = rankByFreshness(
+    fetched
+      .filter((f) => f.page)
+      .map((f) => ({
+        source: cite(f.result.url),
+        title: f.page!.title || f.result.title,
+        textPreview: f.page!.textContent.slice(0, 1200),
+        publishedAt: f.page!.publishedAt,
+      })),
+    STALE_AFTER_DAYS
+  );
+
+  const evidence = `${apiContext}
+${activeHours ? `\nPosting hours ranked by average interactions (measured, source [${apiSource}]):\n${JSON.stringify(activeHours)}\n` : ""}
+Search Results:
+${unique.slice(0, 20).map((r) => `- [${cite(r.url)}] ${r.title}: ${r.snippet}`).join("\n")}
+
+Platform Demographics:
+${platformResults.map((r) => `- [${cite(r.url)}] ${r.title}: ${r.snippet}`).join("\n") || "None found"}
+
+Pages:
+${JSON.stringify(pages, null, 2)}`;
+
+  // Step 4: Personas with per-attribute confidence and sources
+  let usage: ReportUsage | undefined;
+  const llmOpts = {
+    settings: ctx.llm,
+    signal: ctx.signal,
+    onUsage: (u: ReportUsage) => (usage = addUsage(usage, u)),
+  };
+  const languageNote =
+    locale.language !== "en" ? `\nWrite free-text values in ${LANGUAGES[locale.language].name}; keep field names and enum values in English.` : "";
+  await ctx.progress?.("Analyzing: building personas");
+  const built = await analyzeJSON(
+    PERSONA_PROMPT + languageNote,
+    `Brand or handle: ${handle_or_brand}
+${info ? platformPromptContext(info.id) : "Platform: cross-platform"}
+${PLATFORM_DATA_INSTRUCTIONS}
+
+${evidence}
+
+Build ${count} distinct personas.`,
+    z.object({ personas: z.array(personaSchema) }),
+    4000,
+    { tool: "analyze_audience", ...llmOpts }
+  );
+  const personas = built.personas.slice(0, count).map((p) => groundPersona(p, cited));
+  if (!personas.length) throw new Error("The model returned no personas; try again or name the brand more specifically.");
+  const warnings: string[] = [];
+  if (personas.length < count) warnings.push(`The model returned ${personas.length} of ${count} personas`);
+
+  // Step 5: Optional comparison against the caller's target persona
+  let comparison: AudienceData["comparison"] = null;
+  if (target) {
+    await ctx.progress?.("Analyzing: comparing with the target persona");
+    const fields = (Object.keys(COMPARED_FIELDS) as ComparedField[]).filter((f) => target[f] !== undefined);
+    const judged = await analyzeJSON(
+      COMPARISON_PROMPT + languageNote,
+      `Target persona${target.name ? ` "${target.name}"` : ""}:
+${target.description ? `${target.description}\n` : ""}${fields.map((f) => `- ${f}: ${targetValue(target, f)}`).join("\n")}
+
+Personas:
+${personas.map((p, i) => `${i + 1}. ${p.name}: ${JSON.stringify(Object.fromEntries(fields.map((f) => [f, personaValue(p, f)])))}`).join("\n")}`,
+      comparisonSchema,
+      2000,
+      { tool: "analyze_audience", ...llmOpts }
+    );
+    comparison = compareWithTarget(target, fields, personas, judged);
+  }
+
+  // Step 6: AI commentary on the personas
+  const commentary = await generateReport({
+    tool: "analyze_audience",
+    ctx,
+    format: output_format,
+    systemPrompt: `You are an audience research analyst. Present audience personas built from gathered evidence.
+
+Structure your report as:
+## Audience Personas: ${handle_or_brand}
+${info ? `**Platform:** ${info.label}` : "**Cross-platform analysis**"}
+
+### Overview
+Who the audience is overall and how confident the evidence allows us to be
+
+### Personas
+For each persona: who they are, what they care about, their pain points, when and where to reach them. Say when an attribute is a low-confidence inference.
+${target ? "\n### Target Persona Fit\nHow the actual audience compares with the target persona, which persona is closest and what the gaps mean\n" : ""}
+### Recommendations
+Numbered list of specific ways to reach and serve these personas
+
+The personas, confidence levels${target ? ", match scores" : ""} and measured data were computed already; present them without changing them. A table of every attribute with its confidence and sources follows your text.`,
+    userPrompt: `Brand or handle: ${handle_or_brand}
+${info ? `Platform: ${info.label}` : "Platform: cross-platform"}
+${profile ? `Followers (measured): ${profile.followers ?? "unknown"}` : ""}
+
+Personas:
+${JSON.stringify(personas, null, 2)}
+${comparison ? `\nTarget persona comparison:\n${JSON.stringify({ best_match: comparison.best_match, personas: comparison.personas.map(({ persona, match_score }) => ({ persona, match_score })), gaps: comparison.gaps }, null, 2)}\n` : ""}
+Evidence:
+${evidence}
+
+Write the audience report.`,
+    sources,
+    maxTokens: 3500,
+    jsonPrompt: AUDIENCE_JSON_PROMPT,
+    schema: audienceCommentarySchema,
+    locale,
+  });
+
+  const sourceUrl = new Map(sources.list().map((s) => [s.id, s.url]));
+  const report: ToolReport<AudienceData> = {
+    ...commentary,
+    usage: commentary.usage ? addUsage(usage, commentary.usage) : usage,
+    markdown: commentary.markdown && `${commentary.markdown}\n\n${evidenceTables(personas, comparison, sourceUrl)}${warnings.length ? `\n\n### Warnings\n${warnings.map((w) => `- ${w}`).join("\n")}` : ""}`,
+    data: commentary.data && {
+      handle_or_brand,
+      platform: info?.id || null,
+      personas,
+      measured: { followers: profile?.followers ?? null, active_hours: activeHours },
+      comparison,
+      warnings,
+      ...commentary.data,
+    },
+  };
+
+  await log("info", "Audience analysis complete", { handle_or_brand, platform, personas: personas.length, warnings: warnings.length });
+
+  return report;
+}
+
+function hasTargetFields(target: TargetPersona): boolean {
+  return (Object.keys(COMPARED_FIELDS) as ComparedField[]).some((f) => target[f] !== undefined);
+}
+
+/**
+ * Keeps only citations of sources the model was actually shown and caps
+ * confidence by the support left: no source means low, one source at most
+ * medium.
+ */
+export function groundPersona(p: Persona, valid: Set<number>): Persona {
+  const ground = <T extends { confidence: Confidence; sources: number[] }>(a: T): T => {
+    const sources = [...new Set(a.sources.filter((n) => valid.has(n)))];
+    const cap: Confidence = sources.length === 0 ? "low" : sources.length === 1 ? "medium" : "high";
+    const confidence = CONFIDENCE[Math.min(CONFIDENCE.indexOf(a.confidence), CONFIDENCE.indexOf(cap))];
+    return { ...a, sources, confidence };
+  };
+  const d = p.demographics;
+  return {
+    ...p,
+    demographics: {
+      age_range: ground(d.age_range),
+      gender: ground(d.gender),
+      location: ground(d.location),
+      occupation: ground(d.occupation),
+      income: ground(d.income),
+    },
+    interests: ground(p.interests),
+    pain_points: ground(p.pain_points),
+    active_hours: ground(p.active_hours),
+    platform_mix: ground(p.platform_mix),
+  };
+}
+
+/** Hours (UTC) of recent posts ranked by average likes, comments and shares */
+function postingHours(profile: PlatformProfile): AudienceData["measured"]["active_hours"] {
+  const byHour = new Map<number, { posts: number; interactions: number }>();
+  for (const post of profile.recent_posts) {
+    const time = Date.parse(post.published_at);
+    if (isNaN(time)) continue;
+    const hour = new Date(time).getUTCHours();
+    const entry = byHour.get(hour) || { posts: 0, interactions: 0 };
+    entry.posts++;
+    entry.interactions += (post.likes || 0) + (post.comments || 0) + (post.shares || 0);
+    byHour.set(hour, entry);
+  }
+  if (byHour.size === 0) return null;
+  return [...byHour.entries()]
+    .map(([hour_utc, e]) => ({ hour_utc, posts: e.posts, avg_interactions: Math.round(e.interactions / e.posts) }))
+    .sort((a, b) => b.avg_interactions - a.avg_interactions)
+    .slice(0, 5);
+}
+
+function targetValue(target: TargetPersona, field: ComparedField): string {
+  const value = target[field];
+  return Array.isArray(value) ? value.join(", ") : value || "";
+}
+
+function personaValue(p: Persona, field: ComparedField): string {
+  const path = COMPARED_FIELDS[field];
+  const attr = path.startsWith("demographics.")
+    ? p.demographics[path.slice("demographics.".length) as keyof Persona["demographics"]]
+    : p[path as "interests" | "pain_points" | "active_hours" | "platform_mix"];
+  const value = "values" in attr ? attr.values.join(", ") : attr.value;
+  return `${value} (${attr.confidence} confidence)`;
+}
+
+/** Match scores come from the model's per-field alignment, averaged over the fields it could judge */
+function compareWithTarget(
+  target: TargetPersona,
+  fields: ComparedField[],
+  personas: Persona[],
+  judged: z.infer<typeof comparisonSchema>
+): NonNullable<AudienceData["comparison"]> {
+  // Matched by position since the model may reword persona names
+  const results = personas.map((p, i) => {
+    const verdicts = judged.personas.find((j) => j.index === i + 1)?.fields || [];
+    const rows = fields.map((field) => {
+      const v = verdicts.find((f) => f.field === field);
+      return {
+        field,
+        target: targetValue(target, field),
+        persona: personaValue(p, field),
+        alignment: v?.alignment ?? ("unknown" as const),
+        note: v?.note ?? "Not judged",
+      };
+    });
+    const scored = rows.map((r) => ALIGNMENT_SCORE[r.alignment]).filter((s): s is number => s !== null);
+    return {
+      persona: p.name,
+      match_score: scored.length ? Math.round((100 * scored.reduce((a, b) => a + b, 0)) / scored.length) : null,
+      fields: rows,
+    };
+  });
+
+  const best = results
+    .filter((r) => r.match_score !== null)
+    .sort((a, b) => b.match_score! - a.match_score!)[0];
+  const gaps = fields
+    .filter((field) => results.every((r) => r.fields.find((f) => f.field === field)!.alignment === "mismatch"))
+    .map((field) => `${field}: ${targetValue(target, field)}`);
+
+  return { target, personas: results, best_match: best?.persona ?? null, gaps };
+}
+
+function evidenceTables(
+  personas: Persona[],
+  comparison: AudienceData["comparison"],
+  sourceUrl: Map<number, string>
+): string {
+  const cell = (text: string) => text.replace(/\|/g, "\\|").replace(/\s*\n+\s*/g, " ");
+  const links = (ids: number[]) =>
+    ids.map((id) => (sourceUrl.has(id) ? `[${id}](${sourceUrl.get(id)})` : `${id}`)).join(" ") || "inferred";
+  const row = (label: string, a: { confidence: string; sources: number[] } & ({ value: string } | { values: string[] })) =>
+    `| ${label} | ${cell("values" in a ? a.values.join(", ") : a.value)} | ${a.confidence} | ${links(a.sources)} |`;
+
+  const sections = personas.map((p) => {
+    const d = p.demographics;
+    return `#### ${p.name}${p.share_estimate ? ` (${p.share_estimate})` : ""}
+| Attribute | Value | Confidence | Sources |
+|-----------|-------|------------|---------|
+${[
+  row("Age", d.age_range),
+  row("Gender", d.gender),
+  row("Location", d.location),
+  row("Occupation", d.occupation),
+  row("Income", d.income),
+  row("Interests", p.interests),
+  row("Pain points", p.pain_points),
+  row("Active hours", p.active_hours),
+  row("Platform mix", p.platform_mix),
+].join("\n")}`;
+  });
+
+  let out = `### Persona Evidence\nConfidence is capped by the sources behind each attribute: none means low, one at most medium.\n\n${sections.join("\n\n")}`;
+  if (comparison) {
+    out += `\n\n### Target Persona Match
+| Persona | Match | ${comparison.personas[0]?.fields.map((f) => f.field).join(" | ")} |
+|---------|-------|${comparison.personas[0]?.fields.map(() => "---").join("|")}|
+${comparison.personas.map((p) => `| ${p.persona} | ${p.match_score ?? "n/a"}${p.match_score !== null ? "/100" : ""} | ${p.fields.map((f) => f.alignment).join(" | ")} |`).join("\n")}`;
+    if (comparison.gaps.length) out += `\n\nNo persona matches: ${comparison.gaps.join("; ")}`;
+  }
+  return out;
+}
@@ -0,0 +1,292 @@
+import type { SearchResult } from "../lib/scraper";
+import { z } from "zod";
+import { generateReport } from "../lib/report";
+import { createSourceTracker } from "../lib/sources";
+import type { SourceTracker } from "../lib/sources";
+import type { OutputFormat, ToolContext, ToolReport } from "../lib/report";
+import { log } from "../lib/logger";
+import { currentYear, rankByFreshness, STALE_AFTER_DAYS } from "../lib/dates";
+import { platformPromptContext } from "../lib/platforms";
+import { benchmarkQueries, localeTag, localQueries, resolveLocale } from "../lib/locale";
+import type { Locale, LocaleInput } from "../lib/locale";
+
+export interface CompareCompetitorsInput extends LocaleInput {
+  brands: string[];
+  platform?: string;
+  output_format?: OutputFormat;
+}
+
+const brandSchema = z.object({
+  rank: z.number(),
+  brand: z.string(),
+  engagement_score: z.number().min(0).max(100),
+  estimated_engagement_rate: z.string(),
+  content_mix: z.array(z.object({ type: z.string(), share: z.string() })),
+  posting_cadence: z.string(),
+  share_of_voice: z
+    .number()
+    .nullable()
+    .describe("Percent of brand mentions across all gathered sources; null when the entry matches no requested brand"),
+  gaps: z.array(z.string()),
+  opportunities: z.array(z.string()),
+});
+
+export const competitorDataSchema = z.object({
+  platform: z.string().nullable(),
+  brands: z.array(brandSchema),
+  industry_average_rate: z.string(),
+  key_takeaways: z.array(z.string()),
+});
+
+export type CompetitorData = z.infer<typeof competitorDataSchema>;
+
+// The model also echoes each brand's input position, since it may reword brand names
+const extractionSchema = competitorDataSchema.extend({
+  brands: z.array(brandSchema.extend({ index: z.number() })),
+});
+
+const COMPETITOR_JSON_PROMPT = `You are a competitive social media analyst. Summarize a competitor benchmark as JSON with exactly these fields:
+{
+  "platform": string | null,
+  "brands": [{
+    "rank": number (1 = strongest engagement),
+    "index": number (the brand's number in the Brands list),
+    "brand": string,
+    "engagement_score": number (0-100),
+    "estimated_engagement_rate": string (e.g. "1.8%"),
+    "content_mix": [{ "type": string, "share": string (e.g. "40%") }],
+    "posting_cadence": string (e.g. "5-7 posts/week"),
+    "share_of_voice": number (percent, copy the measured value from the data),
+    "gaps": string[],
+    "opportunities": string[]
+  }] (one entry per brand, ordered by rank),
+  "industry_average_rate": string,
+  "key_takeaways": string[]
+}`;
+
+// Brands researched at once; each brand runs its searches sequentially
+const BRAND_CONCURRENCY = 4;
+
+interface BrandResearch {
+  brand: string;
+  results: SearchResult[];
+  pages: { source: number; url: string; title: string; publishedAt: string | null; textPreview: string | null }[];
+  mentions: number;
+}
+
+export async function compareCompetitors(
+  input: CompareCompetitorsInput,
+  ctx: ToolContext = {}
+): Promise<ToolReport<CompetitorData>> {
+  const { platform, output_format } = input;
+  const brands = [...new Set(input.brands.map((b) => b.trim()).filter(Boolean))];
+  if (brands.length < 2) throw new Error("Provide at least two distinct brands to compare.");
+
+  const locale = resolveLocale(input);
+  await log("info", "Starting competitor comparison", { brands, platform, locale: localeTag(locale) });
+  const sources = createSourceTracker({ ...ctx, locale });
+  const year = currentYear();
+
+  // Step 1: Shared industry benchmarks, fetched once for all brands; the region's own first
+  const benchmarkResults: SearchResult[] = [];
+  for (const q of benchmarkQueries(locale, platform, year)) {
+    for (const r of await sources.search(q, 5)) {
+      if (!benchmarkResults.some((b) => b.url === r.url)) benchmarkResults.push(r);
+    }
+  }
+  const benchmarkPages = rankByFreshness(
+    await Promise.all(
+      benchmarkResults.slice(0, locale.region ? 3 : 2).map(async (r) => {
+        const page = await sources.fetch(r.url);
+        return {
+          source: sources.ref(r.url),
+          url: r.url,
+          title: r.title,
+          publishedAt: page?.publishedAt ?? null,
+          textPreview: page ? page.textContent.slice(0, 800) : r.snippet,
+        };
+      })
+    ),
+    STALE_AFTER_DAYS
+  );
+
+  // Step 2: Per-brand research in parallel
+  const research = await mapWithConcurrency(brands, BRAND_CONCURRENCY, (brand) =>
+    researchBrand(brand, platform, sources, locale)
+  );
+
+  // Step 3: Share of voice from brand mentions across every gathered result, each page counted once
+  const allResults = [...new Map(research.flatMap((r) => r.results).map((res) => [res.url, res])).values()];
+  for (const r of research) {
+    // Letter and digit boundaries rather than \b, which never matches next to "+", "&" or "@"
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${r.brand.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\p{L}\\p{N}])`, "giu");
+    r.mentions = allResults.reduce(
+      (n, res) => n + (`${res.title} ${res.snippet}`.match(pattern)?.length || 0),
+      0
+    );
+  }
+  const totalMentions = research.reduce((n, r) => n + r.mentions, 0);
+  const shareOfVoice = (r: BrandResearch) =>
+    totalMentions ? Math.round((r.mentions / totalMentions) * 1000) / 10 : 0;
+
+  // Step 4: AI analysis
+  const brandContext = research
+    .map(
+      (r) => `### ${r.brand}
+Measured share of voice: ${shareOfVoice(r)}% (${r.mentions} mentions)
+Search Results:
+${r.results
+  .slice(0, 10)
+  .map((res) => `- [${sources.ref(res.url)}] ${res.title}: ${res.snippet}`)
+  .join("\n")}
+Fetched Page Data:
+${JSON.stringify(r.pages.filter((p) => p.textPreview), null, 2)}`
+    )
+    .join("\n\n");
+
+  // Brands are always extracted so the ranking table can be built from the re-ranked data
+  const format = output_format || "markdown";
+  const extracted = await generateReport({
+    tool: "compare_competitors",
+    ctx,
+    format: format === "json" ? "json" : "both",
+    systemPrompt: `You are a competitive social media analyst. Benchmark several brands side by side on the same criteria.
+
+Structure your report as:
+## Competitor Benchmark: ${brands.join(" vs ")}
+${platform ? `**Platform:** ${platform}` : "**Cross-platform analysis**"}
+
+### Ranking
+Who leads on engagement and why, in 2-3 sentences. A ranking table with the measured share of voice follows your text, so do not write one.
+
+### Industry Benchmark
+- Industry average engagement rate and how each brand compares
+
+### Brand-by-Brand Gaps & Opportunities
+For each brand:
+#### [Brand]
+- **Gaps:** where it trails the others
+- **Opportunities:** specific moves to close the gap, borrowing from what competitors do well
+
+### Key Takeaways
+3-5 bullet points on what separates the leader from the rest.
+
+Score every brand on the same basis so the numbers are comparable. Be specific and reference actual data patterns from the research.`,
+    userPrompt: `Brands: ${brands.map((b, i) => `${i + 1}. ${b}`).join(", ")}
+${platform ? `Platform: ${platform}\n${platformPromptContext(platform)}` : "Platforms: All major platforms"}
+
+Industry Benchmarks Data:
+${JSON.stringify(benchmarkPages, null, 2)}
+
+${brandContext}
+
+Provide a ranked side-by-side competitor comparison.`,
+    sources,
+    maxTokens: 3500,
+    jsonPrompt: COMPETITOR_JSON_PROMPT,
+    schema: extractionSchema,
+    locale,
+  });
+
+  // Measured values replace anything the model restated
+  const data: CompetitorData = {
+    ...extracted.data!,
+    brands: extracted.data!.brands.map(({ index, ...b }) => {
+      const r = research[index - 1];
+      return { ...b, brand: r?.brand ?? b.brand, share_of_voice: r ? shareOfVoice(r) : null };
+    }),
+  };
+  data.brands.sort((a, b) => b.engagement_score - a.engagement_score);
+  data.brands.forEach((b, i) => (b.rank = i + 1));
+
+  const report: ToolReport<CompetitorData> = {
+    ...extracted,
+    format,
+    markdown: extracted.markdown && `${extracted.markdown}\n\n${rankingTable(data)}`,
+    data: format === "markdown" ? undefined : data,
+  };
+
+  await log("info", "Competitor comparison complete", {
+    brands,
+    sources_found: allResults.length,
+  });
+
+  return report;
+}
+
+function rankingTable(data: CompetitorData): string {
+  const cell = (text: string) => text.replace(/\|/g, "\\|").replace(/\s*\n+\s*/g, " ");
+  return `### Ranking Table
+| Rank | Brand | Engagement Score | Est. Engagement Rate | Content Mix | Posting Cadence | Share of Voice |
+|------|-------|------------------|----------------------|-------------|-----------------|----------------|
+${data.brands
+  .map(
+    (b) =>
+      `| ${b.rank} | ${cell(b.brand)} | ${b.engagement_score}/100 | ${cell(b.estimated_engagement_rate)} | ${cell(b.content_mix.map((c) => `${c.type} ${c.share}`).join(", "))} | ${cell(b.posting_cadence)} | ${b.share_of_voice !== null ? `${b.share_of_voice}%` : "n/a"} |`
+  )
+  .join("\n")}`;
+}
+
+async function researchBrand(
+  brand: string,
+  platform: string | undefined,
+  sources: SourceTracker,
+  locale: Locale
+): Promise<BrandResearch> {
+  const platformStr = platform || "social media";
+  const queries = [
+    `${brand} ${platformStr} engagement rate`,
+    `${brand} ${platformStr} content strategy posts`,
+    `${brand} ${platformStr} posting frequency followers`,
+    ...localQueries(locale, ["brand"], { brand }),
+  ];
+
+  const allResults: SearchResult[] = [];
+  for (const q of queries) {
+    const results = await sources.search(q, 6);
+    allResults.push(...results);
+  }
+
+  // Deduplicate
+  const seen = new Set<string>();
+  const unique = allResults.filter((r) => {
+    if (seen.has(r.url)) return false;
+    seen.add(r.url);
+    return true;
+  });
+
+  const pages = rankByFreshness(
+    await Promise.all(
+      unique.slice(0, 2).map(async (r) => {
+        const page = await sources.fetch(r.url);
+        return {
+          source: sources.ref(r.url),
+          url: r.url,
+          title: r.title,
+          publishedAt: page?.publishedAt ?? null,
+          textPreview: page ? page.textContent.slice(0, 600) : null,
+        };
+      })
+    ),
+    STALE_AFTER_DAYS
+  );
+
+  return { brand, results: unique, pages, mentions: 0 };
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
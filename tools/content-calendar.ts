@@ -0,0 +1,420 @@
+import { z } from "zod";
+import { addUsage, generateReport } from "../lib/report";
+import type { OutputFormat, ReportUsage, ToolContext, ToolReport } from "../lib/report";
+import { createSourceTracker } from "../lib/sources";
+import type { Source } from "../lib/sources";
+import { analyzeJSON } from "../lib/openai";
+import { log } from "../lib/logger";
+import { isoDay, parseDay } from "../lib/dates";
+import { getPlatform, platformPromptContext } from "../lib/platforms";
+import type { PlatformInfo } from "../lib/platforms";
+import { calendarCsv, calendarIcs } from "../lib/calendar-export";
+import type { CalendarPost } from "../lib/calendar-export";
+import { localeTag, resolveLocale } from "../lib/locale";
+import type { Locale, LocaleInput } from "../lib/locale";
+import { detectTrends, saveTrendRun } from "./trend-detection";
+import type { TrendData } from "./trend-detection";
+import { pickResearchedHashtags, researchedHashtagsContext, researchHashtags } from "./hashtag-research";
+import type { HashtagData } from "./hashtag-research";
+
+export const CALENDAR_EXPORTS = ["csv", "ics"] as const;
+export type CalendarExport = (typeof CALENDAR_EXPORTS)[number];
+
+export interface GenerateContentCalendarInput extends LocaleInput {
+  brand: string;
+  /** Topic for trend and hashtag research (default: the brand) */
+  niche?: string;
+  platforms: string[];
+  /** ISO dates; the calendar starts tomorrow and runs two weeks by default */
+  start_date?: string;
+  end_date?: string;
+  /** Posts per week on each platform */
+  posts_per_week?: number;
+  /** IANA timezone the posting times are in */
+  timezone?: string;
+  export?: CalendarExport[];
+  output_format?: OutputFormat;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DAYS = 14;
+const MAX_DAYS = 92;
+const MAX_POSTS = 120;
+const PLAN_BATCH_SIZE = 12;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DEFAULT_TIME = "12:00";
+
+const planSchema = z.object({
+  posts: z.array(
+    z.object({
+      slot: z.number(),
+      format: z.string(),
+      hook: z.string(),
+      caption: z.string(),
+      hashtags: z.array(z.string()),
+      best_time: z.string(),
+      trend: z.string().nullable(),
+    })
+  ),
+});
+
+const calendarPostSchema = z.object({
+  date: z.string(),
+  time: z.string().describe("HH:MM in the calendar's timezone"),
+  platform: z.string(),
+  format: z.string(),
+  hook: z.string(),
+  caption: z.string(),
+  hashtags: z.array(z.string()),
+  trend: z.string().nullable().describe("Trend from detect_trends the post builds on"),
+});
+
+const calendarCommentarySchema = z.object({
+  summary: z.string(),
+  content_pillars: z.array(z.string()),
+});
+
+export const calendarDataSchema = z.object({
+  brand: z.string(),
+  niche: z.string(),
+  platforms: z.array(z.string()),
+  start_date: z.string(),
+  end_date: z.string(),
+  timezone: z.string().nullable(),
+  posts_per_week: z.number(),
+  trends_used: z.array(z.string()).describe("Trends from detect_trends that posts build on"),
+  posts: z.array(calendarPostSchema),
+  warnings: z.array(z.string()).describe("Research steps that failed and slots the model left empty"),
+  summary: z.string(),
+  content_pillars: z.array(z.string()),
+  exports: z
+    .object({ csv: z.string().optional(), ics: z.string().optional() })
+    .optional()
+    .describe("The schedule as CSV and iCalendar text, when requested"),
+});
+
+export type CalendarData = z.infer<typeof calendarDataSchema>;
+
+const CALENDAR_JSON_PROMPT = `You are a social media content strategist. Summarize the commentary in a content calendar report as JSON with exactly these fields:
+{
+  "summary": string (2-3 sentences),
+  "content_pillars": string[] (3-5)
+}`;
+
+interface Slot {
+  slot: number;
+  date: string;
+  platform: PlatformInfo;
+}
+
+export async function generateContentCalendar(
+  input: GenerateContentCalendarInput,
+  ctx: ToolContext = {}
+): Promise<ToolReport<CalendarData>> {
+  const { brand, output_format, timezone } = input;
+  const niche = input.niche || brand;
+  const platforms = [...new Set(input.platforms)].map((id) => {
+    const info = getPlatform(id);
+    if (!info) throw new Error(`Unknown platform: ${id}`);
+    return info;
+  });
+  if (platforms.length === 0) throw new Error("Provide at least one platform.");
+  if (timezone && !isTimezone(timezone)) throw new Error(`Unknown timezone: ${timezone}`);
+
+  const start = input.start_date ? isoDay(parseDay(input.start_date, "start_date")) : isoDay(new Date(Date.now() + DAY_MS));
+  const end = input.end_date
+    ? isoDay(parseDay(input.end_date, "end_date"))
+    : isoDay(new Date(Date.parse(start) + (DEFAULT_DAYS - 1) * DAY_MS));
+  const days = (Date.parse(end) - Date.parse(start)) / DAY_MS + 1;
+  if (days < 1) throw new Error(`start_date (${start}) is after end_date (${end})`);
+  if (days > MAX_DAYS) throw new Error(`Calendars can cover at most ${MAX_DAYS} days; got ${days}.`);
+
+  const perWeek = input.posts_per_week || 3;
+  const slots = scheduleSlots(platforms, start, days, perWeek);
+  if (slots.length > MAX_POSTS) {
+    throw new Error(`This calendar would have ${slots.length} posts; the limit is ${MAX_POSTS}. Shorten the range or lower posts_per_week.`);
+  }
+
+  const locale = resolveLocale(input);
+  await log("info", "Starting content calendar", {
+    brand,
+    platforms: platforms.map((p) => p.id),
+    days,
+    posts: slots.length,
+    locale: localeTag(locale),
+  });
+
+  // Step 1: Reuse trend detection and hashtag research; a failed step leaves the calendar without that input
+  const warnings: string[] = [];
+  let usage: ReportUsage | undefined;
+  const research: ToolReport<unknown>[] = [];
+  const researchCtx: ToolContext = { ...ctx, onToken: undefined };
+
+  let trends: TrendData | null = null;
+  try {
+    const report = await detectTrends(
+      { niche, timeframe: "this_month", language: locale.language, region: locale.region ?? undefined, output_format: "json" },
+      researchCtx
+    );
+    trends = report.data ?? null;
+    research.push(report);
+    await saveTrendRun(report).catch((err) => log("error", `Failed to save trend snapshot: ${err.message}`, { niche }));
+  } catch (err: any) {
+    if (ctx.signal?.aborted) throw err;
+    warnings.push(`Trend research failed: ${err.message}`);
+    await log("warn", `Calendar trend research failed: ${err.message}`, { niche });
+  }
+
+  const hashtags = new Map<string, HashtagData>();
+  for (const platform of platforms.filter((p) => p.hashtags.supported)) {
+    try {
+      const report = await researchHashtags(
+        { topic: niche, platform: platform.id, language: locale.language, region: locale.region ?? undefined, output_format: "json" },
+        researchCtx
+      );
+      if (report.data) hashtags.set(platform.id, report.data);
+      research.push(report);
+    } catch (err: any) {
+      if (ctx.signal?.aborted) throw err;
+      warnings.push(`Hashtag research for ${platform.label} failed: ${err.message}`);
+      await log("warn", `Calendar hashtag research failed: ${err.message}`, { niche, platform: platform.id });
+    }
+  }
+  for (const r of research) if (r.usage) usage = addUsage(usage, r.usage);
+
+  // Step 2: Fill the dated slots, one platform at a time so hashtags and formats stay platform-specific
+  const posts: CalendarPost[] = [];
+  for (const platform of platforms) {
+    const platformSlots = slots.filter((s) => s.platform.id === platform.id);
+    for (let i = 0; i < platformSlots.length; i += PLAN_BATCH_SIZE) {
+      const batch = platformSlots.slice(i, i + PLAN_BATCH_SIZE);
+      await ctx.progress?.(`Planning ${platform.label} posts ${i + 1}-${i + batch.length} of ${platformSlots.length}`);
+      const plan = await analyzeJSON(
+        planPrompt(platform, hashtags.get(platform.id)),
+        planUserPrompt(brand, niche, platform, batch, trends, hashtags.get(platform.id), timezone),
+        planSchema,
+        3000,
+        {
+          tool: "generate_content_calendar",
+          settings: ctx.llm,
+          signal: ctx.signal,
+          onUsage: (u) => (usage = addUsage(usage, u)),
+        }
+      );
+      const planned = new Map(plan.posts.map((p) => [p.slot, p]));
+      for (const slot of batch) {
+        const p = planned.get(slot.slot);
+        if (!p) {
+          warnings.push(`No post planned for ${platform.label} on ${slot.date}`);
+          continue;
+        }
+        posts.push({
+          date: slot.date,
+          time: TIME_PATTERN.test(p.best_time) ? p.best_time : DEFAULT_TIME,
+          platform: platform.id,
+          format: p.format,
+          hook: p.hook,
+          caption: p.caption,
+          hashtags: pickResearchedHashtags(p.hashtags, platform, hashtags.get(platform.id), brand),
+          trend: p.trend && trends?.trends.some((t) => t.name === p.trend) ? p.trend : null,
+        });
+      }
+    }
+  }
+  posts.sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`));
+
+  // Step 3: AI commentary on the finished schedule; research sources are re-numbered for citation
+  const sources = createSourceTracker({ ...ctx, locale });
+  const researchSources = dedupeSources(research.flatMap((r) => r.sources)).map((s) => ({
+    id: sources.record(s.url, s.title, s.provider || "research"),
+    title: s.title,
+  }));
+  const trendsUsed = [...new Set(posts.map((p) => p.trend).filter((t): t is string => !!t))];
+
+  const commentary = await generateReport({
+    tool: "generate_content_calendar",
+    ctx,
+    format: output_format,
+    systemPrompt: calendarSystemPrompt(brand, platforms, start, end, locale),
+    userPrompt: `Brand: ${brand}
+Niche: ${niche}
+Platforms: ${platforms.map((p) => p.label).join(", ")}
+Cadence: ${perWeek} posts per week per platform
+Dates: ${start} to ${end}${timezone ? ` (${timezone})` : ""}
+
+Trends researched:
+${trends ? trends.trends.map((t) => `- ${t.name}: ${t.description}`).join("\n") : "Trend research unavailable"}
+
+Research sources:
+${researchSources.map((s) => `[${s.id}] ${s.title}`).join("\n") || "None"}
+
+Schedule (${posts.length} posts):
+${posts.map((p) => `- ${p.date} ${p.time} ${p.platform} ${p.format}: ${p.hook}${p.trend ? ` (trend: ${p.trend})` : ""}`).join("\n")}
+
+Write the calendar overview.`,
+    sources,
+    maxTokens: 2500,
+    jsonPrompt: CALENDAR_JSON_PROMPT,
+    schema: calendarCommentarySchema,
+    locale,
+  });
+  if (commentary.usage) usage = addUsage(usage, commentary.usage);
+
+  const exports = input.export?.length
+    ? {
+        ...(input.export.includes("csv") ? { csv: calendarCsv(posts) } : {}),
+        ...(input.export.includes("ics") ? { ics: calendarIcs(posts, { name: `${brand} content calendar`, timezone }) } : {}),
+      }
+    : undefined;
+
+  const report: ToolReport<CalendarData> = {
+    ...commentary,
+    usage,
+    markdown: commentary.markdown && `${commentary.markdown}\n\n${scheduleTable(posts, timezone)}${exportBlocks(exports)}`,
+    data: commentary.data && {
+      brand,
+      niche,
+      platforms: platforms.map((p) => p.id),
+      start_date: start,
+      end_date: end,
+      timezone: timezone || null,
+      posts_per_week: perWeek,
+      trends_used: trendsUsed,
+      posts,
+      warnings,
+      ...commentary.data,
+      ...(exports ? { exports } : {}),
+    },
+  };
+
+  await log("info", "Content calendar complete", { brand, posts: posts.length, warnings: warnings.length });
+
+  return report;
+}
+
+/**
+ * Spreads each platform's posts evenly over the range. Platforms are offset
+ * from each other so they do not all land on the same days.
+ */
+export function scheduleSlots(platforms: PlatformInfo[], start: string, days: number, perWeek: number): Slot[] {
+  const first = Date.parse(start);
+  const slots: Omit<Slot, "slot">[] = [];
+  platforms.forEach((platform, pi) => {
+    const count = Math.max(1, Math.round((perWeek * days) / 7));
+    for (let i = 0; i < count; i++) {
+      const day = Math.floor(((i + pi / platforms.length) * days) / count);
+      slots.push({ date: isoDay(new Date(first + day * DAY_MS)), platform });
+    }
+  });
+  return slots
+    .sort((a, b) => a.date.localeCompare(b.date) || platforms.indexOf(a.platform) - platforms.indexOf(b.platform))
+    .map((s, i) => ({ ...s, slot: i + 1 }));
+}
+
+function planPrompt(platform: PlatformInfo, hashtags: HashtagData | undefined): string {
+  const tagRule = !platform.hashtags.supported
+    ? `${platform.label} does not surface hashtags; return an empty hashtags list.`
+    : hashtags
+      ? `Use ${platform.hashtags.optimalCount} hashtags per post, chosen from the researched hashtags, plus at most one branded tag.`
+      : `Use ${platform.hashtags.optimalCount} specific hashtags per post.`;
+  return `You are a social media content strategist planning posts for ${platform.label}. For every slot in the list return one post:
+{
+  "posts": [{
+    "slot": number (as given),
+    "format": string (one of: ${platform.contentFormats.join(", ")}),
+    "hook": string (the opening line that stops the scroll),
+    "caption": string (a ready-to-edit caption draft without hashtags),
+    "hashtags": string[] (with the leading #),
+    "best_time": string ("HH:MM", 24-hour, when this audience is most active on that weekday),
+    "trend": string | null (the exact name of the researched trend the post builds on, or null)
+  }]
+}
+${tagRule}
+Vary formats and angles across slots, build on the researched trends and content opportunities where they fit the brand, and keep captions within ${platform.label}'s conventions.`;
+}
+
+function planUserPrompt(
+  brand: string,
+  niche: string,
+  platform: PlatformInfo,
+  slots: Slot[],
+  trends: TrendData | null,
+  hashtags: HashtagData | undefined,
+  timezone: string | undefined
+): string {
+  const weekday = (date: string) => parseDay(date, "date").toLocaleDateString("en-US", { weekday: "long", timeZone: "UTC" });
+  const opportunities = trends?.content_opportunities.filter(
+    (o) => o.platform.toLowerCase().includes(platform.id) || o.platform.toLowerCase().includes(platform.label.toLowerCase())
+  );
+  return `Brand: ${brand}
+Niche: ${niche}
+${platformPromptContext(platform.id)}
+Times are in ${timezone || "the audience's local time"}.
+
+Researched trends:
+${trends ? trends.trends.map((t) => `- ${t.name}: ${t.description}`).join("\n") : "None available"}
+
+Content opportunities:
+${(opportunities?.length ? opportunities : trends?.content_opportunities || []).map((o) => `- ${o.idea} (${o.format}, ${o.platform})`).join("\n") || "None available"}
+${trends?.topics_to_avoid.length ? `\nTopics to avoid: ${trends.topics_to_avoid.join(", ")}` : ""}
+${platform.hashtags.supported && hashtags ? `\n${researchedHashtagsContext(hashtags)}\n` : ""}
+Slots:
+${slots.map((s) => `- slot ${s.slot}: ${s.date} (${weekday(s.date)})`).join("\n")}`;
+}
+
+function dedupeSources(sources: Source[]): Source[] {
+  const seen = new Set<string>();
+  return sources.filter((s) => {
+    if (seen.has(s.url)) return false;
+    seen.add(s.url);
+    return true;
+  });
+}
+
+function isTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function calendarSystemPrompt(brand: string, platforms: PlatformInfo[], start: string, end: string, locale: Locale): string {
+  return `You are a social media content strategist. Present a content calendar that was planned from trend and hashtag research.
+
+Structure your report as:
+## Content Calendar: ${brand}
+**Platforms:** ${platforms.map((p) => p.label).join(", ")} · **Dates:** ${start} to ${end}${locale.region ? ` · **Market:** ${localeTag(locale)}` : ""}
+
+### Strategy
+How the schedule uses the researched trends and why the cadence fits each platform
+
+### Content Pillars
+3-5 recurring themes across the schedule
+
+### Highlights
+The posts most likely to perform and why
+
+### Production Notes
+What to prepare ahead (assets, collaborators, trend checks before posting)
+
+The schedule, dates and times are fixed. Refer to posts by date and platform; do not add or move posts. A table of every post follows your text.`;
+}
+
+function scheduleTable(posts: CalendarPost[], timezone: string | undefined): string {
+  if (posts.length === 0) return "### Schedule\nNo posts were planned.";
+  const cell = (text: string) => text.replace(/\|/g, "\\|").replace(/\s*\n+\s*/g, " ");
+  return `### Schedule${timezone ? ` (${timezone})` : ""}
+| Date | Time | Platform | Format | Hook | Hashtags |
+|------|------|----------|--------|------|----------|
+${posts.map((p) => `| ${p.date} | ${p.time} | ${p.platform} | ${cell(p.format)} | ${cell(p.hook)} | ${p.hashtags.join(" ")} |`).join("\n")}`;
+}
+
+function exportBlocks(exports: CalendarData["exports"]): string {
+  if (!exports) return "";
+  // The files use CRLF line endings; the report shows them with plain newlines
+  const block = (title: string, lang: string, text: string) =>
+    `\n\n### ${title}\n\`\`\`${lang}\n${text.replace(/\r\n/g, "\n").trimEnd()}\n\`\`\``;
+  return (exports.csv ? block("CSV Export", "csv", exports.csv) : "") + (exports.ics ? block("iCalendar Export", "ics", exports.ics) : "");
+}
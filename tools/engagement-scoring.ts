@@ -1,31 +1,93 @@
-import { searchWeb, fetchPage } from "../lib/scraper";
-import { analyze } from "../lib/openai";
+import type { SearchResult } from "../lib/scraper";
+import { z } from "zod";
+import { generateReport } from "../lib/report";
+import { createSourceTracker } from "../lib/sources";
+import type { OutputFormat, ToolContext, ToolReport } from "../lib/report";
 import { log } from "../lib/logger";
+import { currentYear, rankByFreshness, STALE_AFTER_DAYS } from "../lib/dates";
+import { platformPromptContext } from "../lib/platforms";
+import { benchmarkQueries, localeTag, localQueries, resolveLocale } from "../lib/locale";
+import type { LocaleInput } from "../lib/locale";
+import { fetchPlatformProfile, platformDataContext, PLATFORM_DATA_INSTRUCTIONS } from "../lib/connectors";
 
-export interface ScoreEngagementInput {
+export interface ScoreEngagementInput extends LocaleInput {
   brand_or_topic: string;
   platform?: string;
+  output_format?: OutputFormat;
 }
 
+export const engagementDataSchema = z.object({
+  brand_or_topic: z.string(),
+  platform: z.string().nullable(),
+  engagement_score: z.number().min(0).max(100),
+  estimated_engagement_rate: z.string(),
+  industry_average_rate: z.string(),
+  engagement_trend: z.enum(["growing", "stable", "declining"]),
+  content_types: z.array(
+    z.object({
+      type: z.string(),
+      rank: z.number(),
+      estimated_engagement: z.string(),
+    })
+  ),
+  best_posting_times: z.array(z.string()),
+  posting_frequency: z.string(),
+  strengths: z.array(z.string()),
+  weaknesses: z.array(z.string()),
+  recommendations: z.array(z.string()),
+});
+
+export type EngagementData = z.infer<typeof engagementDataSchema>;
+
+const ENGAGEMENT_JSON_PROMPT = `You are a social media engagement analyst. Summarize an engagement analysis as JSON with exactly these fields:
+{
+  "brand_or_topic": string,
+  "platform": string | null,
+  "engagement_score": number (0-100),
+  "estimated_engagement_rate": string (e.g. "1.8%"),
+  "industry_average_rate": string,
+  "engagement_trend": "growing" | "stable" | "declining",
+  "content_types": [{ "type": string, "rank": number, "estimated_engagement": string }],
+  "best_posting_times": string[],
+  "posting_frequency": string,
+  "strengths": string[],
+  "weaknesses": string[],
+  "recommendations": string[] (ordered by impact)
+}`;
+
 export async function scoreEngagement(
-  input: ScoreEngagementInput
-): Promise<string> {
-  const { brand_or_topic, platform } = input;
-  await log("info", "Starting engagement scoring", { brand_or_topic, platform });
+  input: ScoreEngagementInput,
+  ctx: ToolContext = {}
+): Promise<ToolReport<EngagementData>> {
+  const { brand_or_topic, platform, output_format } = input;
+  const locale = resolveLocale(input);
+  await log("info", "Starting engagement scoring", { brand_or_topic, platform, locale: localeTag(locale) });
+  const sources = createSourceTracker({ ...ctx, locale });
 
   const platformStr = platform || "social media";
 
-  // Step 1: Search for engagement data
+  // Step 1: Measured engagement from the platform API when brand_or_topic is a handle
+  const looksLikeHandle = /^@?[\w.]+$/.test(brand_or_topic.trim());
+  const platformProfile = looksLikeHandle ? await fetchPlatformProfile(platform, brand_or_topic, ctx.signal) : null;
+  const apiContext = platformProfile
+    ? platformDataContext(
+        platformProfile,
+        sources.record(platformProfile.url, `${platformProfile.platform} API: @${platformProfile.handle}`, `${platformProfile.platform}-api`)
+      )
+    : "";
+
+  // Step 2: Search for engagement data
   const queries = [
     `${brand_or_topic} ${platformStr} engagement rate`,
     `${brand_or_topic} ${platformStr} likes comments shares`,
     `${brand_or_topic} social media analytics metrics`,
     `${brand_or_topic} ${platformStr} best posts viral content`,
+    ...localQueries(locale, ["engagement", "brand"], { topic: brand_or_topic, brand: brand_or_topic, platform: platform || "" }),
   ];
 
-  const allResults: { title: string; url: string; snippet: string }[] = [];
+  const allResults: SearchResult[] = [];
   for (const q of queries) {
-    const results = await searchWeb(q, 8);
+    const results = await sources.search(q, 8);
     allResults.push(...results);
   }
 
@@ -37,44 +99,59 @@ export async function scoreEngagement(
     return true;
   });
 
-  // Step 2: Fetch analytics-related pages
-  const pages = await Promise.all(
-    unique.slice(0, 5).map(async (r) => {
-      const page = await fetchPage(r.url).catch(() => null);
-      return {
-        url: r.url,
-        title: r.title,
-        snippet: r.snippet,
-        textPreview: page ? page.textContent.slice(0, 600) : null,
-      };
-    })
+  // Step 3: Fetch analytics-related pages, newest first
+  const pages = rankByFreshness(
+    await Promise.all(
+      unique.slice(0, 5).map(async (r) => {
+        const page = await sources.fetch(r.url);
+        return {
+          source: sources.ref(r.url),
+          url: r.url,
+          title: r.title,
+          snippet: r.snippet,
+          publishedAt: page?.publishedAt ?? null,
+          textPreview: page ? page.textContent.slice(0, 600) : null,
+        };
+      })
+    ),
+    STALE_AFTER_DAYS
   );
 
-  // Step 3: Search for industry benchmarks
-  const benchmarkResults = await searchWeb(
-    `${platformStr} engagement rate benchmarks 2026 by industry`,
-    5
-  );
+  // Step 4: Search for industry benchmarks, the region's own first
+  const benchmarkResults: SearchResult[] = [];
+  for (const q of benchmarkQueries(locale, platform, currentYear())) {
+    for (const r of await sources.search(q, 5)) {
+      if (!benchmarkResults.some((b) => b.url === r.url)) benchmarkResults.push(r);
+    }
+  }
 
-  const benchmarkPages = await Promise.all(
-    benchmarkResults.slice(0, 2).map(async (r) => {
-      const page = await fetchPage(r.url).catch(() => null);
-      return {
-        url: r.url,
-        title: r.title,
-        textPreview: page ? page.textContent.slice(0, 800) : r.snippet,
-      };
-    })
+  const benchmarkPages = rankByFreshness(
+    await Promise.all(
+      benchmarkResults.slice(0, locale.region ? 3 : 2).map(async (r) => {
+        const page = await sources.fetch(r.url);
+        return {
+          source: sources.ref(r.url),
+          url: r.url,
+          title: r.title,
+          publishedAt: page?.publishedAt ?? null,
+          textPreview: page ? page.textContent.slice(0, 800) : r.snippet,
+        };
+      })
+    ),
+    STALE_AFTER_DAYS
   );
 
-  // Step 4: AI analysis
+  // Step 5: AI analysis
   const searchContext = unique
     .slice(0, 15)
-    .map((r) => `- ${r.title}: ${r.snippet}`)
+    .map((r) => `- [${sources.ref(r.url)}] ${r.title}: ${r.snippet}`)
     .join("\n");
 
-  const report = await analyze(
-    `You are a social media engagement analyst. Score and analyze social media engagement for a brand or topic.
+  const report = await generateReport({
+    tool: "score_engagement",
+    ctx,
+    format: output_format,
+    systemPrompt: `You are a social media engagement analyst. Score and analyze social media engagement for a brand or topic.
 
 Structure your report as:
 ## Engagement Analysis: ${brand_or_topic}
@@ -120,9 +197,11 @@ Numbered, specific recommendations:
 4. [Platform-specific optimization]
 5. [Long-term engagement strategy]
 
-Be specific and reference actual data patterns from the research.`,
-    `Brand/Topic: ${brand_or_topic}
-${platform ? `Platform: ${platform}` : "Platforms: All major platforms"}
+Be specific and reference actual data patterns from the research.
+${PLATFORM_DATA_INSTRUCTIONS}`,
+    userPrompt: `Brand/Topic: ${brand_or_topic}
+${platform ? `Platform: ${platform}\n${platformPromptContext(platform)}` : "Platforms: All major platforms"}
+${apiContext}
 
 Search Results:
 ${searchContext}
@@ -134,8 +213,12 @@ Industry Benchmarks Data:
 ${JSON.stringify(benchmarkPages, null, 2)}
 
 Provide a detailed engagement scoring and analysis report.`,
-    3000
-  );
+    sources,
+    maxTokens: 3000,
+    jsonPrompt: ENGAGEMENT_JSON_PROMPT,
+    schema: engagementDataSchema,
+    locale,
+  });
 
   await log("info", "Engagement scoring complete", {
     brand_or_topic,
@@ -0,0 +1,109 @@
+import { z } from "zod";
+import type { OutputFormat, ToolContext, ToolReport } from "../lib/report";
+import { extractHashtags, normalizeHashtag } from "../lib/hashtags";
+import { checkHashtag, HASHTAG_SAFETY_UPDATED, HASHTAG_SAFETY_VERSION } from "../lib/hashtag-safety";
+import type { HashtagCheck } from "../lib/hashtag-safety";
+import { getPlatform } from "../lib/platforms";
+import { log } from "../lib/logger";
+
+export interface CheckHashtagsInput {
+  hashtags?: string[];
+  caption?: string;
+  platform?: string;
+  output_format?: OutputFormat;
+}
+
+export const hashtagCheckDataSchema = z.object({
+  platform: z.string().nullable(),
+  dataset_version: z.string(),
+  dataset_updated: z.string(),
+  hashtags: z.array(
+    z.object({
+      tag: z.string(),
+      status: z.enum(["safe", "restricted", "banned", "overused"]),
+      category: z.enum(["banned", "restricted", "spam", "overused"]).nullable(),
+      reason: z.string().nullable(),
+      platforms: z.array(z.string()),
+    })
+  ),
+  summary: z.object({
+    safe: z.number(),
+    restricted: z.number(),
+    banned: z.number(),
+    overused: z.number(),
+  }),
+  warnings: z.array(z.string()).describe("Duplicate tags and counts above the platform's recommended range"),
+});
+
+export type HashtagCheckData = z.infer<typeof hashtagCheckDataSchema>;
+
+export async function checkHashtags(
+  input: CheckHashtagsInput,
+  _ctx: ToolContext = {}
+): Promise<ToolReport<HashtagCheckData>> {
+  const { caption, platform, output_format } = input;
+  const tags = [
+    ...(input.hashtags || []).map((t) => (t.trim().startsWith("#") ? t.trim() : `#${t.trim()}`)),
+    ...(caption ? extractHashtags(caption) : []),
+  ];
+  if (tags.length === 0) throw new Error("Provide hashtags or a caption containing hashtags.");
+
+  const warnings: string[] = [];
+  const seen = new Map<string, string>();
+  const checks: HashtagCheck[] = [];
+  for (const tag of tags) {
+    const key = normalizeHashtag(tag);
+    if (seen.has(key)) {
+      const first = seen.get(key)!;
+      warnings.push(first === tag ? `${tag} is used more than once` : `${tag} repeats ${first}`);
+      continue;
+    }
+    seen.set(key, tag);
+    checks.push(checkHashtag(tag, platform));
+  }
+
+  const info = platform ? getPlatform(platform) : null;
+  if (info) {
+    const max = parseInt(info.hashtags.optimalCount.split("-").pop() || "");
+    if (!info.hashtags.supported) warnings.push(`${info.label} does not surface hashtags. ${info.hashtags.conventions}`);
+    else if (!isNaN(max) && checks.length > max) {
+      warnings.push(`${checks.length} hashtags is above the ${info.hashtags.optimalCount} recommended for ${info.label}`);
+    }
+  }
+
+  const count = (status: string) => checks.filter((c) => c.status === status).length;
+  const data: HashtagCheckData = {
+    platform: platform || null,
+    dataset_version: HASHTAG_SAFETY_VERSION,
+    dataset_updated: HASHTAG_SAFETY_UPDATED,
+    hashtags: checks,
+    summary: { safe: count("safe"), restricted: count("restricted"), banned: count("banned"), overused: count("overused") },
+    warnings,
+  };
+  await log("info", "Hashtag check", { platform, checked: checks.length, flagged: checks.length - data.summary.safe });
+
+  const format = output_format || "markdown";
+  return {
+    format,
+    markdown: format !== "json" ? renderCheck(data) : undefined,
+    data: format !== "markdown" ? data : undefined,
+    sources: [],
+  };
+}
+
+function renderCheck(data: HashtagCheckData): string {
+  const flagged = data.hashtags.filter((h) => h.status !== "safe");
+  const lines = [
+    `## Hashtag Check${data.platform ? `: ${data.platform}` : ""}`,
+    `**Checked:** ${data.hashtags.length} hashtags · ${flagged.length} flagged · dataset v${data.dataset_version} (updated ${data.dataset_updated})`,
+    "",
+    "| Hashtag | Status | Reason |",
+    "|---------|--------|--------|",
+    ...data.hashtags.map((h) => `| ${h.tag} | ${h.status === "safe" ? "safe" : `**${h.status}**`} | ${h.reason ?? ""} |`),
+  ];
+  if (data.warnings.length) lines.push("", "### Warnings", ...data.warnings.map((w) => `- ${w}`));
+  if (!data.platform) {
+    lines.push("", "_No platform given, so flags from every platform are shown. Pass platform to check against one._");
+  }
+  return lines.join("\n");
+}
@@ -1,33 +1,111 @@
-import { searchWeb, fetchPage } from "../lib/scraper";
-import { analyze } from "../lib/openai";
+import type { SearchResult } from "../lib/scraper";
+import { z } from "zod";
+import { generateReport } from "../lib/report";
+import { createSourceTracker } from "../lib/sources";
+import type { OutputFormat, ToolContext, ToolReport } from "../lib/report";
 import { log } from "../lib/logger";
-
-export interface ResearchHashtagsInput {
+import { currentYear, rankByFreshness, STALE_AFTER_DAYS } from "../lib/dates";
+import { getPlatform, platformPromptContext, HASHTAG_PLATFORM_IDS, PLATFORMS } from "../lib/platforms";
+import type { PlatformInfo } from "../lib/platforms";
+import { analyzeHashtags, extractHashtags, normalizeHashtag } from "../lib/hashtags";
+import type { HashtagAnalysis, HashtagDocument } from "../lib/hashtags";
+import { checkHashtag, isSafeHashtag, HASHTAG_SAFETY_VERSION } from "../lib/hashtag-safety";
+import type { HashtagCheck } from "../lib/hashtag-safety";
+import { localeTag, localQueries, resolveLocale } from "../lib/locale";
+import type { LocaleInput } from "../lib/locale";
+
+export interface ResearchHashtagsInput extends LocaleInput {
   topic: string;
   platform?: string;
   count?: number;
+  output_format?: OutputFormat;
 }
 
+const setsSchema = z.object({
+  educational: z.array(z.string()),
+  promotional: z.array(z.string()),
+  community: z.array(z.string()),
+});
+
+/** Commentary the model adds; tags, counts and tiers come from lib/hashtags */
+const hashtagCommentarySchema = z.object({
+  use_cases: z.array(z.object({ tag: z.string(), use_case: z.string() })),
+  branded: z.array(z.string()),
+  sets: setsSchema,
+  optimal_count: z.string(),
+});
+
+export const hashtagDataSchema = z.object({
+  topic: z.string(),
+  platform: z.string().nullable(),
+  source_count: z.number().describe("Sources the hashtags were counted in"),
+  hashtags: z.array(
+    z.object({
+      tag: z.string(),
+      variants: z.array(z.string()).describe("Other case variants folded into this tag"),
+      frequency: z.number().describe("Total occurrences across sources"),
+      source_count: z.number().describe("Distinct sources using the tag"),
+      tier: z.enum(["high", "medium", "niche"]),
+      cluster: z.string().describe("Top tag of the cluster this tag belongs to"),
+      related: z.array(z.string()).describe("Tags most often used alongside it"),
+      use_case: z.string().nullable(),
+    })
+  ),
+  clusters: z.array(z.object({ label: z.string(), tags: z.array(z.string()) })),
+  tiers: z.object({
+    high_volume: z.array(z.string()),
+    medium_volume: z.array(z.string()),
+    niche: z.array(z.string()),
+    branded: z.array(z.string()),
+  }),
+  sets: setsSchema,
+  optimal_count: z.string(),
+  avoid: z
+    .array(
+      z.object({
+        tag: z.string(),
+        status: z.enum(["restricted", "banned", "overused"]),
+        reason: z.string().nullable(),
+      })
+    )
+    .describe("Tags found in the sources but left out because the safety dataset flags them"),
+  safety_dataset_version: z.string(),
+});
+
+export type HashtagData = z.infer<typeof hashtagDataSchema>;
+
+const HASHTAG_JSON_PROMPT = `You are a social media hashtag strategist. Summarize the commentary in a hashtag report as JSON with exactly these fields (tags include the leading #):
+{
+  "use_cases": [{ "tag": string, "use_case": string }] (one per measured hashtag the report discusses),
+  "branded": string[] (suggested branded hashtag ideas),
+  "sets": { "educational": string[], "promotional": string[], "community": string[] },
+  "optimal_count": string
+}`;
+
 export async function researchHashtags(
-  input: ResearchHashtagsInput
-): Promise<string> {
-  const { topic, platform, count } = input;
+  input: ResearchHashtagsInput,
+  ctx: ToolContext = {}
+): Promise<ToolReport<HashtagData>> {
+  const { topic, platform, count, output_format } = input;
   const targetCount = Math.min(count || 20, 30);
   const platformStr = platform || "social media";
-  await log("info", "Starting hashtag research", { topic, platform, targetCount });
+  const locale = resolveLocale(input);
+  await log("info", "Starting hashtag research", { topic, platform, targetCount, locale: localeTag(locale) });
+  const sources = createSourceTracker({ ...ctx, locale });
 
   // Step 1: Search for popular hashtags in this topic
   const queries = [
-    `best ${platformStr} hashtags for ${topic} 2026`,
+    `best ${platformStr} hashtags for ${topic} ${currentYear()}`,
     `#${topic.replace(/\s+/g, "")} popular hashtags`,
     `${topic} trending hashtags ${platformStr}`,
     `${topic} hashtag strategy niche hashtags`,
     `top ${platformStr} hashtags ${topic} engagement`,
+    ...localQueries(locale, ["hashtags", "trends"], { topic, platform: platform || "", year: currentYear() }),
   ];
 
-  const allResults: { title: string; url: string; snippet: string }[] = [];
+  const allResults: SearchResult[] = [];
   for (const q of queries) {
-    const results = await searchWeb(q, 8);
+    const results = await sources.search(q, 8);
     allResults.push(...results);
   }
 
@@ -39,18 +117,24 @@ export async function researchHashtags(
     return true;
   });
 
-  // Step 2: Fetch hashtag guide pages for deeper data
-  const hashtagPages = await Promise.all(
-    unique.slice(0, 6).map(async (r) => {
-      const page = await fetchPage(r.url).catch(() => null);
-      return {
-        url: r.url,
-        title: r.title,
-        snippet: r.snippet,
-        textPreview: page ? page.textContent.slice(0, 1000) : null,
-        h2: page ? page.h2.slice(0, 8) : [],
-      };
-    })
+  // Step 2: Fetch hashtag guide pages for deeper data, newest first
+  const hashtagPages = rankByFreshness(
+    await Promise.all(
+      unique.slice(0, 6).map(async (r) => {
+        const page = await sources.fetch(r.url);
+        return {
+          source: sources.ref(r.url),
+          url: r.url,
+          title: r.title,
+          snippet: r.snippet,
+          publishedAt: page?.publishedAt ?? null,
+          text: page?.textContent ?? null,
+          textPreview: page ? page.textContent.slice(0, 1000) : null,
+          h2: page ? page.h2.slice(0, 8) : [],
+        };
+      })
+    ),
+    STALE_AFTER_DAYS
   );
 
   // Step 3: Search for hashtag performance data
@@ -59,34 +143,40 @@ export async function researchHashtags(
     `${topic} hashtag reach engagement rate`,
   ];
 
-  const perfResults: { title: string; url: string; snippet: string }[] = [];
+  const perfResults: SearchResult[] = [];
   for (const q of performanceQueries) {
-    const results = await searchWeb(q, 5);
+    const results = await sources.search(q, 5);
     perfResults.push(...results);
   }
 
-  // Step 4: Extract hashtags from search snippets and page content
-  const allText = [
-    ...unique.map((r) => r.snippet),
-    ...hashtagPages.filter((p) => p.textPreview).map((p) => p.textPreview!),
-  ].join(" ");
-
-  const hashtagRegex = /#[a-zA-Z][a-zA-Z0-9_]{1,29}/g;
-  const foundHashtags = [...new Set(allText.match(hashtagRegex) || [])];
+  // Step 4: Count, cluster and tier hashtags across every source
+  const docs = new Map<string, HashtagDocument>();
+  for (const r of [...unique, ...perfResults]) {
+    // The same result often comes back for several queries; count it once
+    if (!docs.has(r.url)) docs.set(r.url, { url: r.url, text: `${r.title} ${r.snippet}` });
+  }
+  for (const p of hashtagPages) {
+    if (p.text) docs.get(p.url)!.text += ` ${p.text}`;
+  }
+  // Step 5: Drop tags the safety dataset flags before ranking, so `count` safe tags remain
+  const { analysis, flagged } = analyzeSafeHashtags([...docs.values()], targetCount, platform);
 
-  // Step 5: AI analysis
+  // Step 6: AI analysis
   const searchContext = unique
     .slice(0, 15)
-    .map((r) => `- ${r.title}: ${r.snippet}`)
+    .map((r) => `- [${sources.ref(r.url)}] ${r.title}: ${r.snippet}`)
     .join("\n");
 
   const perfContext = perfResults
     .slice(0, 8)
-    .map((r) => `- ${r.title}: ${r.snippet}`)
+    .map((r) => `- [${sources.ref(r.url)}] ${r.title}: ${r.snippet}`)
     .join("\n");
 
-  const report = await analyze(
-    `You are a social media hashtag strategist. Research and recommend hashtags for a topic.
+  const commentary = await generateReport({
+    tool: "research_hashtags",
+    ctx,
+    format: output_format,
+    systemPrompt: `You are a social media hashtag strategist. Research and recommend hashtags for a topic.
 
 Structure your report as:
 ## Hashtag Research: ${topic}
@@ -94,19 +184,16 @@ ${platform ? `**Platform:** ${platform}` : "**Cross-platform recommendations**"}
 
 ### Top ${targetCount} Recommended Hashtags
 
-Organize into tiers:
+The hashtags, their counts and their tiers were measured from the sources and are given in the data. Keep every tag in the tier it was given and do not estimate popularity or volume; add commentary only:
 
-**High-Volume (broad reach, high competition):**
-List 5-7 hashtags with:
-- Hashtag name
-- Estimated popularity (high/medium/low based on available data)
-- Best use case
+**High-Volume (most widespread in the sources):**
+For each measured high-tier hashtag: best use case and how it relates to its cluster
 
-**Medium-Volume (balanced reach & discoverability):**
-List 5-7 hashtags with same format
+**Medium-Volume:**
+Same format for the medium tier
 
-**Niche/Low-Volume (targeted, highly relevant):**
-List 5-7 hashtags with same format
+**Niche (seen in a single source):**
+Same format for the niche tier
 
 **Branded/Unique:**
 List 2-3 suggested branded hashtag ideas
@@ -114,18 +201,17 @@ List 2-3 suggested branded hashtag ideas
 ### Hashtag Sets
 Pre-built copy-paste sets for different content types:
 
-**Educational content:** [10 hashtags]
-**Promotional content:** [10 hashtags]
-**Community engagement:** [10 hashtags]
+**Educational content:** [up to 10 measured hashtags]
+**Promotional content:** [up to 10 measured hashtags]
+**Community engagement:** [up to 10 measured hashtags]
 
 ### Platform-Specific Recommendations
-${platform ? `- Optimal number of hashtags for ${platform}` : "- Optimal hashtag counts by platform (Instagram, Twitter, TikTok, LinkedIn)"}
+${platform ? `- Optimal number of hashtags for ${platform} (guideline: ${getPlatform(platform)?.hashtags.optimalCount})` : `- Optimal hashtag counts by platform (${HASHTAG_PLATFORM_IDS.map((id) => `${PLATFORMS[id].label}: ${PLATFORMS[id].hashtags.optimalCount}`).join(", ")})`}
 - Placement strategy (caption vs comment, inline vs end)
 - Hashtag rotation strategy to avoid shadowban
 
 ### Hashtags to Avoid
-- Banned or restricted hashtags in this niche
-- Overused/spam-associated hashtags
+- The flagged hashtags given in the data, with the dataset's reason for each; do not name other banned or restricted tags
 - Irrelevant trending hashtags to skip
 
 ### Performance Tips
@@ -133,13 +219,13 @@ ${platform ? `- Optimal number of hashtags for ${platform}` : "- Optimal hashtag
 - How to test hashtag effectiveness
 - Rotation schedule recommendations
 
-Be specific — provide actual hashtag recommendations, not just categories.`,
-    `Topic: ${topic}
-${platform ? `Platform: ${platform}` : "Platforms: All major platforms"}
+Only recommend hashtags from the measured list, plus your branded ideas. Be specific — provide actual hashtag recommendations, not just categories.`,
+    userPrompt: `Topic: ${topic}
+${platform ? `Platform: ${platform}\n${platformPromptContext(platform)}` : "Platforms: All major platforms"}
 Requested count: ${targetCount}
 
-Hashtags Found in Search Data:
-${foundHashtags.slice(0, 30).join(", ") || "None extracted directly"}
+Measured Hashtags (${analysis.source_count} sources; tag — tier, uses, sources, cluster):
+${analysis.hashtags.map((h) => `- ${h.tag} — ${h.tier}, ${h.frequency} uses, ${h.source_count} sources, cluster ${h.cluster}`).join("\n") || "None found in the sources"}
 
 Search Results:
 ${searchContext}
@@ -148,18 +234,139 @@ Performance Data:
 ${perfContext}
 
 Detailed Page Analysis:
-${JSON.stringify(hashtagPages.filter((p) => p.textPreview), null, 2)}
+${JSON.stringify(hashtagPages.filter((p) => p.textPreview).map(({ text, ...p }) => p), null, 2)}
 
-Provide ${targetCount} specific hashtag recommendations organized by tier.`,
-    3500
-  );
+Flagged by the hashtag safety dataset v${HASHTAG_SAFETY_VERSION} (already removed from the measured list):
+${flagged.map((f) => `- ${f.tag} — ${f.status}: ${f.reason}`).join("\n") || "None"}
+
+Write commentary for the measured hashtags, organized by their tiers.`,
+    sources,
+    maxTokens: 3500,
+    jsonPrompt: HASHTAG_JSON_PROMPT,
+    schema: hashtagCommentarySchema,
+    locale,
+  });
+
+  const report: ToolReport<HashtagData> = {
+    ...commentary,
+    markdown: commentary.markdown && `${commentary.markdown}\n\n${evidenceTable(analysis, flagged)}`,
+    data: commentary.data && hashtagData(topic, platform, analysis, flagged, commentary.data),
+  };
 
   await log("info", "Hashtag research complete", {
     topic,
     platform,
-    hashtags_found: foundHashtags.length,
+    hashtags_found: analysis.hashtags.length,
+    hashtags_flagged: flagged.length,
     sources_analyzed: unique.length,
   });
 
   return report;
 }
+
+/** Prompt block listing researched tags by tier plus the suggested sets */
+export function researchedHashtagsContext(hashtags: HashtagData): string {
+  const { tiers, sets } = hashtags;
+  return `Researched hashtags:
+- Widely used: ${tiers.high_volume.join(" ") || "none"}
+- Medium: ${tiers.medium_volume.join(" ") || "none"}
+- Niche: ${tiers.niche.join(" ") || "none"}
+- Branded: ${tiers.branded.join(" ") || "none"}
+Suggested sets: educational ${sets.educational.join(" ")}; promotional ${sets.promotional.join(" ")}; community ${sets.community.join(" ")}`;
+}
+
+/**
+ * Keeps the model's tags that research measured (or that name the brand),
+ * drops anything the safety dataset flags, and caps the count at the top of
+ * the platform's recommended range.
+ */
+export function pickResearchedHashtags(tags: string[], platform: PlatformInfo, research: HashtagData | undefined, brand?: string): string[] {
+  if (!platform.hashtags.supported) return [];
+  const measured = research
+    ? new Set([...research.hashtags.map((h) => h.tag), ...Object.values(research.sets).flat(), ...research.tiers.branded].map(normalizeHashtag))
+    : null;
+  const brandKey = brand ? normalizeHashtag(`#${brand.replace(/\s+/g, "")}`).slice(1) : null;
+  const max = parseInt(platform.hashtags.optimalCount.split("-").pop() || "") || tags.length;
+
+  const picked = new Map<string, string>();
+  for (const raw of tags) {
+    const tag = raw.trim().startsWith("#") ? raw.trim() : `#${raw.trim()}`;
+    const key = normalizeHashtag(tag);
+    if (picked.has(key) || !isSafeHashtag(tag, platform.id)) continue;
+    if (measured && !measured.has(key) && !(brandKey && key.includes(brandKey))) continue;
+    picked.set(key, tag);
+  }
+  return [...picked.values()].slice(0, max);
+}
+
+/** Analyzes only the tags the safety dataset passes; flagged tags are listed by how many sources used them */
+function analyzeSafeHashtags(
+  docs: HashtagDocument[],
+  limit: number,
+  platform: string | undefined
+): { analysis: HashtagAnalysis; flagged: HashtagCheck[] } {
+  const flagged = new Map<string, { check: HashtagCheck; sources: Set<string> }>();
+  for (const doc of docs) {
+    for (const tag of extractHashtags(doc.text)) {
+      const check = checkHashtag(tag, platform);
+      if (check.status === "safe") continue;
+      const key = normalizeHashtag(tag);
+      if (!flagged.has(key)) flagged.set(key, { check, sources: new Set() });
+      flagged.get(key)!.sources.add(doc.url);
+    }
+  }
+  return {
+    analysis: analyzeHashtags(docs, limit, (tag) => !flagged.has(normalizeHashtag(tag))),
+    flagged: [...flagged.values()].sort((a, b) => b.sources.size - a.sources.size).map((f) => f.check),
+  };
+}
+
+function hashtagData(
+  topic: string,
+  platform: string | undefined,
+  analysis: HashtagAnalysis,
+  flagged: HashtagCheck[],
+  commentary: z.infer<typeof hashtagCommentarySchema>
+): HashtagData {
+  const useCases = new Map(commentary.use_cases.map((u) => [normalizeHashtag(u.tag), u.use_case]));
+  const measured = new Set(analysis.hashtags.map((h) => normalizeHashtag(h.tag)));
+  const branded = commentary.branded
+    .map((t) => (t.startsWith("#") ? t : `#${t}`))
+    .filter((t) => checkHashtag(t, platform).status === "safe");
+  const allowed = new Set([...measured, ...branded.map(normalizeHashtag)]);
+  // Sets may only use measured tags and the suggested branded ones
+  const onlyAllowed = (tags: string[]) => tags.filter((t) => allowed.has(normalizeHashtag(t)));
+  const tier = (name: string) => analysis.hashtags.filter((h) => h.tier === name).map((h) => h.tag);
+
+  return {
+    topic,
+    platform: platform || null,
+    source_count: analysis.source_count,
+    hashtags: analysis.hashtags.map((h) => ({ ...h, use_case: useCases.get(normalizeHashtag(h.tag)) ?? null })),
+    clusters: analysis.clusters,
+    tiers: { high_volume: tier("high"), medium_volume: tier("medium"), niche: tier("niche"), branded },
+    sets: {
+      educational: onlyAllowed(commentary.sets.educational),
+      promotional: onlyAllowed(commentary.sets.promotional),
+      community: onlyAllowed(commentary.sets.community),
+    },
+    optimal_count: commentary.optimal_count,
+    avoid: flagged.map((f) => ({ tag: f.tag, status: f.status as Exclude<HashtagCheck["status"], "safe">, reason: f.reason })),
+    safety_dataset_version: HASHTAG_SAFETY_VERSION,
+  };
+}
+
+function evidenceTable(analysis: HashtagAnalysis, flagged: HashtagCheck[]): string {
+  const removed = flagged.length
+    ? `\n\nLeft out by the hashtag safety dataset v${HASHTAG_SAFETY_VERSION}: ${flagged.map((f) => `${f.tag} (${f.status})`).join(", ")}`
+    : "";
+  if (analysis.hashtags.length === 0) {
+    return `### Hashtag Evidence\nNo usable hashtags were found in the ${analysis.source_count} sources.${removed}`;
+  }
+  return `### Hashtag Evidence
+Counted across ${analysis.source_count} sources. Tiers reflect how widely each tag appears in them, not platform-wide volume.
+
+| Hashtag | Tier | Uses | Sources | Cluster |
+|---------|------|------|---------|---------|
+${analysis.hashtags.map((h) => `| ${h.tag} | ${h.tier} | ${h.frequency} | ${h.source_count} | ${h.cluster} |`).join("\n")}${removed}`;
+}
@@ -0,0 +1,478 @@
+import type { SearchResult } from "../lib/scraper";
+import { z } from "zod";
+import { addUsage, generateReport } from "../lib/report";
+import { createSourceTracker } from "../lib/sources";
+import type { SourceTracker } from "../lib/sources";
+import type { OutputFormat, ReportUsage, ToolContext, ToolReport } from "../lib/report";
+import { analyzeJSON } from "../lib/openai";
+import { log } from "../lib/logger";
+import { currentYear } from "../lib/dates";
+import { getPlatform, platformDomain, platformPromptContext, profileHandle, PLATFORM_IDS } from "../lib/platforms";
+import { engagementStats, fetchPlatformProfile } from "../lib/connectors";
+import type { EngagementStats, PlatformProfile } from "../lib/connectors";
+import { extractHashtags } from "../lib/hashtags";
+import { checkHashtag } from "../lib/hashtag-safety";
+import { localeTag, localQueries, resolveLocale } from "../lib/locale";
+import type { LocaleInput } from "../lib/locale";
+
+export const AUDIENCE_BANDS = {
+  nano: { min: 1_000, max: 10_000, label: "nano (1K-10K followers)" },
+  micro: { min: 10_000, max: 100_000, label: "micro (10K-100K followers)" },
+  mid: { min: 100_000, max: 500_000, label: "mid-tier (100K-500K followers)" },
+  macro: { min: 500_000, max: 1_000_000, label: "macro (500K-1M followers)" },
+  mega: { min: 1_000_000, max: Infinity, label: "mega (1M+ followers)" },
+} as const;
+
+export type AudienceBand = keyof typeof AUDIENCE_BANDS;
+
+export const audienceBandSchema = z.enum(Object.keys(AUDIENCE_BANDS) as [AudienceBand, ...AudienceBand[]]);
+
+export interface FindInfluencersInput extends LocaleInput {
+  niche: string;
+  platform: string;
+  audience_size?: AudienceBand;
+  count?: number;
+  output_format?: OutputFormat;
+}
+
+// Candidates vetted per shortlist slot; discovery is noisy, so some will drop out
+const VET_PER_SLOT = 2;
+const MAX_VETTED = 20;
+const ASSESS_BATCH_SIZE = 10;
+
+// Terms that put a creator up for manual review before any brand deal
+const RISK_TERMS = [
+  "scandal", "controversy", "lawsuit", "arrested", "fake followers", "bought followers", "banned", "suspended",
+  "hate speech", "racist", "nsfw", "onlyfans", "scam", "gambling", "betting",
+];
+const RISK_PATTERN = new RegExp(`\\b(${RISK_TERMS.join("|")})\\b`, "gi");
+
+const FOLLOWER_PATTERN = /(\d{1,3}(?:[.,]\d{3})+|\d+(?:[.,]\d+)?)\s*(k|m|thousand|million)?\+?\s+(?:followers|subscribers|fans)\b/i;
+// @mentions in running text; emails are excluded by the lookbehind
+const MENTION_PATTERN = /(?<![\w@.])@([A-Za-z0-9_.]{2,30})\b/g;
+
+const assessmentSchema = z.object({
+  candidates: z.array(
+    z.object({
+      handle: z.string(),
+      is_creator: z.boolean(),
+      relevance: z.number().min(1).max(10),
+      engagement_quality: z.number().min(1).max(10),
+      content_themes: z.array(z.string()),
+      brand_safety_notes: z.string().nullable(),
+      summary: z.string(),
+    })
+  ),
+});
+
+const ASSESS_PROMPT = `You vet social media creators for brand partnerships. For every candidate in the list return an entry with exactly these fields:
+{
+  "candidates": [{
+    "handle": string (as given),
+    "is_creator": boolean (false for brands, publishers, agencies, directories and platform accounts),
+    "relevance": number (1-10, how closely their content matches the niche),
+    "engagement_quality": number (1-10, from measured engagement when given, otherwise from signs of real audience interaction),
+    "content_themes": string[] (up to 4),
+    "brand_safety_notes": string | null (concrete concerns in the data, null if none),
+    "summary": string (one sentence)
+  }]
+}
+Judge each candidate only on the data given for it. Do not assume follower counts or engagement that are not in the data.`;
+
+const shortlistSchema = z.object({
+  rank: z.number(),
+  handle: z.string(),
+  url: z.string().nullable(),
+  display_name: z.string().nullable(),
+  followers: z.number().nullable(),
+  followers_source: z.enum(["api", "search"]).nullable().describe("Platform API, or a count quoted in search results"),
+  audience_band: audienceBandSchema.nullable(),
+  engagement_rate: z.number().nullable().describe("Measured interactions per post as a percent of followers (API only)"),
+  relevance: z.number(),
+  engagement_quality: z.number(),
+  content_themes: z.array(z.string()),
+  brand_safety: z.object({
+    status: z.enum(["clear", "review", "flagged"]),
+    flags: z.array(z.string()),
+  }),
+  score: z.number().describe("0-100 ranking score"),
+  summary: z.string(),
+  discovered_in: z.number().describe("Sources the handle was found in"),
+  sources: z.array(z.number()).describe("Citation numbers of the sources used to vet the candidate"),
+});
+
+type ShortlistEntry = z.infer<typeof shortlistSchema>;
+
+const influencerCommentarySchema = z.object({
+  summary: z.string(),
+  outreach_tips: z.array(z.string()),
+});
+
+export const influencerDataSchema = z.object({
+  niche: z.string(),
+  platform: z.string(),
+  audience_size: audienceBandSchema.nullable(),
+  candidates_found: z.number(),
+  vetted: z.number(),
+  shortlist: z.array(shortlistSchema),
+  excluded: z.array(z.object({ handle: z.string(), reason: z.string() })),
+  summary: z.string(),
+  outreach_tips: z.array(z.string()),
+});
+
+export type InfluencerData = z.infer<typeof influencerDataSchema>;
+
+const INFLUENCER_JSON_PROMPT = `You are an influencer marketing strategist. Summarize the commentary in an influencer shortlist report as JSON with exactly these fields:
+{
+  "summary": string (2-3 sentences),
+  "outreach_tips": string[]
+}`;
+
+interface Candidate {
+  handle: string;
+  url: string | null;
+  sources: Set<number>;
+}
+
+interface VettedCandidate extends Candidate {
+  profile: PlatformProfile | null;
+  stats: EngagementStats | null;
+  followers: number | null;
+  followersSource: "api" | "search" | null;
+  results: SearchResult[];
+  flags: string[];
+  banned: boolean;
+}
+
+export async function findInfluencers(
+  input: FindInfluencersInput,
+  ctx: ToolContext = {}
+): Promise<ToolReport<InfluencerData>> {
+  const { niche, platform, audience_size, output_format } = input;
+  const info = getPlatform(platform);
+  if (!info) throw new Error(`Unknown platform: ${platform}`);
+  const count = Math.min(input.count || 10, 20);
+  const band = audience_size ? AUDIENCE_BANDS[audience_size] : null;
+  const locale = resolveLocale(input);
+  await log("info", "Starting influencer discovery", { niche, platform, audience_size, locale: localeTag(locale) });
+  const sources = createSourceTracker({ ...ctx, locale });
+
+  // Step 1: Discover candidates from listicles, directories and the platform itself
+  const queries = [
+    `top ${niche} ${info.label} influencers ${currentYear()}`,
+    `${niche} creators to follow on ${info.label}`,
+    `${audience_size ? `${audience_size} ` : ""}${niche} influencers ${info.label}`,
+    `site:${platformDomain(info.id)} ${niche}`,
+    ...localQueries(locale, ["influencers"], { topic: niche, platform: info.label }),
+  ];
+
+  const allResults: SearchResult[] = [];
+  for (const q of queries) {
+    const results = await sources.search(q, 10);
+    allResults.push(...results);
+  }
+
+  // Deduplicate
+  const seen = new Set<string>();
+  const unique = allResults.filter((r) => {
+    if (seen.has(r.url)) return false;
+    seen.add(r.url);
+    return true;
+  });
+
+  // Step 2: Read the articles that list creators
+  const articles = unique.filter((r) => !profileHandle(r.url)).slice(0, 5);
+  const pages = await Promise.all(
+    articles.map(async (r) => ({ url: r.url, page: await sources.fetch(r.url) }))
+  );
+
+  // Step 3: Collect handles from profile URLs, links and @mentions
+  const candidates = new Map<string, Candidate>();
+  const add = (handle: string, url: string | null, source: number) => {
+    const key = handle.toLowerCase();
+    // The platform's own accounts show up in every listicle
+    if ((PLATFORM_IDS as readonly string[]).includes(key) || key === "x") return;
+    let c = candidates.get(key);
+    if (!c) {
+      c = { handle, url, sources: new Set() };
+      candidates.set(key, c);
+    }
+    if (!c.url && url) c.url = url;
+    c.sources.add(source);
+  };
+  const fromUrl = (url: string, source: number) => {
+    const profile = profileHandle(url);
+    if (profile?.platform === info.id) add(profile.handle, url, source);
+  };
+  const fromText = (text: string, source: number) => {
+    if (info.id === "linkedin" || info.id === "reddit") return;
+    for (const m of text.matchAll(MENTION_PATTERN)) add(m[1].replace(/\.$/, ""), null, source);
+  };
+
+  for (const r of unique) {
+    const source = sources.ref(r.url);
+    fromUrl(r.url, source);
+    fromText(`${r.title} ${r.snippet}`, source);
+  }
+  for (const { url, page } of pages) {
+    if (!page) continue;
+    const source = sources.ref(url);
+    for (const link of page.links) {
+      try {
+        fromUrl(new URL(link.href, url).toString(), source);
+      } catch {
+        // Malformed href
+      }
+    }
+    fromText(page.textContent, source);
+  }
+
+  const ranked = [...candidates.values()]
+    .sort((a, b) => b.sources.size - a.sources.size)
+    .slice(0, Math.min(count * VET_PER_SLOT, MAX_VETTED));
+  if (ranked.length === 0) throw new Error(`No ${info.label} creators found for "${niche}".`);
+
+  // Step 4: Lightweight vetting — API profile when available, otherwise one search per handle
+  const vetted: VettedCandidate[] = [];
+  for (const c of ranked) {
+    await ctx.progress?.(`Vetting @${c.handle} (${vetted.length + 1}/${ranked.length})`);
+    vetted.push(await vetCandidate(c, info.id, info.label, sources, ctx.signal));
+  }
+
+  // Step 5: Model assessment of relevance and engagement quality, batched per candidate
+  let assessUsage: ReportUsage | undefined;
+  const assessments = new Map<string, z.infer<typeof assessmentSchema>["candidates"][number]>();
+  for (let i = 0; i < vetted.length; i += ASSESS_BATCH_SIZE) {
+    const batch = vetted.slice(i, i + ASSESS_BATCH_SIZE);
+    const result = await analyzeJSON(
+      ASSESS_PROMPT,
+      `Niche: ${niche}
+Platform: ${info.label}
+
+Candidates:
+${batch.map(candidateContext).join("\n\n")}`,
+      assessmentSchema,
+      2000,
+      {
+        tool: "find_influencers",
+        settings: ctx.llm,
+        signal: ctx.signal,
+        onUsage: (usage) => (assessUsage = addUsage(assessUsage, usage)),
+      }
+    );
+    for (const a of result.candidates) assessments.set(a.handle.replace(/^@/, "").toLowerCase(), a);
+  }
+
+  // Step 6: Filter by audience size and score
+  const excluded: InfluencerData["excluded"] = [];
+  const scored: ShortlistEntry[] = [];
+  for (const v of vetted) {
+    const a = assessments.get(v.handle.toLowerCase());
+    if (!a) {
+      excluded.push({ handle: v.handle, reason: "Not assessed" });
+      continue;
+    }
+    if (!a.is_creator) {
+      excluded.push({ handle: v.handle, reason: "Not an individual creator" });
+      continue;
+    }
+    const bandOf = v.followers === null ? null : audienceBand(v.followers);
+    if (band && v.followers !== null && bandOf !== audience_size) {
+      excluded.push({ handle: v.handle, reason: `${v.followers.toLocaleString("en-US")} followers is outside ${band.label}` });
+      continue;
+    }
+    const flags = a.brand_safety_notes ? [...v.flags, a.brand_safety_notes] : v.flags;
+    const status = v.banned ? "flagged" : flags.length ? "review" : "clear";
+    scored.push({
+      rank: 0,
+      handle: v.handle,
+      url: v.url,
+      display_name: v.profile?.display_name ?? null,
+      followers: v.followers,
+      followers_source: v.followersSource,
+      audience_band: bandOf,
+      engagement_rate: v.stats?.engagement_rate ?? null,
+      relevance: a.relevance,
+      engagement_quality: a.engagement_quality,
+      content_themes: a.content_themes,
+      brand_safety: { status, flags },
+      score: score(a.relevance, a.engagement_quality, v.followers, !!band, status),
+      summary: a.summary,
+      discovered_in: v.sources.size,
+      sources: [...new Set([...v.sources, ...v.results.map((r) => sources.ref(r.url))])],
+    });
+  }
+  const shortlist = scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count)
+    .map((s, i) => ({ ...s, rank: i + 1 }));
+
+  // Step 7: AI commentary on the ranked shortlist
+  const commentary = await generateReport({
+    tool: "find_influencers",
+    ctx,
+    format: output_format,
+    systemPrompt: `You are an influencer marketing strategist. Present a vetted shortlist of creators for a niche.
+
+Structure your report as:
+## Influencer Shortlist: ${niche}
+**Platform:** ${info.label}${band ? ` · **Audience size:** ${band.label}` : ""}
+
+### Top Picks
+For the top 3-5 creators: why they fit, reach, engagement quality and any brand-safety notes
+
+### Full Shortlist
+One line per creator in rank order
+
+### Brand-Safety Review
+Creators marked review or flagged and what to check before contacting them
+
+### Outreach Tips
+How to approach creators at this audience size in this niche
+
+The ranking, follower counts and scores were measured or computed already. Keep the given order and numbers; do not estimate followers that are missing.`,
+    userPrompt: `Niche: ${niche}
+Platform: ${info.label}
+${platformPromptContext(info.id)}
+${band ? `Audience size: ${band.label}` : "Audience size: any"}
+
+Shortlist (ranked):
+${JSON.stringify(shortlist.map(({ sources: cited, ...s }) => ({ ...s, sources: cited.slice(0, 5) })), null, 2)}
+
+Excluded candidates:
+${excluded.map((e) => `- @${e.handle}: ${e.reason}`).join("\n") || "None"}
+
+Write the shortlist report.`,
+    sources,
+    maxTokens: 3000,
+    jsonPrompt: INFLUENCER_JSON_PROMPT,
+    schema: influencerCommentarySchema,
+    locale,
+  });
+
+  const report: ToolReport<InfluencerData> = {
+    ...commentary,
+    usage: commentary.usage ? addUsage(assessUsage, commentary.usage) : assessUsage,
+    markdown: commentary.markdown && `${commentary.markdown}\n\n${shortlistTable(shortlist)}`,
+    data: commentary.data && {
+      niche,
+      platform: info.id,
+      audience_size: audience_size || null,
+      candidates_found: candidates.size,
+      vetted: vetted.length,
+      shortlist,
+      excluded,
+      ...commentary.data,
+    },
+  };
+
+  await log("info", "Influencer discovery complete", {
+    niche,
+    platform,
+    candidates: candidates.size,
+    shortlisted: shortlist.length,
+  });
+
+  return report;
+}
+
+async function vetCandidate(
+  c: Candidate,
+  platform: string,
+  label: string,
+  sources: SourceTracker,
+  signal?: AbortSignal
+): Promise<VettedCandidate> {
+  const profile = await fetchPlatformProfile(platform, c.handle, signal);
+  if (profile) sources.record(profile.url, `${profile.platform} API: @${profile.handle}`, `${profile.platform}-api`);
+  const results = await sources.search(`"${c.handle}" ${label}`, 5);
+
+  // Only trust follower counts quoted next to this handle
+  const about = results.filter((r) => `${r.url} ${r.title} ${r.snippet}`.toLowerCase().includes(c.handle.toLowerCase()));
+  const quoted = about.map((r) => parseFollowers(`${r.title} ${r.snippet}`)).find((n) => n !== null) ?? null;
+  const followers = profile?.followers ?? quoted;
+
+  const text = [profile?.bio || "", ...about.map((r) => `${r.title} ${r.snippet}`)].join(" ");
+  const flags: string[] = [];
+  let banned = false;
+  for (const tag of new Set(extractHashtags(text))) {
+    const check = checkHashtag(tag, platform);
+    if (check.status === "banned" || check.status === "restricted") {
+      flags.push(`Uses ${check.status} hashtag ${tag}`);
+      banned ||= check.status === "banned";
+    }
+  }
+  const terms = new Set([...text.matchAll(RISK_PATTERN)].map((m) => m[1].toLowerCase()));
+  for (const term of terms) flags.push(`Mentioned alongside "${term}"`);
+
+  return {
+    ...c,
+    url: c.url ?? profile?.url ?? null,
+    profile,
+    stats: profile ? engagementStats(profile) : null,
+    followers,
+    followersSource: profile?.followers !== undefined ? "api" : quoted !== null ? "search" : null,
+    results: about,
+    flags,
+    banned,
+  };
+}
+
+function candidateContext(v: VettedCandidate): string {
+  const measured = {
+    followers: v.followers,
+    followers_source: v.followersSource,
+    verified: v.profile?.verified,
+    bio: v.profile?.bio,
+    engagement: v.stats,
+    recent_posts: v.profile?.recent_posts.slice(0, 5).map((p) => p.text?.slice(0, 200)),
+  };
+  return `@${v.handle} (found in ${v.sources.size} sources)
+${JSON.stringify(measured)}
+${v.results.map((r) => `- ${r.title}: ${r.snippet}`).join("\n") || "- No search results about this handle"}
+${v.flags.length ? `Automatic flags: ${v.flags.join("; ")}` : ""}`;
+}
+
+/** Follower count quoted in text like "12.5K followers" or "1,204 subscribers" */
+export function parseFollowers(text: string): number | null {
+  const m = text.match(FOLLOWER_PATTERN);
+  if (!m) return null;
+  const unit = m[2]?.toLowerCase();
+  const multiplier = unit === "k" || unit === "thousand" ? 1_000 : unit === "m" || unit === "million" ? 1_000_000 : 1;
+  // "1,204" is a thousands separator; "1,2K" is a decimal comma
+  const value = parseFloat(multiplier === 1 ? m[1].replace(/[.,]/g, "") : m[1].replace(",", "."));
+  return isNaN(value) ? null : Math.round(value * multiplier);
+}
+
+function audienceBand(followers: number): AudienceBand | null {
+  for (const [name, b] of Object.entries(AUDIENCE_BANDS)) {
+    if (followers >= b.min && followers < b.max) return name as AudienceBand;
+  }
+  return null;
+}
+
+/**
+ * Ranking score out of 100. Relevance weighs most; reach counts fully for a
+ * known in-band audience and, with no band requested, grows with audience size.
+ */
+function score(
+  relevance: number,
+  engagement: number,
+  followers: number | null,
+  inBand: boolean,
+  safety: "clear" | "review" | "flagged"
+): number {
+  const reach = followers === null ? 0.3 : inBand ? 1 : Math.min(1, Math.log10(Math.max(followers, 1)) / 7);
+  const safe = safety === "clear" ? 1 : safety === "review" ? 0.5 : 0;
+  return Math.round(100 * (0.35 * (relevance / 10) + 0.25 * (engagement / 10) + 0.25 * reach + 0.15 * safe));
+}
+
+function shortlistTable(shortlist: ShortlistEntry[]): string {
+  if (shortlist.length === 0) return "### Shortlist\nNo candidates passed vetting.";
+  const followers = (s: ShortlistEntry) =>
+    s.followers === null ? "unknown" : `${s.followers.toLocaleString("en-US")}${s.followers_source === "search" ? " (quoted)" : ""}`;
+  return `### Shortlist
+| # | Creator | Followers | Relevance | Engagement | Brand safety | Score |
+|---|---------|-----------|-----------|------------|--------------|-------|
+${shortlist.map((s) => `| ${s.rank} | ${s.url ? `[@${s.handle}](${s.url})` : `@${s.handle}`} | ${followers(s)} | ${s.relevance}/10 | ${s.engagement_quality}/10 | ${s.brand_safety.status} | ${s.score} |`).join("\n")}`;
+}
@@ -0,0 +1,226 @@
+import { z } from "zod";
+import { addUsage } from "../lib/report";
+import type { OutputFormat, ReportUsage, ToolContext, ToolReport } from "../lib/report";
+import { analyzeJSON } from "../lib/openai";
+import { log } from "../lib/logger";
+import { getPlatform, platformPromptContext } from "../lib/platforms";
+import type { PlatformInfo } from "../lib/platforms";
+import { captionMetrics, ruleScores } from "../lib/captions";
+import { LANGUAGES, localeTag, resolveLocale } from "../lib/locale";
+import type { LanguageCode, LocaleInput } from "../lib/locale";
+import { pickResearchedHashtags, researchedHashtagsContext, researchHashtags } from "./hashtag-research";
+import type { HashtagData } from "./hashtag-research";
+
+export interface DraftPostInput extends LocaleInput {
+  topic: string;
+  platform: string;
+  tone?: string;
+  brand?: string;
+  /** Earlier posts whose voice the drafts should match */
+  brand_voice_samples?: string[];
+  variants?: number;
+  output_format?: OutputFormat;
+}
+
+const DEFAULT_TONE = "friendly and clear";
+
+const draftSchema = z.object({
+  variants: z.array(
+    z.object({
+      angle: z.string(),
+      hook: z.string(),
+      body: z.string(),
+      call_to_action: z.string().nullable(),
+      hashtags: z.array(z.string()),
+    })
+  ),
+});
+
+export const draftDataSchema = z.object({
+  topic: z.string(),
+  platform: z.string(),
+  tone: z.string(),
+  hashtag_source: z.enum(["research", "model", "none"]).describe("research: picked from research_hashtags results; model: research failed, model suggestions checked for safety only"),
+  variants: z.array(
+    z.object({
+      angle: z.string(),
+      caption: z.string().describe("Ready-to-post text, hashtags included"),
+      hook: z.string(),
+      hashtags: z.array(z.string()),
+      length: z.number(),
+      max_length: z.number(),
+      shortened: z.boolean().describe("Hashtags or sentences were dropped to fit the platform limit"),
+      hook_in_preview: z.boolean(),
+      reading_ease: z.number().nullable(),
+      hashtag_fit: z.enum(["under", "within", "over", "unsupported"]),
+      cta: z.array(z.string()),
+      scores: z.object({ readability: z.number(), cta: z.number(), hashtags: z.number() }),
+    })
+  ),
+  warnings: z.array(z.string()),
+});
+
+export type DraftData = z.infer<typeof draftDataSchema>;
+
+export async function draftPost(input: DraftPostInput, ctx: ToolContext = {}): Promise<ToolReport<DraftData>> {
+  const { topic, platform, brand, output_format } = input;
+  const info = getPlatform(platform);
+  if (!info) throw new Error(`Unknown platform: ${platform}`);
+  const tone = input.tone || DEFAULT_TONE;
+  const count = Math.min(input.variants || 3, 5);
+  const samples = (input.brand_voice_samples || []).map((s) => s.trim()).filter(Boolean).slice(0, 5);
+  const locale = resolveLocale(input);
+  await log("info", "Starting post drafting", { topic, platform, variants: count, locale: localeTag(locale) });
+
+  // Step 1: Hashtags come from the research flow, as in research_hashtags
+  const warnings: string[] = [];
+  let usage: ReportUsage | undefined;
+  let research: ToolReport<HashtagData> | null = null;
+  if (info.hashtags.supported) {
+    try {
+      research = await researchHashtags(
+        { topic, platform: info.id, language: locale.language, region: locale.region ?? undefined, output_format: "json" },
+        { ...ctx, onToken: undefined }
+      );
+      if (research.usage) usage = addUsage(usage, research.usage);
+    } catch (err: any) {
+      if (ctx.signal?.aborted) throw err;
+      warnings.push(`Hashtag research failed, so hashtags are model suggestions checked only for safety: ${err.message}`);
+      await log("warn", `Draft hashtag research failed: ${err.message}`, { topic, platform });
+    }
+  }
+
+  // Step 2: Draft the variants
+  await ctx.progress?.(`Drafting ${count} ${info.label} captions`);
+  const draft = await analyzeJSON(
+    draftPrompt(info, count, locale.language),
+    `Topic: ${topic}
+${brand ? `Brand: ${brand}\n` : ""}Tone: ${tone}
+${platformPromptContext(info.id)}
+${research?.data ? `\n${researchedHashtagsContext(research.data)}\n` : ""}${
+      samples.length
+        ? `
+Brand voice samples (match their vocabulary, sentence length, emoji use and formatting; do not reuse their content):
+${samples.map((s, i) => `--- Sample ${i + 1} ---\n${s}`).join("\n")}
+`
+        : ""
+    }
+Write ${count} caption variants.`,
+    draftSchema,
+    3000,
+    {
+      tool: "draft_post",
+      settings: ctx.llm,
+      signal: ctx.signal,
+      onUsage: (u) => (usage = addUsage(usage, u)),
+    }
+  );
+
+  // Step 3: Assemble each caption, fit it to the platform limit and measure it
+  const variants: DraftData["variants"] = draft.variants.slice(0, count).map((v) => {
+    const text = [v.hook.trim(), v.body.trim(), v.call_to_action?.trim()].filter(Boolean).join("\n\n");
+    const tags = pickResearchedHashtags(v.hashtags, info, research?.data, brand);
+    const fitted = fitCaption(text, tags, info.caption.maxLength);
+    const metrics = captionMetrics(fitted.caption, info, locale.language);
+    return {
+      angle: v.angle,
+      caption: fitted.caption,
+      hook: metrics.hook,
+      hashtags: fitted.hashtags,
+      length: metrics.length,
+      max_length: metrics.max_length,
+      shortened: fitted.shortened,
+      hook_in_preview: metrics.hook_in_preview,
+      reading_ease: metrics.reading_ease,
+      hashtag_fit: metrics.hashtag_fit,
+      cta: metrics.cta,
+      scores: ruleScores(metrics, metrics.cta.length > 0 || !!v.call_to_action),
+    };
+  });
+  if (variants.length < count) warnings.push(`The model returned ${variants.length} of ${count} variants`);
+
+  const data: DraftData = {
+    topic,
+    platform: info.id,
+    tone,
+    hashtag_source: !info.hashtags.supported ? "none" : research?.data ? "research" : "model",
+    variants,
+    warnings,
+  };
+  await log("info", "Post drafting complete", { topic, platform, variants: variants.length });
+
+  const format = output_format || "markdown";
+  return {
+    format,
+    markdown: format !== "json" ? renderDrafts(data, info) : undefined,
+    data: format !== "markdown" ? data : undefined,
+    usage,
+    sources: research?.sources || [],
+  };
+}
+
+function draftPrompt(platform: PlatformInfo, count: number, language: LanguageCode): string {
+  const budget = platform.caption.maxLength;
+  return `You are a social media copywriter for ${platform.label}. Write ${count} distinct caption variants, each from a different angle (e.g. story, tip, question, bold claim, behind the scenes). Return JSON:
+{
+  "variants": [{
+    "angle": string (a few words naming the approach),
+    "hook": string (the opening line; under ${platform.caption.previewLength} characters so it shows before the feed cuts the text off),
+    "body": string (the rest of the caption, line breaks allowed, no hashtags),
+    "call_to_action": string | null (one closing line asking for a specific action),
+    "hashtags": string[] (with the leading #${platform.hashtags.supported ? `, ${platform.hashtags.optimalCount} per variant, chosen from the researched hashtags when given` : `; ${platform.label} does not use hashtags, so return []`})
+  }]
+}
+Hook, body and call to action together must stay under ${budget.toLocaleString("en-US")} characters${budget <= 500 ? ", leaving room for the hashtags" : ""}. Follow ${platform.label}'s conventions for length and formatting.${
+    language !== "en"
+      ? ` Write the captions in ${LANGUAGES[language].name}; keep field names in English.`
+      : ""
+  }`;
+}
+
+/**
+ * Appends hashtags and keeps the caption within the limit. A body over the
+ * limit loses whole sentences from the middle, so the hook and the closing
+ * line (usually the CTA) stay; hashtags are then added while they fit.
+ */
+export function fitCaption(text: string, hashtags: string[], limit: number): { caption: string; hashtags: string[]; shortened: boolean } {
+  const join = (t: string, tags: string[]) => (tags.length ? `${t}\n\n${tags.join(" ")}` : t);
+  const size = (s: string) => [...s].length;
+
+  // Sentences keep their punctuation; blank lines stay with the sentence before them
+  const parts = text.split(/(?<=[.!?\n])/).reduce<string[]>((acc, part) => {
+    if (acc.length && !part.trim()) acc[acc.length - 1] += part;
+    else acc.push(part);
+    return acc;
+  }, []);
+  let body = text;
+  while (size(body) > limit && parts.length > 1) {
+    parts.splice(parts.length > 2 ? -2 : -1, 1);
+    body = parts.join("").trimEnd();
+  }
+  if (size(body) > limit) body = [...body].slice(0, limit - 1).join("").trimEnd() + "…";
+
+  const tags = [...hashtags];
+  while (tags.length && size(join(body, tags)) > limit) tags.pop();
+  return { caption: join(body, tags), hashtags: tags, shortened: body !== text || tags.length < hashtags.length };
+}
+
+function renderDrafts(data: DraftData, platform: PlatformInfo): string {
+  const lines = [
+    `## Post Drafts: ${data.topic}`,
+    `**Platform:** ${platform.label} · **Tone:** ${data.tone} · **Limit:** ${platform.caption.maxLength.toLocaleString("en-US")} characters`,
+  ];
+  data.variants.forEach((v, i) => {
+    lines.push(
+      "",
+      `### Variant ${i + 1}: ${v.angle}`,
+      "```",
+      v.caption,
+      "```",
+      `${v.length.toLocaleString("en-US")}/${v.max_length.toLocaleString("en-US")} characters${v.shortened ? " (shortened to fit)" : ""} · hook ${v.hook_in_preview ? "fits" : "runs past"} the preview · ${v.hashtags.length} hashtags (${v.hashtag_fit}) · ${v.reading_ease !== null ? `reading ease ${v.reading_ease}` : `readability ${v.scores.readability}/10`} · ${v.scores.cta > 2 ? "has a CTA" : "no CTA"}`
+    );
+  });
+  if (data.hashtag_source === "research") lines.push("", "_Hashtags are picked from `research_hashtags` results and checked against the safety dataset._");
+  if (data.warnings.length) lines.push("", "### Warnings", ...data.warnings.map((w) => `- ${w}`));
+  return lines.join("\n");
+}
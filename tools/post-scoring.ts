@@ -0,0 +1,254 @@
+import { z } from "zod";
+import { addUsage } from "../lib/report";
+import type { OutputFormat, ReportUsage, ToolContext, ToolReport } from "../lib/report";
+import { analyzeJSON } from "../lib/openai";
+import { log } from "../lib/logger";
+import { getPlatform, platformPromptContext } from "../lib/platforms";
+import type { PlatformInfo } from "../lib/platforms";
+import { captionMetrics, ruleScores } from "../lib/captions";
+import type { CaptionMetrics } from "../lib/captions";
+import { LANGUAGES, resolveLocale } from "../lib/locale";
+import type { LanguageCode, LocaleInput } from "../lib/locale";
+
+export interface ScorePostInput extends LocaleInput {
+  caption: string;
+  platform: string;
+  /** What the post is about, for judging relevance of the hook */
+  topic?: string;
+  output_format?: OutputFormat;
+}
+
+// Weights of each 1-10 dimension in the 0-100 overall score
+const WEIGHTS = {
+  hook_strength: 0.3,
+  predicted_engagement: 0.25,
+  readability: 0.15,
+  cta: 0.15,
+  hashtags: 0.15,
+};
+
+const reviewSchema = z.object({
+  hook_strength: z.number().min(1).max(10),
+  hook_feedback: z.string(),
+  has_cta: z.boolean(),
+  predicted_engagement: z.enum(["low", "average", "high"]),
+  engagement_score: z.number().min(1).max(10),
+  engagement_rationale: z.string(),
+  improvements: z.array(z.string()),
+  improved_hook: z.string().nullable(),
+});
+
+const dimensionSchema = z.object({
+  score: z.number().describe("1-10"),
+  basis: z.enum(["measured", "model"]),
+  detail: z.string(),
+});
+
+export const postScoreDataSchema = z.object({
+  platform: z.string(),
+  overall: z.number().describe("0-100 weighted score"),
+  dimensions: z.object({
+    hook_strength: dimensionSchema,
+    readability: dimensionSchema,
+    cta: dimensionSchema,
+    hashtags: dimensionSchema,
+    predicted_engagement: dimensionSchema.extend({ level: z.enum(["low", "average", "high"]) }),
+  }),
+  metrics: z.object({
+    length: z.number(),
+    max_length: z.number(),
+    over_limit: z.boolean(),
+    hook: z.string(),
+    hook_in_preview: z.boolean(),
+    words: z.number(),
+    avg_words_per_sentence: z.number(),
+    reading_ease: z.number().nullable(),
+    cta: z.array(z.string()),
+    hashtag_count: z.number(),
+    hashtag_range: z.string(),
+    hashtag_fit: z.enum(["under", "within", "over", "unsupported"]),
+    flagged_hashtags: z.array(z.object({ tag: z.string(), status: z.string(), reason: z.string().nullable() })),
+    emoji: z.number(),
+  }),
+  improvements: z.array(z.string()),
+  improved_hook: z.string().nullable(),
+});
+
+export type PostScoreData = z.infer<typeof postScoreDataSchema>;
+
+export async function scorePost(input: ScorePostInput, ctx: ToolContext = {}): Promise<ToolReport<PostScoreData>> {
+  const { caption, platform, topic, output_format } = input;
+  const info = getPlatform(platform);
+  if (!info) throw new Error(`Unknown platform: ${platform}`);
+  if (!caption.trim()) throw new Error("Provide the caption to score.");
+  const locale = resolveLocale(input);
+
+  // Step 1: Measure what can be measured
+  const metrics = captionMetrics(caption, info, locale.language);
+
+  // Step 2: The model judges the hook and likely engagement, given the measurements
+  let usage: ReportUsage | undefined;
+  await ctx.progress?.("Reviewing hook and engagement potential");
+  const review = await analyzeJSON(
+    reviewPrompt(info, locale.language),
+    `${topic ? `Topic: ${topic}\n` : ""}${platformPromptContext(info.id)}
+
+Measured:
+${JSON.stringify(measuredSummary(metrics))}
+
+Caption:
+"""
+${caption.trim()}
+"""`,
+    reviewSchema,
+    1500,
+    {
+      tool: "score_post",
+      settings: ctx.llm,
+      signal: ctx.signal,
+      onUsage: (u) => (usage = addUsage(usage, u)),
+    }
+  );
+
+  // Step 3: Combine measured and judged dimensions
+  const hasCta = metrics.cta.length > 0 || review.has_cta;
+  const rules = ruleScores(metrics, hasCta);
+  const flagged = metrics.hashtags.filter((h) => h.status !== "safe");
+  const dimensions: PostScoreData["dimensions"] = {
+    hook_strength: { score: Math.round(review.hook_strength), basis: "model", detail: review.hook_feedback },
+    readability: {
+      score: rules.readability,
+      basis: "measured",
+      detail:
+        metrics.reading_ease !== null
+          ? `Reading ease ${metrics.reading_ease}/100, ${metrics.avg_words_per_sentence} words per sentence`
+          : `${metrics.avg_words_per_sentence} words per sentence`,
+    },
+    cta: {
+      score: rules.cta,
+      basis: metrics.cta.length ? "measured" : "model",
+      detail: metrics.cta.length ? `Found: ${metrics.cta.join(", ")}` : hasCta ? "The model found a call to action" : "No call to action",
+    },
+    hashtags: {
+      score: rules.hashtags,
+      basis: "measured",
+      detail: hashtagDetail(metrics, info, flagged.length),
+    },
+    predicted_engagement: {
+      score: Math.round(review.engagement_score),
+      basis: "model",
+      level: review.predicted_engagement,
+      detail: review.engagement_rationale,
+    },
+  };
+  const overall = Math.round(
+    10 * (Object.keys(WEIGHTS) as (keyof typeof WEIGHTS)[]).reduce((sum, k) => sum + WEIGHTS[k] * dimensions[k].score, 0)
+  );
+
+  const improvements = [...review.improvements];
+  if (metrics.over_limit) improvements.unshift(`Cut ${metrics.length - metrics.max_length} characters to fit ${info.label}'s ${metrics.max_length.toLocaleString("en-US")}-character limit.`);
+  if (!metrics.hook_in_preview) improvements.unshift(`Shorten the hook to under ${info.caption.previewLength} characters so it shows before "more".`);
+
+  const data: PostScoreData = {
+    platform: info.id,
+    overall,
+    dimensions,
+    metrics: {
+      length: metrics.length,
+      max_length: metrics.max_length,
+      over_limit: metrics.over_limit,
+      hook: metrics.hook,
+      hook_in_preview: metrics.hook_in_preview,
+      words: metrics.words,
+      avg_words_per_sentence: metrics.avg_words_per_sentence,
+      reading_ease: metrics.reading_ease,
+      cta: metrics.cta,
+      hashtag_count: metrics.hashtags.length,
+      hashtag_range: metrics.hashtag_range,
+      hashtag_fit: metrics.hashtag_fit,
+      flagged_hashtags: flagged.map(({ tag, status, reason }) => ({ tag, status, reason })),
+      emoji: metrics.emoji,
+    },
+    improvements,
+    improved_hook: review.improved_hook,
+  };
+  await log("info", "Post scored", { platform, overall });
+
+  const format = output_format || "markdown";
+  return {
+    format,
+    markdown: format !== "json" ? renderScore(data, info) : undefined,
+    data: format !== "markdown" ? data : undefined,
+    usage,
+    sources: [],
+  };
+}
+
+function reviewPrompt(platform: PlatformInfo, language: LanguageCode): string {
+  return `You are a social media copy editor reviewing a ${platform.label} caption. Length, readability, calls to action and hashtags were measured already; use those numbers rather than re-counting. Return JSON:
+{
+  "hook_strength": number (1-10, how likely the opening line is to stop the scroll: specificity, curiosity, relevance, clarity),
+  "hook_feedback": string (one sentence),
+  "has_cta": boolean (whether the caption asks the reader to do something, in any language),
+  "predicted_engagement": "low" | "average" | "high" (versus typical ${platform.label} posts),
+  "engagement_score": number (1-10),
+  "engagement_rationale": string (one or two sentences),
+  "improvements": string[] (up to 4 concrete edits),
+  "improved_hook": string | null (a stronger opening line in the same voice, or null if the hook is already strong)
+}
+Predicted engagement is a judgement from the copy alone; say so if the caption depends on media you cannot see.${
+    language !== "en" ? ` Write free-text values in ${LANGUAGES[language].name}.` : ""
+  }`;
+}
+
+function measuredSummary(m: CaptionMetrics) {
+  return {
+    length: m.length,
+    max_length: m.max_length,
+    hook: m.hook,
+    hook_in_preview: m.hook_in_preview,
+    words: m.words,
+    avg_words_per_sentence: m.avg_words_per_sentence,
+    reading_ease: m.reading_ease,
+    cta_phrases: m.cta,
+    hashtags: m.hashtags.map((h) => (h.status === "safe" ? h.tag : `${h.tag} (${h.status})`)),
+    hashtag_fit: m.hashtag_fit,
+    emoji: m.emoji,
+    line_breaks: m.line_breaks,
+  };
+}
+
+function hashtagDetail(m: CaptionMetrics, platform: PlatformInfo, flagged: number): string {
+  const count = `${m.hashtags.length} hashtag${m.hashtags.length === 1 ? "" : "s"}`;
+  const fit =
+    m.hashtag_fit === "unsupported"
+      ? `${platform.label} does not surface hashtags`
+      : m.hashtag_fit === "within"
+        ? `within the recommended ${m.hashtag_range}`
+        : `${m.hashtag_fit} the recommended ${m.hashtag_range}`;
+  return `${count}, ${fit}${flagged ? `; ${flagged} flagged by the safety dataset` : ""}`;
+}
+
+function renderScore(data: PostScoreData, platform: PlatformInfo): string {
+  const d = data.dimensions;
+  const row = (name: string, dim: { score: number; basis: string; detail: string }) =>
+    `| ${name} | ${dim.score}/10 | ${dim.basis} | ${dim.detail.replace(/\|/g, "\\|")} |`;
+  const lines = [
+    `## Post Score: ${data.overall}/100`,
+    `**Platform:** ${platform.label} · **Length:** ${data.metrics.length.toLocaleString("en-US")}/${data.metrics.max_length.toLocaleString("en-US")} characters${data.metrics.over_limit ? " (over the limit)" : ""}`,
+    "",
+    "| Dimension | Score | Basis | Detail |",
+    "|-----------|-------|-------|--------|",
+    row("Hook strength", d.hook_strength),
+    row("Readability", d.readability),
+    row("Call to action", d.cta),
+    row("Hashtags", d.hashtags),
+    row(`Predicted engagement (${d.predicted_engagement.level})`, d.predicted_engagement),
+  ];
+  if (data.metrics.flagged_hashtags.length) {
+    lines.push("", "### Flagged Hashtags", ...data.metrics.flagged_hashtags.map((h) => `- ${h.tag}: ${h.status}${h.reason ? ` (${h.reason})` : ""}`));
+  }
+  if (data.improvements.length) lines.push("", "### Improvements", ...data.improvements.map((i) => `- ${i}`));
+  if (data.improved_hook) lines.push("", "### Stronger Hook", `> ${data.improved_hook}`);
+  return lines.join("\n");
+}
@@ -1,33 +1,96 @@
-import { searchWeb, fetchPage } from "../lib/scraper";
-import { analyze } from "../lib/openai";
+import type { SearchResult } from "../lib/scraper";
+import { z } from "zod";
+import { generateReport } from "../lib/report";
+import { createSourceTracker } from "../lib/sources";
+import type { OutputFormat, ToolContext, ToolReport } from "../lib/report";
 import { log } from "../lib/logger";
+import { currentYear } from "../lib/dates";
+import { saveProfileSnapshot } from "../lib/snapshots";
+import type { ProfileSnapshot } from "../lib/snapshots";
+import { platformDomain, platformOf, platformPromptContext } from "../lib/platforms";
+import { fetchPlatformProfile, platformDataContext, PLATFORM_DATA_INSTRUCTIONS } from "../lib/connectors";
+import { localeTag, localQueries, resolveLocale } from "../lib/locale";
+import type { LocaleInput } from "../lib/locale";
 
-export interface AnalyzeProfileInput {
+export interface AnalyzeProfileInput extends LocaleInput {
   username: string;
   platform?: string;
   business_name?: string;
+  output_format?: OutputFormat;
 }
 
+export const profileDataSchema = z.object({
+  username: z.string(),
+  platform: z.string().nullable(),
+  platforms_present: z.array(z.string()),
+  profile_completeness_score: z.number().min(1).max(10),
+  bio_assessment: z.string(),
+  content_types: z.array(z.string()),
+  content_themes: z.array(z.string()),
+  posting_frequency: z.string(),
+  tone: z.string(),
+  audience_size_estimate: z.string(),
+  strengths: z.array(z.string()),
+  weaknesses: z.array(z.string()),
+  recommendations: z.array(z.string()),
+});
+
+export type ProfileData = z.infer<typeof profileDataSchema>;
+
+const PROFILE_JSON_PROMPT = `You are a social media analyst. Summarize a social media profile analysis as JSON with exactly these fields:
+{
+  "username": string,
+  "platform": string | null,
+  "platforms_present": string[],
+  "profile_completeness_score": number (1-10),
+  "bio_assessment": string,
+  "content_types": string[],
+  "content_themes": string[],
+  "posting_frequency": string,
+  "tone": string,
+  "audience_size_estimate": string,
+  "strengths": string[] (3-5 items),
+  "weaknesses": string[] (3-5 items),
+  "recommendations": string[] (ordered by impact)
+}`;
+
+type ProfileFacts = Omit<ProfileSnapshot, "id" | "created" | "owner" | "platform"> & { platform?: string };
+
+export type ProfileReport = ToolReport<ProfileData> & { snapshot?: ProfileFacts };
+
 export async function analyzeProfile(
-  input: AnalyzeProfileInput
-): Promise<string> {
-  const { username, platform, business_name } = input;
-  await log("info", "Starting profile analysis", { username, platform });
+  input: AnalyzeProfileInput,
+  ctx: ToolContext = {}
+): Promise<ProfileReport> {
+  const { username, platform, business_name, output_format } = input;
+  const locale = resolveLocale(input);
+  await log("info", "Starting profile analysis", { username, platform, locale: localeTag(locale) });
+  const sources = createSourceTracker({ ...ctx, locale });
 
   const platformStr = platform || "social media";
   const brandStr = business_name || username;
 
-  // Step 1: Search for the profile across platforms
+  // Step 1: Pull measured profile data when a platform connector is configured
+  const platformProfile = await fetchPlatformProfile(platform, username, ctx.signal);
+  const apiContext = platformProfile
+    ? platformDataContext(
+        platformProfile,
+        sources.record(platformProfile.url, `${platformProfile.platform} API: @${platformProfile.handle}`, `${platformProfile.platform}-api`)
+      )
+    : "";
+
+  // Step 2: Search for the profile across platforms
   const queries = [
     `${username} ${platformStr} profile`,
-    `"${username}" ${platform ? `site:${getPlatformDomain(platform)}` : "social media"}`,
+    `"${username}" ${platform ? `site:${platformDomain(platform, username)}` : "social media"}`,
     `${brandStr} ${platformStr} followers engagement`,
     `${brandStr} social media presence review`,
+    ...localQueries(locale, ["profile", "brand"], { brand: brandStr, platform: platform || "" }),
   ];
 
-  const allResults: { title: string; url: string; snippet: string }[] = [];
+  const allResults: SearchResult[] = [];
   for (const q of queries) {
-    const results = await searchWeb(q, 8);
+    const results = await sources.search(q, 8);
     allResults.push(...results);
   }
 
@@ -39,12 +102,13 @@ export async function analyzeProfile(
     return true;
   });
 
-  // Step 2: Fetch profile pages and mentions
+  // Step 3: Fetch profile pages and mentions
   const pagesToFetch = unique.slice(0, 6);
   const pages = await Promise.all(
     pagesToFetch.map(async (r) => {
-      const page = await fetchPage(r.url).catch(() => null);
+      const page = await sources.fetch(r.url);
       return {
+        source: sources.ref(r.url),
         url: r.url,
         title: r.title,
         snippet: r.snippet,
@@ -61,31 +125,37 @@ export async function analyzeProfile(
     })
   );
 
-  // Step 3: Search for recent content/posts
+  // Step 4: Search for recent content/posts
   const recentQueries = [
-    `${brandStr} latest posts ${platformStr} 2026`,
+    `${brandStr} latest posts ${platformStr} ${currentYear()}`,
     `${username} content strategy`,
   ];
 
-  const recentResults: { title: string; url: string; snippet: string }[] = [];
+  const recentResults: SearchResult[] = [];
   for (const q of recentQueries) {
-    const results = await searchWeb(q, 5);
+    const results = await sources.search(q, 5);
     recentResults.push(...results);
   }
 
-  // Step 4: AI analysis
+  // Step 5: AI analysis
   const searchContext = unique
     .slice(0, 15)
-    .map((r) => `- ${r.title}: ${r.snippet}`)
+    .map((r) => `- [${sources.ref(r.url)}] ${r.title}: ${r.snippet}`)
     .join("\n");
 
   const recentContext = recentResults
     .slice(0, 8)
-    .map((r) => `- ${r.title}: ${r.snippet}`)
+    .map((r) => `- [${sources.ref(r.url)}] ${r.title}: ${r.snippet}`)
     .join("\n");
 
-  const report = await analyze(
-    `You are a social media analyst. Analyze the social media profile and presence of this brand/person.
+  // Themes and completeness are always extracted so they can be snapshotted,
+  // even when the caller only asked for markdown
+  const format = output_format || "markdown";
+  const extracted = await generateReport({
+    tool: "analyze_profile",
+    ctx,
+    format: format === "json" ? "json" : "both",
+    systemPrompt: `You are a social media analyst. Analyze the social media profile and presence of this brand/person.
 
 Structure your report as:
 ## Social Media Profile Analysis: @${username}
@@ -127,10 +197,12 @@ Numbered list of specific, actionable recommendations:
 2. [Next highest]
 ...
 
-Be specific and data-driven. Reference patterns you observe in the search results.`,
-    `Username: @${username}
-${platform ? `Platform: ${platform}` : "Platform: Cross-platform"}
+Be specific and data-driven. Reference patterns you observe in the search results.
+${PLATFORM_DATA_INSTRUCTIONS}`,
+    userPrompt: `Username: @${username}
+${platform ? `Platform: ${platform}\n${platformPromptContext(platform)}` : "Platform: Cross-platform"}
 ${business_name ? `Business: ${business_name}` : ""}
+${apiContext}
 
 Search Results & Profile Data:
 ${searchContext}
@@ -142,8 +214,32 @@ Fetched Page Data:
 ${JSON.stringify(pages.filter((p) => p.pageData), null, 2)}
 
 Provide a comprehensive social media profile analysis.`,
-    3000
-  );
+    sources,
+    maxTokens: 3000,
+    jsonPrompt: PROFILE_JSON_PROMPT,
+    schema: profileDataSchema,
+    locale,
+  });
+
+  // Step 6: Facts for the snapshot saved after every call (see saveProfileRun)
+  const report: ProfileReport = {
+    ...extracted,
+    format,
+    data: format === "markdown" ? undefined : extracted.data,
+    snapshot: {
+      username,
+      platform,
+      ...extractProfileFacts(pages, [...unique, ...recentResults], platform),
+      // Measured API values override scraped indicators
+      ...(platformProfile?.bio ? { bio: platformProfile.bio.slice(0, 300) } : {}),
+      ...(platformProfile?.followers !== undefined ? { followers: platformProfile.followers } : {}),
+      content_themes: extracted.data?.content_themes ?? null,
+      completeness_score: extracted.data?.profile_completeness_score ?? null,
+      ...(extracted.data?.platforms_present.length
+        ? { platforms_present: extracted.data.platforms_present.map((p) => p.toLowerCase()) }
+        : {}),
+    },
+  };
 
   await log("info", "Profile analysis complete", {
     username,
@@ -154,14 +250,62 @@ Provide a comprehensive social media profile analysis.`,
   return report;
 }
 
-function getPlatformDomain(platform: string): string {
-  const domains: Record<string, string> = {
-    twitter: "x.com",
-    instagram: "instagram.com",
-    linkedin: "linkedin.com",
-    facebook: "facebook.com",
-    tiktok: "tiktok.com",
-    youtube: "youtube.com",
+/** Saves the run's facts for the caller, including when the report came from cache */
+export async function saveProfileRun(report: ProfileReport, ctx: ToolContext): Promise<void> {
+  if (!ctx.apiKey || !report.snapshot) return;
+  await saveProfileSnapshot({ owner: ctx.apiKey, ...report.snapshot });
+}
+
+const FOLLOWER_PATTERN = /(\d[\d,.]*)\s*([KMB])?\+?\s+(followers|subscribers|connections|following|posts|likes)\b/gi;
+
+function parseCount(num: string, suffix?: string): number {
+  const value = parseFloat(num.replace(/,/g, ""));
+  const mult = { K: 1e3, M: 1e6, B: 1e9 }[(suffix || "").toUpperCase() as "K" | "M" | "B"] || 1;
+  return Math.round(value * mult);
+}
+
+interface ProfilePage {
+  url: string;
+  snippet: string;
+  pageData: { description: string; textPreview: string; ogTags: Record<string, string> } | null;
+}
+
+/** Deterministic profile facts from fetched pages, preferring the platform's own profile page */
+function extractProfileFacts(pages: ProfilePage[], results: SearchResult[], platform?: string) {
+  const onPlatform = (url: string) => (platform ? platformOf(url) === platform : platformOf(url) !== null);
+  const ranked = [...pages].sort((a, b) => Number(onPlatform(b.url)) - Number(onPlatform(a.url)));
+  const profilePage = ranked.find((p) => p.pageData && onPlatform(p.url)) || ranked.find((p) => p.pageData);
+
+  const bio =
+    profilePage?.pageData?.ogTags["og:description"] || profilePage?.pageData?.description || null;
+
+  // Counts from the profile's own pages are trusted over third-party mentions
+  const texts = [
+    ...ranked.flatMap((p) => [p.pageData?.description || "", p.pageData?.ogTags["og:description"] || "", p.snippet]),
+    ...results.filter((r) => onPlatform(r.url)).map((r) => r.snippet),
+  ];
+  const indicators: string[] = [];
+  let followers: number | null = null;
+  for (const text of texts) {
+    for (const m of text.matchAll(FOLLOWER_PATTERN)) {
+      const label = `${m[1]}${m[2] || ""} ${m[3].toLowerCase()}`;
+      if (!indicators.includes(label) && indicators.length < 10) indicators.push(label);
+      if (followers === null && /followers|subscribers/i.test(m[3])) followers = parseCount(m[1], m[2]);
+    }
+  }
+
+  const platforms = new Set<string>();
+  for (const r of results) {
+    const p = platformOf(r.url);
+    if (p) platforms.add(p);
+  }
+
+  return {
+    bio: bio ? bio.slice(0, 300) : null,
+    followers,
+    follower_indicators: indicators,
+    og_tags: profilePage?.pageData?.ogTags || {},
+    platforms_present: [...platforms].sort(),
+    source_urls: pages.filter((p) => p.pageData).map((p) => p.url),
   };
-  return domains[platform.toLowerCase()] || platform;
 }
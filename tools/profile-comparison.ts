@@ -0,0 +1,200 @@
+import { z } from "zod";
+import type { OutputFormat, ToolContext, ToolReport } from "../lib/report";
+import { listProfileSnapshots, normalizeHandle } from "../lib/snapshots";
+import type { ProfileSnapshot } from "../lib/snapshots";
+import { log } from "../lib/logger";
+
+export interface CompareProfileSnapshotsInput {
+  username: string;
+  platform?: string;
+  from_snapshot?: string;
+  to_snapshot?: string;
+  output_format?: OutputFormat;
+}
+
+const numberChangeSchema = z.object({
+  before: z.number().nullable(),
+  after: z.number().nullable(),
+  change: z.number().nullable(),
+});
+
+const listChangeSchema = z.object({
+  added: z.array(z.string()),
+  removed: z.array(z.string()),
+});
+
+export const profileDiffSchema = z.object({
+  username: z.string(),
+  platform: z.string(),
+  snapshot_count: z.number(),
+  from: z.object({ id: z.string(), created: z.string() }),
+  to: z.object({ id: z.string(), created: z.string() }),
+  bio: z.object({ changed: z.boolean(), before: z.string().nullable(), after: z.string().nullable() }),
+  followers: numberChangeSchema.extend({ change_pct: z.number().nullable() }),
+  completeness_score: numberChangeSchema,
+  content_themes: listChangeSchema,
+  platforms: listChangeSchema,
+  og_tags_changed: z.array(
+    z.object({ key: z.string(), before: z.string().nullable(), after: z.string().nullable() })
+  ),
+  changes: z.array(z.string()).describe("Human-readable summary of every change"),
+});
+
+export type ProfileDiff = z.infer<typeof profileDiffSchema>;
+
+export async function compareProfileSnapshots(
+  input: CompareProfileSnapshotsInput,
+  ctx: ToolContext = {}
+): Promise<ToolReport<ProfileDiff>> {
+  const { username, platform, from_snapshot, to_snapshot, output_format } = input;
+  if (!ctx.apiKey) throw new Error("API key required to compare profile snapshots.");
+
+  const snapshots = await listProfileSnapshots(ctx.apiKey, username, platform);
+  const label = `@${normalizeHandle(username)}${platform ? ` on ${platform}` : ""}`;
+  if (snapshots.length < 2) {
+    throw new Error(
+      `Found ${snapshots.length} snapshot(s) for ${label}. Run analyze_profile${platform ? ` with platform "${platform}"` : ""} at least twice to compare.`
+    );
+  }
+
+  const find = (id: string) => {
+    const snap = snapshots.find((s) => s.id === id);
+    if (!snap) throw new Error(`Snapshot not found for ${label}: ${id}`);
+    return snap;
+  };
+  const to = to_snapshot ? find(to_snapshot) : snapshots[snapshots.length - 1];
+  const from = from_snapshot ? find(from_snapshot) : snapshots[snapshots.indexOf(to) - 1] || snapshots[0];
+  if (from.id === to.id) throw new Error("from_snapshot and to_snapshot must differ.");
+
+  const diff = diffSnapshots(from, to, snapshots.length);
+  await log("info", "Profile snapshot comparison", { username, platform, changes: diff.changes.length });
+
+  const format = output_format || "markdown";
+  return {
+    format,
+    markdown: format !== "json" ? renderDiff(diff, label) : undefined,
+    data: format !== "markdown" ? diff : undefined,
+    sources: [],
+  };
+}
+
+function numberChange(before: number | null, after: number | null) {
+  return {
+    before,
+    after,
+    change: before !== null && after !== null ? after - before : null,
+  };
+}
+
+function listChange(before: string[] | null, after: string[] | null) {
+  const norm = (list: string[] | null) => new Set((list || []).map((s) => s.toLowerCase()));
+  const b = norm(before);
+  const a = norm(after);
+  return {
+    added: [...a].filter((x) => !b.has(x)),
+    removed: [...b].filter((x) => !a.has(x)),
+  };
+}
+
+function diffSnapshots(from: ProfileSnapshot, to: ProfileSnapshot, count: number): ProfileDiff {
+  const followers = numberChange(from.followers, to.followers);
+  const score = numberChange(from.completeness_score, to.completeness_score);
+  // Themes are LLM output; only compare when both runs recorded them
+  const themes =
+    from.content_themes && to.content_themes
+      ? listChange(from.content_themes, to.content_themes)
+      : { added: [], removed: [] };
+  const platforms = listChange(from.platforms_present, to.platforms_present);
+
+  const ogKeys = new Set([...Object.keys(from.og_tags), ...Object.keys(to.og_tags)]);
+  const ogChanged = [...ogKeys]
+    .filter((k) => from.og_tags[k] !== to.og_tags[k])
+    .map((k) => ({ key: k, before: from.og_tags[k] ?? null, after: to.og_tags[k] ?? null }));
+
+  const changes: string[] = [];
+  const bioChanged = (from.bio || "") !== (to.bio || "");
+  if (bioChanged) changes.push("Bio changed");
+  if (followers.change) {
+    changes.push(`Followers ${followers.change > 0 ? "up" : "down"} ${Math.abs(followers.change).toLocaleString()}`);
+  }
+  if (score.change) {
+    changes.push(`Profile completeness score ${score.change > 0 ? "up" : "down"} ${Math.abs(score.change)} (${score.before} → ${score.after})`);
+  }
+  for (const p of platforms.added) changes.push(`New platform: ${p}`);
+  for (const p of platforms.removed) changes.push(`No longer found on: ${p}`);
+  for (const t of themes.added) changes.push(`New content theme: ${t}`);
+  for (const t of themes.removed) changes.push(`Dropped content theme: ${t}`);
+  for (const o of ogChanged) changes.push(`${o.key} changed`);
+
+  return {
+    username: to.username,
+    platform: to.platform,
+    snapshot_count: count,
+    from: { id: from.id, created: from.created },
+    to: { id: to.id, created: to.created },
+    bio: { changed: bioChanged, before: from.bio, after: to.bio },
+    followers: {
+      ...followers,
+      change_pct:
+        followers.change !== null && followers.before
+          ? Math.round((followers.change / followers.before) * 1000) / 10
+          : null,
+    },
+    completeness_score: score,
+    content_themes: themes,
+    platforms,
+    og_tags_changed: ogChanged,
+    changes,
+  };
+}
+
+function fmt(value: number | null): string {
+  return value === null ? "n/a" : value.toLocaleString();
+}
+
+function renderDiff(diff: ProfileDiff, label: string): string {
+  const lines = [
+    `## Profile Changes: ${label}`,
+    `**Compared:** ${diff.from.created.slice(0, 10)} (${diff.from.id}) → ${diff.to.created.slice(0, 10)} (${diff.to.id}) · ${diff.snapshot_count} snapshots on file`,
+    "",
+    "### Summary",
+    ...(diff.changes.length ? diff.changes.map((c) => `- ${c}`) : ["- No changes detected"]),
+    "",
+    "### Scores",
+    "| Metric | Before | After | Change |",
+    "|--------|--------|-------|--------|",
+    `| Followers | ${fmt(diff.followers.before)} | ${fmt(diff.followers.after)} | ${fmt(diff.followers.change)}${diff.followers.change_pct !== null ? ` (${diff.followers.change_pct}%)` : ""} |`,
+    `| Completeness score | ${fmt(diff.completeness_score.before)} | ${fmt(diff.completeness_score.after)} | ${fmt(diff.completeness_score.change)} |`,
+  ];
+
+  if (diff.bio.changed) {
+    lines.push("", "### Bio", `**Before:** ${diff.bio.before || "(none)"}`, "", `**After:** ${diff.bio.after || "(none)"}`);
+  }
+  if (diff.platforms.added.length || diff.platforms.removed.length) {
+    lines.push(
+      "",
+      "### Platforms",
+      `- Added: ${diff.platforms.added.join(", ") || "none"}`,
+      `- Removed: ${diff.platforms.removed.join(", ") || "none"}`
+    );
+  }
+  if (diff.content_themes.added.length || diff.content_themes.removed.length) {
+    lines.push(
+      "",
+      "### Content Themes",
+      `- New: ${diff.content_themes.added.join(", ") || "none"}`,
+      `- Dropped: ${diff.content_themes.removed.join(", ") || "none"}`
+    );
+  }
+  if (diff.og_tags_changed.length) {
+    lines.push("", "### Page Metadata");
+    for (const o of diff.og_tags_changed) {
+      lines.push(`- **${o.key}:** ${o.before ?? "(none)"} → ${o.after ?? "(none)"}`);
+    }
+  }
+  if (diff.completeness_score.before === null || diff.completeness_score.after === null) {
+    lines.push("", "_Completeness score and content themes were not recorded for one of these snapshots._");
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,404 @@
+import type { SearchResult } from "../lib/scraper";
+import { z } from "zod";
+import { addUsage, generateReport } from "../lib/report";
+import { createSourceTracker } from "../lib/sources";
+import type { OutputFormat, ReportUsage, ToolContext, ToolReport } from "../lib/report";
+import { analyzeJSON } from "../lib/openai";
+import { log } from "../lib/logger";
+import { rankByFreshness, STALE_AFTER_DAYS } from "../lib/dates";
+import { platformDomain, platformPromptContext } from "../lib/platforms";
+import { localeTag, localQueries, resolveLocale } from "../lib/locale";
+import type { LocaleInput } from "../lib/locale";
+
+export interface AnalyzeSentimentInput extends LocaleInput {
+  brand_or_topic: string;
+  platform?: string;
+  max_mentions?: number;
+  output_format?: OutputFormat;
+}
+
+const SENTIMENTS = ["positive", "neutral", "negative"] as const;
+const EMOTIONS = ["joy", "trust", "anticipation", "surprise", "anger", "frustration", "disappointment", "fear", "none"] as const;
+const ASPECTS = ["price", "support", "quality", "delivery", "usability", "reliability", "features", "trust", "other"] as const;
+
+// Mentions per classification call; small enough that each verdict can be checked against its text
+const BATCH_SIZE = 10;
+const PAGES_TO_FETCH = 6;
+const MENTIONS_PER_PAGE = 4;
+// Complaints count as emerging when most of their dated mentions fall in this window
+const RECENT_DAYS = 30;
+
+const classificationSchema = z.object({
+  mentions: z.array(
+    z.object({
+      id: z.string(),
+      sentiment: z.enum(SENTIMENTS),
+      emotion: z.enum(EMOTIONS),
+      aspects: z.array(z.enum(ASPECTS)),
+      quote: z.string(),
+    })
+  ),
+});
+
+const CLASSIFY_PROMPT = `You classify brand mentions one by one. For every mention in the list return an entry with exactly these fields:
+{
+  "mentions": [{
+    "id": string (the mention id as given),
+    "sentiment": "positive" | "neutral" | "negative" (the writer's attitude toward the brand, not the topic in general),
+    "emotion": ${EMOTIONS.map((e) => `"${e}"`).join(" | ")},
+    "aspects": (${ASPECTS.map((a) => `"${a}"`).join(" | ")})[] (what the mention is about; empty if nothing specific),
+    "quote": string (the shortest phrase, copied verbatim from the mention, that shows the sentiment)
+  }]
+}
+Classify each mention on its own text only. Mentions may be in any language; keep quotes in the original language.`;
+
+const mentionSchema = z.object({
+  id: z.string(),
+  source: z.number().describe("Citation number of the source"),
+  url: z.string(),
+  published_at: z.string().nullable(),
+  text: z.string(),
+  sentiment: z.enum(SENTIMENTS),
+  emotion: z.enum(EMOTIONS),
+  aspects: z.array(z.enum(ASPECTS)),
+  quote: z.string().describe("Phrase from the text that carries the sentiment"),
+  batch: z.number().describe("Classification batch the mention was judged in"),
+});
+
+const exampleSchema = z.object({ id: z.string(), quote: z.string(), url: z.string() });
+
+const sentimentCommentarySchema = z.object({
+  summary: z.string(),
+  recommendations: z.array(z.string()),
+});
+
+export const sentimentDataSchema = z.object({
+  brand_or_topic: z.string(),
+  platform: z.string().nullable(),
+  mention_count: z.number().describe("Mentions classified"),
+  unclassified: z.number().describe("Mentions the model skipped; excluded from the percentages"),
+  sentiment: z.object({
+    positive_pct: z.number(),
+    neutral_pct: z.number(),
+    negative_pct: z.number(),
+    net_score: z.number().describe("Positive minus negative share, -100 to 100"),
+  }),
+  emotions: z.array(z.object({ emotion: z.enum(EMOTIONS), count: z.number(), pct: z.number() })),
+  aspects: z.array(
+    z.object({
+      aspect: z.enum(ASPECTS),
+      mentions: z.number(),
+      positive: z.number(),
+      neutral: z.number(),
+      negative: z.number(),
+    })
+  ),
+  examples: z.object({
+    positive: z.array(exampleSchema),
+    neutral: z.array(exampleSchema),
+    negative: z.array(exampleSchema),
+  }),
+  complaints: z.array(
+    z.object({
+      aspect: z.enum(ASPECTS),
+      negative_mentions: z.number(),
+      recent_mentions: z.number().describe(`Negative mentions published in the last ${RECENT_DAYS} days`),
+      first_seen: z.string().nullable(),
+      emerging: z.boolean(),
+      examples: z.array(exampleSchema),
+    })
+  ),
+  mentions: z.array(mentionSchema),
+  summary: z.string(),
+  recommendations: z.array(z.string()),
+});
+
+export type SentimentData = z.infer<typeof sentimentDataSchema>;
+type Mention = z.infer<typeof mentionSchema>;
+type SentimentStats = Pick<SentimentData, "sentiment" | "emotions" | "aspects" | "examples" | "complaints">;
+
+const SENTIMENT_JSON_PROMPT = `You are a brand sentiment analyst. Summarize the commentary in a sentiment report as JSON with exactly these fields:
+{
+  "summary": string (2-3 sentences),
+  "recommendations": string[] (ordered by impact)
+}`;
+
+interface RawMention {
+  id: string;
+  source: number;
+  url: string;
+  published_at: string | null;
+  text: string;
+}
+
+export async function analyzeSentiment(
+  input: AnalyzeSentimentInput,
+  ctx: ToolContext = {}
+): Promise<ToolReport<SentimentData>> {
+  const { brand_or_topic, platform, output_format } = input;
+  const maxMentions = Math.min(input.max_mentions || 40, 80);
+  const locale = resolveLocale(input);
+  await log("info", "Starting sentiment analysis", { brand_or_topic, platform, locale: localeTag(locale) });
+  const sources = createSourceTracker({ ...ctx, locale });
+  const platformStr = platform || "social media";
+
+  // Step 1: Search for mentions, reviews and complaints
+  const queries = [
+    `"${brand_or_topic}" reviews`,
+    `${brand_or_topic} complaints`,
+    `${brand_or_topic} customer experience`,
+    `${brand_or_topic} ${platformStr} comments`,
+    platform ? `"${brand_or_topic}" site:${platformDomain(platform)}` : `${brand_or_topic} reddit opinions`,
+    ...localQueries(locale, ["brand"], { brand: brand_or_topic }),
+  ];
+
+  const allResults: SearchResult[] = [];
+  for (const q of queries) {
+    const results = await sources.search(q, 8);
+    allResults.push(...results);
+  }
+
+  // Deduplicate
+  const seen = new Set<string>();
+  const unique = allResults.filter((r) => {
+    if (seen.has(r.url)) return false;
+    seen.add(r.url);
+    return true;
+  });
+
+  // Step 2: Fetch pages for full-text mentions, newest first
+  const pages = rankByFreshness(
+    await Promise.all(
+      unique.slice(0, PAGES_TO_FETCH).map(async (r) => {
+        const page = await sources.fetch(r.url);
+        return { url: r.url, publishedAt: page?.publishedAt ?? null, text: page?.textContent ?? "" };
+      })
+    ),
+    STALE_AFTER_DAYS
+  );
+
+  // Step 3: Cut sources into individual mentions
+  const mentions = collectMentions(brand_or_topic, unique, pages, (url) => sources.ref(url)).slice(0, maxMentions);
+  if (mentions.length === 0) throw new Error(`No mentions of "${brand_or_topic}" found in search results.`);
+
+  // Step 4: Classify each mention, in batches so every verdict is tied to its text
+  let classifyUsage: ReportUsage | undefined;
+  const classified: Mention[] = [];
+  const batches = Math.ceil(mentions.length / BATCH_SIZE);
+  for (let b = 0; b < batches; b++) {
+    await ctx.progress?.(`Classifying mentions: batch ${b + 1}/${batches}`);
+    const batch = mentions.slice(b * BATCH_SIZE, (b + 1) * BATCH_SIZE);
+    const result = await analyzeJSON(
+      CLASSIFY_PROMPT,
+      `Brand or topic: ${brand_or_topic}
+
+Mentions:
+${batch.map((m) => `[${m.id}] ${m.text}`).join("\n")}`,
+      classificationSchema,
+      1500,
+      {
+        tool: "analyze_sentiment",
+        settings: ctx.llm,
+        signal: ctx.signal,
+        onUsage: (usage) => (classifyUsage = addUsage(classifyUsage, usage)),
+      }
+    );
+    const verdicts = new Map(result.mentions.map((v) => [v.id, v]));
+    for (const m of batch) {
+      const v = verdicts.get(m.id);
+      if (!v) continue;
+      // A quote that is not in the text is the model paraphrasing; fall back to the text itself
+      const quote = v.quote && m.text.includes(v.quote) ? v.quote : m.text.slice(0, 160);
+      classified.push({ ...m, sentiment: v.sentiment, emotion: v.emotion, aspects: [...new Set(v.aspects)], quote, batch: b + 1 });
+    }
+  }
+  if (classified.length === 0) throw new Error("The model did not classify any mentions.");
+
+  // Step 5: Aggregate
+  const stats = aggregate(classified);
+
+  // Step 6: AI commentary on the measured breakdown
+  const commentary = await generateReport({
+    tool: "analyze_sentiment",
+    ctx,
+    format: output_format,
+    systemPrompt: `You are a brand sentiment analyst. Explain the sentiment around a brand or topic from mentions that have already been classified and counted.
+
+Structure your report as:
+## Sentiment Analysis: ${brand_or_topic}
+${platform ? `**Platform:** ${platform}` : "**Cross-platform analysis**"}
+
+### Overall Sentiment
+The measured split and net score, and what drives it
+
+### Emotions
+Which emotions dominate and what triggers them
+
+### What People Talk About
+Each aspect with its positive/negative balance, with example quotes
+
+### Emerging Complaints
+Complaints marked emerging first, then the other recurring complaints. Say what changed and how widespread it is
+
+### What People Praise
+The strongest positive themes
+
+### Recommendations
+Numbered, specific actions ordered by impact
+
+The counts and percentages were measured from the classified mentions. Use them as given; do not estimate or restate them differently. Quote mentions verbatim.`,
+    userPrompt: `Brand/Topic: ${brand_or_topic}
+${platform ? `Platform: ${platform}\n${platformPromptContext(platform)}` : "Platforms: All major platforms"}
+
+Measured Sentiment (${classified.length} mentions):
+${JSON.stringify({ sentiment: stats.sentiment, emotions: stats.emotions, aspects: stats.aspects, complaints: stats.complaints }, null, 2)}
+
+Classified Mentions:
+${classified.map((m) => `- [${m.source}] ${m.sentiment}, ${m.emotion}${m.aspects.length ? `, ${m.aspects.join("/")}` : ""}: "${m.quote}"${m.published_at ? ` (${m.published_at.slice(0, 10)})` : ""}`).join("\n")}
+
+Write the sentiment report.`,
+    sources,
+    maxTokens: 3000,
+    jsonPrompt: SENTIMENT_JSON_PROMPT,
+    schema: sentimentCommentarySchema,
+    locale,
+  });
+
+  const report: ToolReport<SentimentData> = {
+    ...commentary,
+    usage: commentary.usage ? addUsage(classifyUsage, commentary.usage) : classifyUsage,
+    markdown: commentary.markdown && `${commentary.markdown}\n\n${mentionTable(classified)}`,
+    data: commentary.data && {
+      brand_or_topic,
+      platform: platform || null,
+      mention_count: classified.length,
+      unclassified: mentions.length - classified.length,
+      ...stats,
+      mentions: classified,
+      ...commentary.data,
+    },
+  };
+
+  await log("info", "Sentiment analysis complete", {
+    brand_or_topic,
+    mentions: classified.length,
+    negative_pct: stats.sentiment.negative_pct,
+  });
+
+  return report;
+}
+
+/**
+ * Sentences that name the brand, from fetched pages first, then search
+ * snippets. Duplicate text is kept once.
+ */
+function collectMentions(
+  brand: string,
+  results: SearchResult[],
+  pages: { url: string; publishedAt: string | null; text: string }[],
+  ref: (url: string) => number
+): RawMention[] {
+  const pattern = new RegExp(brand.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+  const mentions: RawMention[] = [];
+  const seen = new Set<string>();
+  const add = (url: string, text: string, publishedAt: string | null) => {
+    const clean = text.replace(/\s+/g, " ").trim();
+    const key = clean.toLowerCase();
+    if (clean.length < 30 || seen.has(key)) return;
+    seen.add(key);
+    mentions.push({ id: `m${mentions.length + 1}`, source: ref(url), url, published_at: publishedAt, text: clean.slice(0, 400) });
+  };
+
+  for (const page of pages) {
+    const sentences = page.text.split(/(?<=[.!?。！？])\s+/).filter((s) => pattern.test(s));
+    for (const s of sentences.slice(0, MENTIONS_PER_PAGE)) add(page.url, s, page.publishedAt);
+  }
+  const dates = new Map(pages.map((p) => [p.url, p.publishedAt]));
+  for (const r of results) {
+    if (pattern.test(`${r.title} ${r.snippet}`)) add(r.url, r.snippet, dates.get(r.url) ?? null);
+  }
+  return mentions;
+}
+
+const pct = (n: number, total: number) => (total ? Math.round((n / total) * 1000) / 10 : 0);
+
+function aggregate(mentions: Mention[]): SentimentStats {
+  const total = mentions.length;
+  const count = (sentiment: string, list = mentions) => list.filter((m) => m.sentiment === sentiment).length;
+  const example = (m: Mention) => ({ id: m.id, quote: m.quote, url: m.url });
+
+  const emotions = EMOTIONS.map((emotion) => {
+    const n = mentions.filter((m) => m.emotion === emotion).length;
+    return { emotion, count: n, pct: pct(n, total) };
+  })
+    .filter((e) => e.count > 0)
+    .sort((a, b) => b.count - a.count);
+
+  const aspects = ASPECTS.map((aspect) => {
+    const about = mentions.filter((m) => m.aspects.includes(aspect));
+    return {
+      aspect,
+      mentions: about.length,
+      positive: count("positive", about),
+      neutral: count("neutral", about),
+      negative: count("negative", about),
+    };
+  })
+    .filter((a) => a.mentions > 0)
+    .sort((a, b) => b.mentions - a.mentions);
+
+  const cutoff = new Date(Date.now() - RECENT_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const complaints = aspects
+    .filter((a) => a.negative > 0)
+    .map((a) => {
+      const negative = mentions.filter((m) => m.sentiment === "negative" && m.aspects.includes(a.aspect));
+      const dated = negative.filter((m) => m.published_at).map((m) => m.published_at!).sort();
+      const recent = dated.filter((d) => d >= cutoff).length;
+      return {
+        aspect: a.aspect,
+        negative_mentions: negative.length,
+        recent_mentions: recent,
+        first_seen: dated[0]?.slice(0, 10) ?? null,
+        // Most dated complaints are recent and there is more than a one-off
+        emerging: negative.length >= 2 && recent > 0 && recent * 2 >= dated.length,
+        examples: negative.slice(0, 2).map(example),
+      };
+    })
+    .sort((a, b) => Number(b.emerging) - Number(a.emerging) || b.negative_mentions - a.negative_mentions);
+
+  const positive = count("positive");
+  const negative = count("negative");
+  return {
+    sentiment: {
+      positive_pct: pct(positive, total),
+      neutral_pct: pct(count("neutral"), total),
+      negative_pct: pct(negative, total),
+      net_score: Math.round(((positive - negative) / total) * 100),
+    },
+    emotions,
+    aspects,
+    examples: {
+      positive: mentions.filter((m) => m.sentiment === "positive").slice(0, 3).map(example),
+      neutral: mentions.filter((m) => m.sentiment === "neutral").slice(0, 3).map(example),
+      negative: mentions.filter((m) => m.sentiment === "negative").slice(0, 3).map(example),
+    },
+    complaints,
+  };
+}
+
+function mentionTable(mentions: Mention[]): string {
+  const cell = (s: string) => s.replace(/\|/g, "\\|").replace(/\s+/g, " ");
+  const host = (url: string) => {
+    try {
+      return new URL(url).hostname.replace(/^www\./, "");
+    } catch {
+      return url;
+    }
+  };
+  return `### Classified Mentions
+Each mention was classified on its own text, ${BATCH_SIZE} per model call.
+
+| # | Sentiment | Emotion | Aspects | Quote | Source |
+|---|-----------|---------|---------|-------|--------|
+${mentions.map((m) => `| ${m.id} | ${m.sentiment} | ${m.emotion} | ${m.aspects.join(", ")} | ${cell(m.quote)} | [${host(m.url)}](${m.url}) |`).join("\n")}`;
+}
@@ -1,83 +1,188 @@
-import { searchWeb, fetchPage } from "../lib/scraper";
-import { analyze } from "../lib/openai";
+import type { SearchResult } from "../lib/scraper";
+import { z } from "zod";
+import { generateReport } from "../lib/report";
+import { createSourceTracker } from "../lib/sources";
+import type { OutputFormat, ToolContext, ToolReport } from "../lib/report";
 import { log } from "../lib/logger";
+import { PLATFORMS } from "../lib/platforms";
+import { currentYear, inRange, isoDay, rankByFreshness, resolveTimeframe } from "../lib/dates";
+import {
+  countHashtags,
+  countTerm,
+  createTrendSnapshot,
+  listTrendSnapshots,
+  localizedTimeframe,
+  priorWindows,
+  saveTrendSnapshot,
+  termMomentum,
+} from "../lib/trend-history";
+import type { TermCount, TrendDocument, TrendSnapshot } from "../lib/trend-history";
+import { localeTag, localQueries, resolveLocale } from "../lib/locale";
+import type { LocaleInput } from "../lib/locale";
 
-export interface DetectTrendsInput {
+export interface DetectTrendsInput extends LocaleInput {
   niche: string;
   timeframe?: string;
+  /** ISO dates; take precedence over timeframe */
+  since?: string;
+  until?: string;
+  output_format?: OutputFormat;
 }
 
+const trendFields = {
+  name: z.string(),
+  description: z.string(),
+  catalyst: z.string(),
+  platforms: z.array(z.string()),
+  relevance: z.number().min(1).max(10),
+};
+
+/** Shape the model extracts; momentum is measured afterwards from trend history */
+const trendExtractSchema = z.object({
+  niche: z.string(),
+  timeframe: z.string(),
+  trends: z.array(z.object(trendFields)),
+  viral_formats: z.array(z.string()),
+  overall_sentiment: z.enum(["positive", "neutral", "negative", "mixed"]),
+  emerging_topics: z.array(z.object({ topic: z.string(), why: z.string() })),
+  content_opportunities: z.array(
+    z.object({ idea: z.string(), format: z.string(), platform: z.string() })
+  ),
+  topics_to_avoid: z.array(z.string()),
+});
+
+const momentumFields = {
+  mentions: z.number().describe("Sources in this run that mention it"),
+  momentum: z
+    .enum(["new", "rising", "peaking", "stable", "declining"])
+    .nullable()
+    .describe("Measured against earlier runs for the same niche and timeframe; null for custom date ranges"),
+  change_pct: z.number().nullable().describe("Change in share of sources versus the prior-window average"),
+};
+
+export const trendDataSchema = trendExtractSchema.extend({
+  trends: z.array(z.object({ ...trendFields, ...momentumFields })),
+  trending_hashtags: z.array(z.object({ tag: z.string(), ...momentumFields })),
+  history_windows: z
+    .number()
+    .describe("Earlier windows the momentum was measured against (0 on the first run or when every earlier run is this recent)"),
+});
+
+export type TrendData = z.infer<typeof trendDataSchema>;
+
+const TREND_JSON_PROMPT = `You are a social media trend analyst. Summarize a trend detection report as JSON with exactly these fields:
+{
+  "niche": string,
+  "timeframe": string,
+  "trends": [{ "name": string, "description": string, "catalyst": string, "platforms": string[], "relevance": number (1-10) }] (5-8 items),
+  "viral_formats": string[],
+  "overall_sentiment": "positive" | "neutral" | "negative" | "mixed",
+  "emerging_topics": [{ "topic": string, "why": string }],
+  "content_opportunities": [{ "idea": string, "format": string, "platform": string }],
+  "topics_to_avoid": string[]
+}`;
+
+export type TrendReport = ToolReport<TrendData> & { snapshot?: TrendSnapshot };
+
 export async function detectTrends(
-  input: DetectTrendsInput
-): Promise<string> {
-  const { niche, timeframe } = input;
-  const tf = timeframe || "this_week";
-  await log("info", "Starting trend detection", { niche, timeframe: tf });
+  input: DetectTrendsInput,
+  ctx: ToolContext = {}
+): Promise<TrendReport> {
+  const { niche, output_format } = input;
+  const span = resolveTimeframe(input);
+  const { range: dateRange, label: timeframeLabel } = span;
+  const locale = resolveLocale(input);
+  const historyKey = span.historyKey && localizedTimeframe(span.historyKey, locale);
+  await log("info", "Starting trend detection", { niche, timeframe: timeframeLabel, locale: localeTag(locale) });
+  const sources = createSourceTracker({ ...ctx, locale });
 
-  const timeframeLabel =
-    tf === "today" ? "today" : tf === "this_month" ? "this month" : "this week";
+  // Relative timeframes read naturally in a query; custom ranges are searched by year
+  const sinceYear = parseInt(dateRange.since!.slice(0, 4));
+  const untilYear = parseInt(dateRange.until!.slice(0, 4));
+  const period = span.historyKey
+    ? `${timeframeLabel} ${currentYear()}`
+    : sinceYear === untilYear ? `${untilYear}` : `${sinceYear} ${untilYear}`;
 
   // Step 1: Search for trending content in the niche
   const queries = [
-    `${niche} trending ${timeframeLabel} 2026`,
-    `${niche} viral social media ${timeframeLabel}`,
+    `${niche} trending ${period}`,
+    `${niche} viral social media ${span.historyKey ? timeframeLabel : period}`,
     `${niche} latest news trends`,
     `${niche} trending topics discussion`,
-    `${niche} what's new popular ${timeframeLabel}`,
+    `${niche} what's new popular ${span.historyKey ? timeframeLabel : period}`,
+    ...localQueries(locale, ["trends", "news"], { topic: niche, year: span.historyKey ? currentYear() : period }),
   ];
 
-  const allResults: { title: string; url: string; snippet: string }[] = [];
+  const allResults: SearchResult[] = [];
   for (const q of queries) {
-    const results = await searchWeb(q, 8);
+    const results = await sources.search(q, 8, { dateRange });
     allResults.push(...results);
   }
 
   // Deduplicate
   const seen = new Set<string>();
-  const unique = allResults.filter((r) => {
+  const deduped = allResults.filter((r) => {
     if (seen.has(r.url)) return false;
     seen.add(r.url);
     return true;
   });
 
   // Step 2: Fetch key trend pages for deeper analysis
-  const trendPages = await Promise.all(
-    unique.slice(0, 6).map(async (r) => {
-      const page = await fetchPage(r.url).catch(() => null);
+  const fetchedPages = await Promise.all(
+    deduped.slice(0, 6).map(async (r) => {
+      const page = await sources.fetch(r.url);
       return {
+        source: sources.ref(r.url),
         url: r.url,
         title: r.title,
         snippet: r.snippet,
+        publishedAt: page?.publishedAt ?? null,
         textPreview: page ? page.textContent.slice(0, 800) : null,
         h2: page ? page.h2.slice(0, 6) : [],
       };
     })
   );
 
+  // Drop pages that declare a publish date outside the range; undated pages stay
+  const outOfRange = new Set(
+    fetchedPages.filter((p) => p.publishedAt && !inRange(p.publishedAt, dateRange)).map((p) => p.url)
+  );
+  if (outOfRange.size > 0) {
+    await log("info", `Dropped ${outOfRange.size} source(s) published outside ${timeframeLabel}`, { niche });
+  }
+  const unique = deduped.filter((r) => !outOfRange.has(r.url));
+  const trendPages = rankByFreshness(fetchedPages.filter((p) => !outOfRange.has(p.url)));
+
   // Step 3: Search for related hashtags and discussions
   const socialQueries = [
     `#${niche.replace(/\s+/g, "")} trending`,
-    `${niche} social media conversation ${timeframeLabel}`,
+    `${niche} social media conversation ${span.historyKey ? timeframeLabel : period}`,
   ];
 
-  const socialResults: { title: string; url: string; snippet: string }[] = [];
+  const socialResults: SearchResult[] = [];
   for (const q of socialQueries) {
-    const results = await searchWeb(q, 5);
+    const results = await sources.search(q, 5, { dateRange });
     socialResults.push(...results);
   }
 
   // Step 4: AI analysis
   const searchContext = unique
     .slice(0, 20)
-    .map((r) => `- ${r.title}: ${r.snippet}`)
+    .map((r) => `- [${sources.ref(r.url)}] ${r.title}: ${r.snippet}`)
     .join("\n");
 
   const socialContext = socialResults
-    .map((r) => `- ${r.title}: ${r.snippet}`)
+    .map((r) => `- [${sources.ref(r.url)}] ${r.title}: ${r.snippet}`)
     .join("\n");
 
-  const report = await analyze(
-    `You are a social media trend analyst. Detect and analyze trending topics, conversations, and opportunities in a specific niche.
+  // Trends are always extracted so they can be counted and stored, even when
+  // the caller only asked for markdown
+  const format = output_format || "markdown";
+  const extracted = await generateReport({
+    tool: "detect_trends",
+    ctx,
+    format: format === "json" ? "json" : "both",
+    systemPrompt: `You are a social media trend analyst. Detect and analyze trending topics, conversations, and opportunities in a specific niche.
 
 Structure your report as:
 ## Trend Detection: ${niche}
@@ -89,7 +194,6 @@ For each trend (identify 5-8):
 - What it is (1-2 sentence description)
 - Why it's trending (catalyst/event)
 - Platforms where it's most active
-- Estimated momentum (rising/peaking/declining)
 - Relevance score for ${niche} (1-10)
 
 ### Viral Content Patterns
@@ -123,9 +227,12 @@ Specific content ideas based on current trends:
 - Upcoming events that may generate trends
 - Platform algorithm changes affecting content
 
+Only discuss activity from ${timeframeLabel} (${dateRange.since} to ${dateRange.until}). Do not estimate momentum (rising/peaking/declining); it is measured from earlier runs and added to the report separately.
+
 Be specific and reference actual patterns from the search data.`,
-    `Niche: ${niche}
-Timeframe: ${timeframeLabel}
+    userPrompt: `Niche: ${niche}
+Timeframe: ${timeframeLabel} (${dateRange.since} to ${dateRange.until})
+Platforms to consider: ${Object.values(PLATFORMS).map((p) => p.label).join(", ")}
 
 Trending Content Search Results (${unique.length} sources):
 ${searchContext}
@@ -137,14 +244,98 @@ Detailed Page Analysis:
 ${JSON.stringify(trendPages.filter((p) => p.textPreview), null, 2)}
 
 Detect current trends and provide actionable content opportunities.`,
-    3500
-  );
+    sources,
+    maxTokens: 3500,
+    jsonPrompt: TREND_JSON_PROMPT,
+    schema: trendExtractSchema,
+    locale,
+  });
+
+  // Step 5: Measure momentum against earlier runs and store this run's counts
+  const docs = trendDocuments([...unique, ...socialResults], trendPages);
+  const trendCounts = extracted.data!.trends.map((t) => countTerm(t.name, docs));
+  const hashtagCounts = countHashtags(docs);
+  // Custom ranges are one-off lookups, so they are neither compared nor stored
+  const history = historyKey ? await listTrendSnapshots(niche, historyKey) : [];
+  const trendWindows = priorWindows(history, span.windowMs, (s) => s.trends);
+  const hashtagWindows = priorWindows(history, span.windowMs, (s) => s.hashtags);
+  const measure = (count: TermCount, windows: typeof trendWindows) =>
+    historyKey ? termMomentum(count, docs.length, windows) : { momentum: null, change_pct: null };
+
+  const data: TrendData = {
+    ...extracted.data!,
+    trends: extracted.data!.trends.map((t, i) => ({
+      ...t,
+      mentions: trendCounts[i].mentions,
+      ...measure(trendCounts[i], trendWindows),
+    })),
+    trending_hashtags: hashtagCounts.slice(0, 10).map((c) => ({
+      tag: c.term,
+      mentions: c.mentions,
+      ...measure(c, hashtagWindows),
+    })),
+    history_windows: trendWindows.length,
+  };
+
+  const report: TrendReport = {
+    ...extracted,
+    format,
+    markdown: extracted.markdown && `${extracted.markdown}\n\n${momentumTable(data, docs.length, historyKey, history.length)}`,
+    data: format === "markdown" ? undefined : data,
+    // Stored after the call (see saveTrendRun)
+    snapshot: historyKey
+      ? createTrendSnapshot({ niche, timeframe: historyKey, source_count: docs.length, trends: trendCounts, hashtags: hashtagCounts })
+      : undefined,
+  };
 
   await log("info", "Trend detection complete", {
     niche,
-    timeframe: tf,
+    timeframe: timeframeLabel,
     sources_found: unique.length,
   });
 
   return report;
 }
+
+/** Adds the run's counts to the niche history, including when the report came from cache */
+export async function saveTrendRun(report: TrendReport): Promise<void> {
+  if (report.snapshot) await saveTrendSnapshot(report.snapshot);
+}
+
+function trendDocuments(
+  results: SearchResult[],
+  pages: { url: string; textPreview: string | null; publishedAt: string | null }[]
+): TrendDocument[] {
+  const today = isoDay(new Date());
+  const docs = new Map<string, TrendDocument>();
+  for (const r of results) {
+    const doc = docs.get(r.url);
+    if (doc) doc.text += ` ${r.title} ${r.snippet}`;
+    else docs.set(r.url, { url: r.url, text: `${r.title} ${r.snippet}`, date: today });
+  }
+  for (const p of pages) {
+    const doc = docs.get(p.url);
+    if (!doc) continue;
+    if (p.textPreview) doc.text += ` ${p.textPreview}`;
+    if (p.publishedAt) doc.date = p.publishedAt.slice(0, 10);
+  }
+  return [...docs.values()];
+}
+
+function momentumTable(data: TrendData, sourceCount: number, historyKey: string | null, storedRuns: number): string {
+  const change = (pct: number | null) => (pct === null ? "—" : `${pct > 0 ? "+" : ""}${pct}%`);
+  const basis = !historyKey
+    ? `Custom date ranges are not compared with earlier runs, so momentum is not measured.`
+    : data.history_windows > 0
+      ? `Share of this run's ${sourceCount} sources mentioning each trend, compared with the previous ${data.history_windows} window(s) of runs for this niche.`
+      : storedRuns > 0
+        ? `Every earlier run for this niche and timeframe falls within the current window, so there is no earlier window to compare yet and every trend shows as new.`
+        : `First run for this niche and timeframe: every trend is new. Momentum is measured from the next run on.`;
+
+  return `### Measured Momentum
+${basis}
+
+| Trend | Sources | Momentum | Change |
+|-------|---------|----------|--------|
+${data.trends.map((t) => `| ${t.name} | ${t.mentions} | ${t.momentum ?? "—"} | ${change(t.change_pct)} |`).join("\n")}`;
+}